@@ -1,17 +1,36 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { Scheduler } from './services/scheduler';
-import { readStaffFromExcel } from './services/excelService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { runSchedulerInWorker, SchedulerJob } from './services/schedulerWorkerClient';
+import { readStaffFromExcel, readScheduleFromExcel } from './services/excelService';
 import { exportToExcel, generateTemplate } from './services/excelService';
+import { createRoleConfig } from './services/roles';
 import { exportToJSON, importFromJSON } from './services/backupService';
 import { generateShareLink, parseShareLink } from './services/shareService';
-import { Staff, Service, RoleConfig, ScheduleResult, UnitConstraint, Preset } from './types';
+import { Staff, Service, RoleConfig, ScheduleResult, UnitConstraint, Preset, SchedulerProgress, WeightProfile, RuleSetting, SchedulerConfig, LocalSearchConfig, SchedulerEngine, SavedSchedule, CarryOverHistory, LedgerMonth, Holiday, PairConstraint, RestRulesConfig, StaffingPlan, SchedulePins, RepairAbsence } from './types';
 import { ICONS, MOCK_STAFF, MOCK_SERVICES, DEFAULT_UNIT_CONSTRAINTS } from './constants';
 import { Card, Button } from './components/ui';
-import { Moon, Sun, ShieldCheck, CheckCircle2, Activity, Info, X, Check, Eye, Link as LinkIcon, Copy, Zap, FileSpreadsheet, MousePointerClick, BookOpen, Settings2, Users, AlertTriangle, Layers, DoorOpen } from 'lucide-react';
+import { Moon, Sun, ShieldCheck, CheckCircle2, Activity, Info, X, Check, Eye, Link as LinkIcon, Copy, Zap, FileSpreadsheet, MousePointerClick, BookOpen, Settings2, Users, AlertTriangle, Layers, DoorOpen, SlidersHorizontal, History, Scale, CalendarDays, BedDouble } from 'lucide-react';
 import { StaffManager } from './components/StaffManager';
 import { ServiceManager } from './components/ServiceManager';
 import { ScheduleViewer } from './components/ScheduleViewer';
+import { WeightProfileModal } from './components/WeightProfileModal';
+import { RuleSettingsModal } from './components/RuleSettingsModal';
+import { HolidayCalendarModal } from './components/HolidayCalendarModal';
+import { RepairModal } from './components/RepairModal';
+import { RestRulesModal } from './components/RestRulesModal';
+import { restRulesFromLegacy } from './services/restRules';
+import { FairnessLedgerTable } from './components/FairnessLedgerTable';
+import { WEIGHT_PRESETS, withDefaultWeights } from './services/weights';
+import { DEFAULT_RULE_SETTINGS, mergeRuleSettings } from './services/rules';
+import { DEFAULT_LOCAL_SEARCH } from './services/localSearch';
+import { DEFAULT_EXACT_TIME_LIMIT_MS, EXACT_RECOMMENDED_MAX_STAFF } from './services/exactScheduler';
+import { DEFAULT_ALTERNATIVE_COUNT, MAX_ALTERNATIVE_COUNT } from './services/scheduler';
+import { buildCarryOver, getPreviousMonth, isPreviousMonthOf } from './services/carryOver';
+import { DEFAULT_LEDGER_MONTHS, buildLedgerMonth, summarizeLedger, upsertLedgerMonth } from './services/fairnessLedger';
+import { getBuiltInHolidays, getMonthHolidays } from './services/holidays';
+import { migrateStaff } from './services/staffMigration';
+import { getMonthPins } from './services/pins';
+import { daysToLeaveRecords } from './services/leave';
 
 // Helper for LocalStorage - Robust to null/undefined/errors/type mismatches
 const loadState = <T,>(key: string, defaultValue: T): T => {
@@ -55,13 +74,15 @@ export default function App() {
   const [staff, setStaff] = useState<Staff[]>(() => {
       const loaded = loadState('nobet_staff', MOCK_STAFF as unknown as Staff[]);
       if (!Array.isArray(loaded)) return [];
-      return loaded.map(s => {
+      const migrated = loaded.map(s => {
           let sNew = { ...s, isActive: s.isActive !== undefined ? s.isActive : true };
           // Migration for old specialty keys to new display names
           if (sNew.specialty === 'transplant') sNew.specialty = 'Transplantasyon';
           if (sNew.specialty === 'wound') sNew.specialty = 'Yara Bakım';
           return sNew;
       });
+      // Old per-month offDays / requestedDays are upgraded relative to the month that was selected when they were entered
+      return migrateStaff(migrated, loadState('nobet_year', new Date().getFullYear()), loadState('nobet_month', new Date().getMonth()));
   });
 
   const [services, setServices] = useState<Service[]>(() => loadState('nobet_services', MOCK_SERVICES as unknown as Service[]));
@@ -72,8 +93,26 @@ export default function App() {
   const [month, setMonth] = useState(() => loadState('nobet_month', new Date().getMonth()));
   const [year, setYear] = useState(() => loadState('nobet_year', new Date().getFullYear()));
   const [randomizeDays, setRandomizeDays] = useState(() => loadState('nobet_randomize', true));
-  const [preventEveryOther, setPreventEveryOther] = useState(() => loadState('nobet_preventEveryOther', true));
+  const [restRules, setRestRules] = useState<RestRulesConfig>(() => loadState('nobet_restRules', restRulesFromLegacy(loadState<RuleSetting[] | undefined>('nobet_rules', undefined), loadState('nobet_preventEveryOther', true))));
   const [dailyTotalTarget, setDailyTotalTarget] = useState(() => loadState('nobet_dailyTotalTarget', 6)); // Default 6 nurses per day
+  const [dailyTotalTargetPlan, setDailyTotalTargetPlan] = useState<StaffingPlan<number> | undefined>(() => loadState('nobet_dailyTotalTargetPlan', undefined));
+  const [maxRetries, setMaxRetries] = useState(() => loadState('nobet_maxRetries', 200)); // Worker sayesinde 50'nin üzerine çıkabiliyoruz
+  const [seedInput, setSeedInput] = useState<string>(() => loadState('nobet_seed', '')); // Boş = her seferinde rastgele
+  const [weightProfile, setWeightProfile] = useState<WeightProfile>(() => withDefaultWeights(loadState('nobet_weight_profile', WEIGHT_PRESETS[0])));
+  const [savedWeightProfiles, setSavedWeightProfiles] = useState<WeightProfile[]>(() => loadState('nobet_weight_profiles', []));
+  const [localSearch, setLocalSearch] = useState<LocalSearchConfig>(() => ({ ...DEFAULT_LOCAL_SEARCH, ...loadState('nobet_localSearch', DEFAULT_LOCAL_SEARCH) }));
+  const [engine, setEngine] = useState<SchedulerEngine>(() => loadState('nobet_engine', 'heuristic'));
+  const [alternativeCount, setAlternativeCount] = useState(() => loadState('nobet_alternatives', DEFAULT_ALTERNATIVE_COUNT)); // Karşılaştırılacak farklı çözüm sayısı
+  const [exactTimeLimitMs, setExactTimeLimitMs] = useState(() => loadState('nobet_exactTimeLimit', DEFAULT_EXACT_TIME_LIMIT_MS));
+  const [ruleSettings, setRuleSettings] = useState<RuleSetting[]>(() => mergeRuleSettings(loadState('nobet_rules', DEFAULT_RULE_SETTINGS)));
+  const [savedSchedules, setSavedSchedules] = useState<SavedSchedule[]>(() => loadState('nobet_saved_schedules', []));
+  const [fairnessLedger, setFairnessLedger] = useState<LedgerMonth[]>(() => loadState('nobet_ledger', []));
+  const [ledgerMonths, setLedgerMonths] = useState(() => loadState('nobet_ledgerMonths', DEFAULT_LEDGER_MONTHS));
+  const [carryOver, setCarryOver] = useState<CarryOverHistory | null>(() => loadState<CarryOverHistory | null>('nobet_carryOver', null));
+  const [useBuiltInHolidays, setUseBuiltInHolidays] = useState(() => loadState('nobet_builtInHolidays', true));
+  const [customHolidays, setCustomHolidays] = useState<Holiday[]>(() => loadState('nobet_customHolidays', []));
+  const [pairConstraints, setPairConstraints] = useState<PairConstraint[]>(() => loadState('nobet_pairConstraints', []));
+  const [pins, setPins] = useState<SchedulePins | null>(() => loadState<SchedulePins | null>('nobet_pins', null));
   const [isBlackAndWhite, setIsBlackAndWhite] = useState(() => loadState('nobet_bw_theme', false));
   
   // User Saved Presets
@@ -82,6 +121,14 @@ export default function App() {
   // --- NON-PERSISTENT STATE ---
   const [result, setResult] = useState<ScheduleResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<SchedulerProgress | null>(null);
+  const [showWeightModal, setShowWeightModal] = useState(false);
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [showHolidayModal, setShowHolidayModal] = useState(false);
+  const [showRepairModal, setShowRepairModal] = useState(false);
+  const [showRestModal, setShowRestModal] = useState(false);
+  const jobRef = useRef<SchedulerJob | null>(null);
 
   // --- READ ONLY / SHARE MODE STATE ---
   const [isReadOnly, setIsReadOnly] = useState(false);
@@ -104,11 +151,13 @@ export default function App() {
       const shareData = parseShareLink();
       if (shareData) {
           setIsReadOnly(true);
-          setStaff(shareData.staff || []);
+          const sharedMonth = shareData.month ?? new Date().getMonth();
+          const sharedYear = shareData.year || new Date().getFullYear();
+          setStaff(migrateStaff(shareData.staff || [], sharedYear, sharedMonth));
           setServices(shareData.services || []);
           setResult(shareData.result);
-          setMonth(shareData.month || new Date().getMonth());
-          setYear(shareData.year || new Date().getFullYear());
+          setMonth(sharedMonth);
+          setYear(sharedYear);
           setActiveTab('generate'); // Force view
       }
   }, []);
@@ -121,8 +170,26 @@ export default function App() {
   useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_month', JSON.stringify(month)); }, [month, isReadOnly]);
   useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_year', JSON.stringify(year)); }, [year, isReadOnly]);
   useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_randomize', JSON.stringify(randomizeDays)); }, [randomizeDays, isReadOnly]);
-  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_preventEveryOther', JSON.stringify(preventEveryOther)); }, [preventEveryOther, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_restRules', JSON.stringify(restRules)); }, [restRules, isReadOnly]);
   useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_dailyTotalTarget', JSON.stringify(dailyTotalTarget)); }, [dailyTotalTarget, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_dailyTotalTargetPlan', JSON.stringify(dailyTotalTargetPlan ?? null)); }, [dailyTotalTargetPlan, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_maxRetries', JSON.stringify(maxRetries)); }, [maxRetries, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_seed', JSON.stringify(seedInput)); }, [seedInput, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_weight_profile', JSON.stringify(weightProfile)); }, [weightProfile, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_weight_profiles', JSON.stringify(savedWeightProfiles)); }, [savedWeightProfiles, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_rules', JSON.stringify(ruleSettings)); }, [ruleSettings, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_localSearch', JSON.stringify(localSearch)); }, [localSearch, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_alternatives', JSON.stringify(alternativeCount)); }, [alternativeCount, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_engine', JSON.stringify(engine)); }, [engine, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_exactTimeLimit', JSON.stringify(exactTimeLimitMs)); }, [exactTimeLimitMs, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_saved_schedules', JSON.stringify(savedSchedules)); }, [savedSchedules, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_ledger', JSON.stringify(fairnessLedger)); }, [fairnessLedger, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_ledgerMonths', JSON.stringify(ledgerMonths)); }, [ledgerMonths, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_carryOver', JSON.stringify(carryOver)); }, [carryOver, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_builtInHolidays', JSON.stringify(useBuiltInHolidays)); }, [useBuiltInHolidays, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_customHolidays', JSON.stringify(customHolidays)); }, [customHolidays, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_pairConstraints', JSON.stringify(pairConstraints)); }, [pairConstraints, isReadOnly]);
+  useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_pins', JSON.stringify(pins)); }, [pins, isReadOnly]);
   useEffect(() => { localStorage.setItem('nobet_bw_theme', JSON.stringify(isBlackAndWhite)); }, [isBlackAndWhite]); // Theme is always local pref
   
   useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_units', JSON.stringify(customUnits)); }, [customUnits, isReadOnly]);
@@ -130,6 +197,9 @@ export default function App() {
   
   useEffect(() => { if(!isReadOnly) localStorage.setItem('nobet_user_presets', JSON.stringify(savedPresets)); }, [savedPresets, isReadOnly]);
 
+  // Stop any running worker when the app unmounts
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
   // Ensure role configs
   const uniqueRoles = useMemo(() => {
     if (!Array.isArray(staff)) return [];
@@ -142,7 +212,7 @@ export default function App() {
      const newConfigs = { ...roleConfigs };
      uniqueRoles.forEach(r => {
          if (!newConfigs[r]) {
-             newConfigs[r] = { role: r, quotaService: 5, weekendLimit: 2 };
+             newConfigs[r] = createRoleConfig(r);
              changed = true;
          }
      });
@@ -158,7 +228,7 @@ export default function App() {
   
   // NEW: Handle Preset Loading
   const handleLoadPreset = (preset: Preset) => {
-      setStaff(preset.staff);
+      setStaff(migrateStaff(preset.staff, year, month));
       setServices(preset.services);
       
       // Load custom metadata if exists in preset
@@ -167,6 +237,11 @@ export default function App() {
       
       setUnitConstraints(preset.unitConstraints);
       setDailyTotalTarget(preset.dailyTotalTarget);
+      setDailyTotalTargetPlan(preset.dailyTotalTargetPlan);
+      if (preset.weightProfile) setWeightProfile(withDefaultWeights(preset.weightProfile));
+      if (preset.ruleSettings) setRuleSettings(mergeRuleSettings(preset.ruleSettings));
+      setPairConstraints(preset.pairConstraints || []);
+      if (preset.restRules) setRestRules(preset.restRules);
       setResult(null); // Clear previous results
       alert(`"${preset.name}" şablonu başarıyla yüklendi.`);
   };
@@ -186,40 +261,142 @@ export default function App() {
       }
   };
 
+  const handleSaveWeightProfile = (profile: WeightProfile) => {
+      setSavedWeightProfiles(prev => prev.some(p => p.id === profile.id)
+          ? prev.map(p => p.id === profile.id ? profile : p)
+          : [...prev, profile]);
+  };
+
+  const handleDeleteWeightProfile = (id: string) => {
+      if (window.confirm("Bu puanlama profilini silmek istediğinize emin misiniz?")) {
+          setSavedWeightProfiles(prev => prev.filter(p => p.id !== id));
+          if (weightProfile.id === id) setWeightProfile(WEIGHT_PRESETS[0]);
+      }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0]) {
           try {
-              const importedStaff = await readStaffFromExcel(e.target.files[0]);
+              const importedStaff = await readStaffFromExcel(e.target.files[0], year, month);
               setStaff(importedStaff);
               alert(`${importedStaff.length} personel yüklendi. Hedefler ve kısıtlamalar Excel'den okundu.`);
           } catch (error) {
-              alert('Dosya okunurken hata oluştu.');
+              alert(`Dosya okunurken hata oluştu.${error instanceof Error ? `\n${error.message}` : ''}`);
+          }
+      }
+  };
+
+  const parsedSeed = seedInput.trim() === '' ? undefined : parseInt(seedInput);
+  const configuredSeed = parsedSeed !== undefined && !isNaN(parsedSeed) ? parsedSeed : undefined;
+
+  const holidays = useMemo(() => [...(useBuiltInHolidays ? getBuiltInHolidays(year) : []), ...customHolidays], [year, useBuiltInHolidays, customHolidays]);
+  const monthHolidayCount = useMemo(() => getMonthHolidays(holidays, year, month).size, [holidays, year, month]);
+
+  const schedulerConfig: SchedulerConfig = useMemo(() => ({
+      year,
+      month,
+      maxRetries: Math.max(1, maxRetries),
+      randomizeOrder: randomizeDays,
+      restRules,
+      unitConstraints: unitConstraints,
+      dailyTotalTarget: dailyTotalTarget,
+      dailyTotalTargetPlan,
+      seed: configuredSeed,
+      weights: weightProfile.weights,
+      rules: ruleSettings,
+      localSearch,
+      engine,
+      exactTimeLimitMs,
+      carryOver: carryOver && isPreviousMonthOf(carryOver, year, month) ? carryOver : undefined,
+      fairnessLedger: summarizeLedger(fairnessLedger, year, month, ledgerMonths),
+      holidays,
+      pairConstraints,
+      roles: roleConfigs,
+      pins: getMonthPins(pins, year, month),
+      alternatives: alternativeCount
+  }), [year, month, maxRetries, randomizeDays, restRules, unitConstraints, dailyTotalTarget, dailyTotalTargetPlan, configuredSeed, weightProfile, ruleSettings, localSearch, engine, exactTimeLimitMs, carryOver, fairnessLedger, ledgerMonths, holidays, pairConstraints, roleConfigs, pins, alternativeCount]);
+
+  const previousMonth = getPreviousMonth(year, month);
+  const archivedPreviousMonth = savedSchedules.find(s => s.year === previousMonth.year && s.month === previousMonth.month);
+  const monthLabel = (y: number, m: number) => new Date(y, m).toLocaleString('tr-TR', { month: 'long', year: 'numeric' });
+
+  // Kesinleşen listeyi arşive al: sonraki ayın ay sınırı geçmişi ve adalet defteri buradan beslenir
+  const handleArchiveResult = () => {
+      if (!result) return;
+      const existing = savedSchedules.some(s => s.year === year && s.month === month);
+      if (existing && !window.confirm(`${monthLabel(year, month)} için arşivde kayıtlı bir liste var. Üzerine yazılsın mı?`)) return;
+      const entry: SavedSchedule = { year, month, savedAt: new Date().toISOString(), schedule: result.schedule };
+      setSavedSchedules(prev => [...prev.filter(s => !(s.year === year && s.month === month)), entry]);
+      setFairnessLedger(prev => upsertLedgerMonth(prev, buildLedgerMonth(result.schedule, staff, services, year, month, holidays)));
+      alert(`${monthLabel(year, month)} listesi arşive kaydedildi.`);
+  };
+
+  const handleUseArchivedCarryOver = () => {
+      if (!archivedPreviousMonth) return;
+      setCarryOver(buildCarryOver(archivedPreviousMonth.schedule, archivedPreviousMonth.year, archivedPreviousMonth.month, 'saved'));
+  };
+
+  const handleCarryOverExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const imported = await readScheduleFromExcel(file, staff, services);
+          if (!isPreviousMonthOf(imported, year, month)) {
+              alert(`Dosya ${monthLabel(imported.year, imported.month)} ayına ait. ${monthLabel(year, month)} için ${monthLabel(previousMonth.year, previousMonth.month)} listesi gerekli.`);
+              return;
+          }
+          setCarryOver(buildCarryOver(imported.schedule, imported.year, imported.month, 'excel'));
+          if (imported.unmatchedNames.length > 0) {
+              alert(`Personel listesinde bulunamayan isimler yok sayıldı: ${imported.unmatchedNames.join(', ')}`);
           }
+      } catch (error) {
+          alert('Önceki ay listesi okunamadı.');
+          console.error(error);
       }
   };
 
   const handleExportBackup = () => {
-    exportToJSON(staff, services, roleConfigs, { month, year, randomizeDays, preventEveryOther, dailyTotalTarget }, unitConstraints, customUnits, customSpecialties);
+    // Son çizelgenin tohumu varsa onu sakla ki aynı liste yedekten yeniden üretilebilsin
+    const seed = result?.seed ?? configuredSeed;
+    exportToJSON(staff, services, roleConfigs, { month, year, randomizeDays, dailyTotalTarget, dailyTotalTargetPlan, maxRetries, seed, localSearch, engine, exactTimeLimitMs, useBuiltInHolidays, alternatives: alternativeCount, ledgerMonths }, unitConstraints, customUnits, customSpecialties, weightProfile, ruleSettings, savedSchedules, fairnessLedger, customHolidays, pairConstraints, restRules, pins ?? undefined, carryOver);
   };
 
   const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
         try {
             const data = await importFromJSON(e.target.files[0]);
-            if (Array.isArray(data.staff)) setStaff(data.staff);
+            if (Array.isArray(data.staff)) setStaff(migrateStaff(data.staff, data.config?.year ?? year, data.config?.month ?? month));
             if (Array.isArray(data.services)) setServices(data.services);
             if (data.roleConfigs) setRoleConfigs(data.roleConfigs);
             if (Array.isArray(data.unitConstraints)) setUnitConstraints(data.unitConstraints);
             
             if (data.customUnits) setCustomUnits(data.customUnits);
             if (data.customSpecialties) setCustomSpecialties(data.customSpecialties);
+            if (data.weightProfile) setWeightProfile(withDefaultWeights(data.weightProfile));
+            if (Array.isArray(data.ruleSettings)) setRuleSettings(mergeRuleSettings(data.ruleSettings));
+            if (Array.isArray(data.savedSchedules)) setSavedSchedules(data.savedSchedules);
+            if (Array.isArray(data.fairnessLedger)) setFairnessLedger(data.fairnessLedger);
+            if (Array.isArray(data.customHolidays)) setCustomHolidays(data.customHolidays);
+            if (Array.isArray(data.pairConstraints)) setPairConstraints(data.pairConstraints);
+            if (data.pins) setPins(data.pins);
+            if (data.carryOver !== undefined) setCarryOver(data.carryOver);
 
             if (data.config) {
                 setMonth(data.config.month);
                 setYear(data.config.year);
                 setRandomizeDays(data.config.randomizeDays);
-                setPreventEveryOther(data.config.preventEveryOther);
+                setRestRules(data.restRules ?? restRulesFromLegacy(data.ruleSettings, data.config.preventEveryOther));
                 if(data.config.dailyTotalTarget) setDailyTotalTarget(data.config.dailyTotalTarget);
+                setDailyTotalTargetPlan(data.config.dailyTotalTargetPlan);
+                if(data.config.maxRetries) setMaxRetries(data.config.maxRetries);
+                if(data.config.seed !== undefined) setSeedInput(data.config.seed.toString());
+                if(data.config.localSearch) setLocalSearch({ ...DEFAULT_LOCAL_SEARCH, ...data.config.localSearch });
+                if(data.config.engine) setEngine(data.config.engine);
+                if(data.config.exactTimeLimitMs) setExactTimeLimitMs(data.config.exactTimeLimitMs);
+                if(data.config.useBuiltInHolidays !== undefined) setUseBuiltInHolidays(data.config.useBuiltInHolidays);
+                if(data.config.alternatives) setAlternativeCount(data.config.alternatives);
+                if(data.config.ledgerMonths) setLedgerMonths(data.config.ledgerMonths);
             }
             alert("Yedek başarıyla yüklendi.");
         } catch (error) {
@@ -229,35 +406,66 @@ export default function App() {
     }
   };
 
-  const handleGenerate = () => {
+  const handleGenerate = async () => {
+      if (jobRef.current) return;
       setLoading(true);
-      // Timeout to allow UI update
-      setTimeout(() => {
-          try {
-              const scheduler = new Scheduler(staff, services, {
-                  year,
-                  month,
-                  maxRetries: 50,
-                  randomizeOrder: randomizeDays,
-                  preventEveryOtherDay: preventEveryOther,
-                  unitConstraints: unitConstraints,
-                  dailyTotalTarget: dailyTotalTarget
-              });
-              const res = scheduler.generate();
+      setProgress(null);
+
+      const job = runSchedulerInWorker(staff, services, schedulerConfig, setProgress);
+      jobRef.current = job;
+
+      try {
+          const res = await job.promise;
+          if (res) {
               setResult(res);
               setActiveTab('generate');
-          } catch (e: any) {
-              alert("Çizelge oluşturulamadı: " + e.message);
-              console.error(e);
-          } finally {
-              setLoading(false);
           }
-      }, 100);
+      } catch (e: any) {
+          alert("Çizelge oluşturulamadı: " + e.message);
+          console.error(e);
+      } finally {
+          jobRef.current = null;
+          setLoading(false);
+          setProgress(null);
+      }
+  };
+
+  // Yayınlanmış çizelgeyi yeni yokluğa göre en az değişiklikle onarır; yokluk izin kaydı olarak da saklanır
+  const handleRepair = async (absence: RepairAbsence) => {
+      if (jobRef.current || !result) return;
+      setShowRepairModal(false);
+      setLoading(true);
+      setProgress(null);
+
+      const job = runSchedulerInWorker(staff, services, schedulerConfig, setProgress, { published: result.schedule, absences: [absence] });
+      jobRef.current = job;
+
+      try {
+          const res = await job.promise;
+          if (res) {
+              setResult(res);
+              const days = Array.from({ length: absence.endDay - absence.startDay + 1 }, (_, i) => absence.startDay + i);
+              setStaff(prev => prev.map(s => s.id === absence.staffId
+                  ? { ...s, leaves: [...(s.leaves || []), ...daysToLeaveRecords(days, year, month, absence.type)] }
+                  : s));
+          }
+      } catch (e: any) {
+          alert("Çizelge onarılamadı: " + e.message);
+          console.error(e);
+      } finally {
+          jobRef.current = null;
+          setLoading(false);
+          setProgress(null);
+      }
+  };
+
+  const handleCancelGenerate = () => {
+      jobRef.current?.cancel();
   };
   
   const handleDownload = () => {
       if (!result) return;
-      exportToExcel(result, services, year, month, staff);
+      exportToExcel(result, services, year, month, staff, roleConfigs);
   };
 
   const handleCreateShareLink = () => {
@@ -365,8 +573,11 @@ export default function App() {
                     handleExportBackup={handleExportBackup}
                     isBlackAndWhite={isBlackAndWhite}
                     daysInMonth={new Date(year, month + 1, 0).getDate()}
+                    year={year}
+                    month={month}
                     customUnits={customUnits} setCustomUnits={setCustomUnits}
                     customSpecialties={customSpecialties} setCustomSpecialties={setCustomSpecialties}
+                    pairConstraints={pairConstraints} setPairConstraints={setPairConstraints}
                     onLoadPreset={handleLoadPreset}
                     savedPresets={savedPresets}
                     onAddPreset={handleAddPreset}
@@ -382,6 +593,8 @@ export default function App() {
                     isBlackAndWhite={isBlackAndWhite}
                     unitConstraints={unitConstraints} setUnitConstraints={setUnitConstraints}
                     dailyTotalTarget={dailyTotalTarget} setDailyTotalTarget={setDailyTotalTarget}
+                    dailyTotalTargetPlan={dailyTotalTargetPlan} setDailyTotalTargetPlan={setDailyTotalTargetPlan}
+                    roleConfigs={roleConfigs}
                     customSpecialties={customSpecialties}
                 />
             )}
@@ -392,7 +605,7 @@ export default function App() {
                     
                     {!isReadOnly && (
                         <Card className={`p-6 border-l-4 transition-colors ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 border-l-indigo-500' : 'border-l-indigo-500'}`}>
-                            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+                            <div className="grid grid-cols-1 md:grid-cols-6 gap-6 items-end">
                                 <div>
                                     <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>AY</label>
                                     <select value={month} onChange={e => setMonth(parseInt(e.target.value))} className={`w-full rounded-lg shadow-sm p-2.5 border outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}>
@@ -405,30 +618,178 @@ export default function App() {
                                     <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>YIL</label>
                                     <input type="number" value={year} onChange={e => setYear(parseInt(e.target.value))} className={`w-full rounded-lg shadow-sm p-2.5 border outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`} />
                                 </div>
+                                <div>
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>DENEME SAYISI</label>
+                                    <input type="number" min="1" max="5000" value={maxRetries} onChange={e => setMaxRetries(parseInt(e.target.value) || 1)} className={`w-full rounded-lg shadow-sm p-2.5 border outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`} />
+                                </div>
+                                <div>
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>TOHUM (SEED)</label>
+                                    <input type="text" inputMode="numeric" value={seedInput} onChange={e => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))} placeholder="Rastgele" className={`w-full rounded-lg shadow-sm p-2.5 border outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white placeholder-slate-500' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'}`} />
+                                </div>
                                 
                                 <div className="flex items-center gap-3 pb-2">
                                      <label className={`flex items-center gap-2 cursor-pointer text-sm font-medium ${isBlackAndWhite ? 'text-gray-300' : 'text-gray-700'}`}>
                                         <input type="checkbox" checked={randomizeDays} onChange={e => setRandomizeDays(e.target.checked)} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
                                         <span>Rastgele Sıra</span>
                                      </label>
-                                     <label className={`flex items-center gap-2 cursor-pointer text-sm font-medium ${isBlackAndWhite ? 'text-gray-300' : 'text-gray-700'}`}>
-                                        <input type="checkbox" checked={preventEveryOther} onChange={e => setPreventEveryOther(e.target.checked)} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
-                                        <span>Gün Aşırı Engelle</span>
-                                     </label>
+                                     <button onClick={() => setShowRestModal(true)} className={`flex items-center gap-1.5 text-sm font-medium underline ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                        <BedDouble className="w-4 h-4" /> Dinlenme Kuralları
+                                     </button>
                                 </div>
 
                                 <Button onClick={handleGenerate} disabled={loading} className={`h-[42px] ${isBlackAndWhite ? '!bg-indigo-600 !border-indigo-500' : ''}`}>
                                     {loading ? 'Hesaplanıyor...' : 'Çizelgeyi Oluştur'}
                                 </Button>
                             </div>
+
+                            <div className={`mt-4 pt-4 border-t flex flex-wrap items-center gap-3 text-sm ${isBlackAndWhite ? 'border-slate-800 text-gray-300' : 'border-gray-100 text-gray-600'}`}>
+                                <SlidersHorizontal className="w-4 h-4 opacity-60" />
+                                <span>Puanlama Profili: <b>{weightProfile.name}</b></span>
+                                <button onClick={() => setShowWeightModal(true)} className={`text-xs font-bold underline ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                    Değiştir / Düzenle
+                                </button>
+                                <span className="opacity-30">|</span>
+                                <ShieldCheck className="w-4 h-4 opacity-60" />
+                                <span>Kesin Kurallar: <b>{ruleSettings.filter(r => r.enabled).length} / {ruleSettings.length} aktif</b></span>
+                                <button onClick={() => setShowRuleModal(true)} className={`text-xs font-bold underline ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                    Düzenle
+                                </button>
+                                <span className="opacity-30">|</span>
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={localSearch.enabled} onChange={e => setLocalSearch({ ...localSearch, enabled: e.target.checked })} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                                    <span>Yerel İyileştirme</span>
+                                </label>
+                                {localSearch.enabled && (
+                                    <label className="flex items-center gap-1.5 text-xs" title="Sabit iterasyon bütçesi: aynı tohumla her makinede aynı sonuç">
+                                        <input
+                                            type="number" min="1000" max="200000" step="1000"
+                                            value={localSearch.maxIterations}
+                                            onChange={e => setLocalSearch({ ...localSearch, maxIterations: Math.min(200000, Math.max(1000, parseInt(e.target.value) || 1000)) })}
+                                            className={`w-20 rounded-md p-1 border text-center outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                                        />
+                                        iterasyon
+                                    </label>
+                                )}
+                                <span className="opacity-30">|</span>
+                                <label className="flex items-center gap-1.5" title="En iyi farklı çözümler saklanır ve çizelge ekranında yan yana karşılaştırılır (sadece sezgisel motor)">
+                                    Alternatif
+                                    <input
+                                        type="number" min="1" max={MAX_ALTERNATIVE_COUNT}
+                                        value={alternativeCount}
+                                        onChange={e => setAlternativeCount(Math.min(MAX_ALTERNATIVE_COUNT, Math.max(1, parseInt(e.target.value) || 1)))}
+                                        className={`w-12 rounded-md p-1 border text-center text-xs outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                                    />
+                                </label>
+                                <span className="opacity-30">|</span>
+                                <span>Motor:</span>
+                                <div className={`flex p-0.5 rounded-lg border ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-100 border-gray-200'}`}>
+                                    {([['heuristic', 'Hızlı (Sezgisel)'], ['exact', 'Kesin']] as [SchedulerEngine, string][]).map(([value, label]) => (
+                                        <button
+                                            key={value}
+                                            onClick={() => setEngine(value)}
+                                            className={`px-2.5 py-1 rounded-md text-xs font-bold transition-all ${engine === value ? (isBlackAndWhite ? 'bg-slate-600 text-white shadow' : 'bg-white text-indigo-600 shadow') : (isBlackAndWhite ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-800')}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {engine === 'exact' && (
+                                    <>
+                                        <label className="flex items-center gap-1.5 text-xs">
+                                            süre sınırı
+                                            <input
+                                                type="number" min="1" max="600"
+                                                value={Math.round(exactTimeLimitMs / 1000)}
+                                                onChange={e => setExactTimeLimitMs(Math.max(1, parseInt(e.target.value) || 1) * 1000)}
+                                                className={`w-14 rounded-md p-1 border text-center outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                                            />
+                                            sn
+                                        </label>
+                                        {staff.filter(s => s.isActive).length > EXACT_RECOMMENDED_MAX_STAFF && (
+                                            <span className="text-xs text-amber-500 font-medium">
+                                                {EXACT_RECOMMENDED_MAX_STAFF} kişiden büyük ekiplerde optimallik süre içinde kanıtlanamayabilir.
+                                            </span>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+
+                            <div className={`mt-3 pt-3 border-t flex flex-wrap items-center gap-3 text-sm ${isBlackAndWhite ? 'border-slate-800 text-gray-300' : 'border-gray-100 text-gray-600'}`}>
+                                <History className="w-4 h-4 opacity-60" />
+                                <span>Önceki Ay ({monthLabel(previousMonth.year, previousMonth.month)}):</span>
+                                {schedulerConfig.carryOver ? (
+                                    <b>Son {schedulerConfig.carryOver.days.length} gün {schedulerConfig.carryOver.source === 'saved' ? 'arşivden' : "Excel'den"} alındı</b>
+                                ) : (
+                                    <span className="opacity-70">Yok — ayın ilk günlerinde 24 saat ve Perşembe-Haftasonu kuralları önceki ayı göremez</span>
+                                )}
+                                {archivedPreviousMonth && (
+                                    <button onClick={handleUseArchivedCarryOver} className={`text-xs font-bold underline ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                        Arşivden Al
+                                    </button>
+                                )}
+                                <label className={`text-xs font-bold underline cursor-pointer ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                    Excel'den Yükle
+                                    <input type="file" accept=".xlsx, .xls" onChange={handleCarryOverExcel} className="hidden" />
+                                </label>
+                                {carryOver && (
+                                    <button onClick={() => setCarryOver(null)} className="text-xs font-bold underline text-rose-500">
+                                        Kaldır
+                                    </button>
+                                )}
+                                <span className="opacity-30">|</span>
+                                <Scale className="w-4 h-4 opacity-60" />
+                                <span>Adalet Defteri: <b>{schedulerConfig.fairnessLedger?.length ? `son ${ledgerMonths} ay dikkate alınıyor` : 'kayıt yok'}</b></span>
+                                <button onClick={() => setShowLedger(!showLedger)} className={`text-xs font-bold underline ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                    {showLedger ? 'Tabloyu Gizle' : 'Yıllık Tablo'}
+                                </button>
+                                <span className="opacity-30">|</span>
+                                <CalendarDays className="w-4 h-4 opacity-60" />
+                                <span>Tatiller: <b>{monthHolidayCount > 0 ? `bu ay ${monthHolidayCount} gün` : 'bu ay yok'}</b></span>
+                                <button onClick={() => setShowHolidayModal(true)} className={`text-xs font-bold underline ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>
+                                    Takvimi Düzenle
+                                </button>
+                            </div>
                         </Card>
                     )}
 
+                    {showLedger && !isReadOnly && (
+                        <FairnessLedgerTable
+                            ledger={fairnessLedger}
+                            staff={staff}
+                            year={year}
+                            month={month}
+                            ledgerMonths={ledgerMonths}
+                            setLedgerMonths={setLedgerMonths}
+                            isBlackAndWhite={isBlackAndWhite}
+                            onClose={() => setShowLedger(false)}
+                        />
+                    )}
+
                     {loading && (
-                         <div className="py-20 text-center animate-pulse">
-                            <div className={`text-5xl mb-4 font-bold ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>...</div>
+                         <div className="py-20 text-center">
+                            <div className={`text-5xl mb-4 font-bold animate-pulse ${isBlackAndWhite ? 'text-indigo-400' : 'text-indigo-600'}`}>...</div>
                             <h3 className={`text-xl font-bold ${isBlackAndWhite ? 'text-white' : 'text-gray-800'}`}>Nöbetler Dağıtılıyor</h3>
                             <p className={isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}>Milyonlarca olasılık Monte Carlo simülasyonu ile hesaplanıyor.</p>
+
+                            {progress && (
+                                <div className="max-w-md mx-auto mt-6 space-y-2">
+                                    <div className={`h-2 rounded-full overflow-hidden ${isBlackAndWhite ? 'bg-slate-800' : 'bg-gray-200'}`}>
+                                        <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${Math.round((progress.attempt / progress.totalAttempts) * 100)}%` }}></div>
+                                    </div>
+                                    <div className={`flex justify-between text-xs font-medium ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        <span>
+                                            {progress.stage === 'exact'
+                                                ? `Kesin Çözüm ${Math.round(progress.attempt / 1000)} / ${Math.round(progress.totalAttempts / 1000)} sn`
+                                                : `${progress.stage === 'improve' ? 'İyileştirme' : 'Deneme'} ${progress.attempt} / ${progress.totalAttempts}`}
+                                        </span>
+                                        <span>En iyi: {progress.bestUnfilledSlots} boş • Sapma {progress.bestDeviation}</span>
+                                    </div>
+                                </div>
+                            )}
+
+                            <Button variant="secondary" onClick={handleCancelGenerate} className={`mx-auto mt-6 text-sm h-9 ${isBlackAndWhite ? 'bg-slate-800 text-white border-slate-700 hover:bg-slate-700' : ''}`}>
+                                <X className="w-4 h-4" /> İptal
+                            </Button>
                          </div>
                     )}
 
@@ -438,18 +799,74 @@ export default function App() {
                             setResult={setResult}
                             services={services}
                             staff={staff}
+                            config={schedulerConfig}
                             year={year}
                             month={month}
                             isBlackAndWhite={isBlackAndWhite}
                             handleDownload={handleDownload}
                             isReadOnly={isReadOnly}
                             onShare={handleCreateShareLink}
+                            onUseSeed={!isReadOnly ? (seed) => setSeedInput(seed.toString()) : undefined}
+                            onArchive={!isReadOnly ? handleArchiveResult : undefined}
+                            onPinsChange={!isReadOnly ? setPins : undefined}
+                            onRepair={!isReadOnly ? () => setShowRepairModal(true) : undefined}
                         />
                     )}
                 </div>
             )}
         </main>
 
+        <WeightProfileModal
+            isOpen={showWeightModal}
+            onClose={() => setShowWeightModal(false)}
+            isBlackAndWhite={isBlackAndWhite}
+            activeProfile={weightProfile}
+            setActiveProfile={setWeightProfile}
+            savedProfiles={savedWeightProfiles}
+            onSaveProfile={handleSaveWeightProfile}
+            onDeleteProfile={handleDeleteWeightProfile}
+        />
+
+        <RuleSettingsModal
+            isOpen={showRuleModal}
+            onClose={() => setShowRuleModal(false)}
+            isBlackAndWhite={isBlackAndWhite}
+            ruleSettings={ruleSettings}
+            setRuleSettings={setRuleSettings}
+        />
+
+        {showRepairModal && result && (
+            <RepairModal
+                staff={staff}
+                services={services}
+                schedule={result.schedule}
+                year={year}
+                month={month}
+                isBlackAndWhite={isBlackAndWhite}
+                onClose={() => setShowRepairModal(false)}
+                onRepair={handleRepair}
+            />
+        )}
+
+        <HolidayCalendarModal
+            isOpen={showHolidayModal}
+            onClose={() => setShowHolidayModal(false)}
+            isBlackAndWhite={isBlackAndWhite}
+            year={year}
+            useBuiltIn={useBuiltInHolidays}
+            setUseBuiltIn={setUseBuiltInHolidays}
+            customHolidays={customHolidays}
+            setCustomHolidays={setCustomHolidays}
+        />
+
+        <RestRulesModal
+            isOpen={showRestModal}
+            onClose={() => setShowRestModal(false)}
+            isBlackAndWhite={isBlackAndWhite}
+            restRules={restRules}
+            setRestRules={setRestRules}
+        />
+
         {/* Info Modal */}
         {showInfoModal && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
@@ -483,7 +900,7 @@ export default function App() {
                                 <div className={`p-4 rounded-xl border ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-indigo-50 border-indigo-100'}`}>
                                     <h4 className="font-bold text-sm mb-2">Temel Algoritma Prensipleri</h4>
                                     <ul className="list-disc list-inside text-sm space-y-1 opacity-80">
-                                        <li><b>Kıdem Hiyerarşisi:</b> Sorumlu (Rol 1) &gt; Tecrübeli (Rol 2) &gt; Çömez (Rol 3) dengesi.</li>
+                                        <li><b>Kıdem Hiyerarşisi:</b> Personel sekmesindeki rol tanımlarına göre kıdemli / ara kıdem / yeni personel dengesi (varsayılan: Sorumlu &gt; Tecrübeli &gt; Çömez).</li>
                                         <li><b>Yatay Adalet (Water Level):</b> Aynı kıdemdeki kişiler arasında nöbet farkı 1'den fazla olamaz.</li>
                                         <li><b>Oda Arkadaşı Kuralları:</b> Oda arkadaşı nöbetçiyse veya İZİNLİ (OFF) ise çakışma engellenir.</li>
                                         <li><b>Haftasonu Eşitliği:</b> Haftasonu nöbetleri adil dağıtılır.</li>
@@ -0,0 +1,103 @@
+import React from 'react';
+import { DaySchedule, ScheduleAlternative } from '../types';
+import { Card } from './ui';
+import { diffSchedules } from '../services/repair';
+import { CheckCircle2, Columns3 } from 'lucide-react';
+
+interface AlternativesComparisonProps {
+    alternatives: ScheduleAlternative[];
+    currentSchedule: DaySchedule[]; // Ekrandaki (elle düzenlenmiş olabilir) çizelge
+    selectedAttemptIndex?: number;
+    isBlackAndWhite: boolean;
+    onSelect?: (alternative: ScheduleAlternative) => void;
+}
+
+interface MetricRow {
+    label: string;
+    value: (a: ScheduleAlternative) => number;
+    format?: (a: ScheduleAlternative) => string;
+    higherIsBetter?: boolean;
+    hideWhenZero?: boolean;
+}
+
+const METRICS: MetricRow[] = [
+    { label: 'Boş Slot', value: a => a.unfilledSlots },
+    { label: 'En Az Nöbet Açığı', value: a => a.objective.minimumShortfall, hideWhenZero: true },
+    { label: 'Hedef Sapması', value: a => a.objective.quotaDeviation },
+    { label: 'HS Dengesizliği', value: a => a.objective.weekendSpread },
+    { label: 'Karşılanan İstek', value: a => a.requestsMet, format: a => `${a.requestsMet} / ${a.requestsTotal}`, higherIsBetter: true },
+    { label: 'Amaç (toplam)', value: a => a.objective.total }
+];
+
+// Top-N distinct solutions of one generation run, side by side
+export const AlternativesComparison: React.FC<AlternativesComparisonProps> = ({ alternatives, currentSchedule, selectedAttemptIndex, isBlackAndWhite, onSelect }) => {
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+    const rows = METRICS.filter(m => !m.hideWhenZero || alternatives.some(a => m.value(a) !== 0));
+
+    const isBest = (metric: MetricRow, alternative: ScheduleAlternative) => {
+        const values = alternatives.map(metric.value);
+        const best = metric.higherIsBetter ? Math.max(...values) : Math.min(...values);
+        return metric.value(alternative) === best && values.some(v => v !== best);
+    };
+
+    return (
+        <Card className={`border shadow-sm ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-white' : 'border-indigo-100'}`}>
+            <div className={`p-4 border-b font-bold flex items-center gap-2 ${isBlackAndWhite ? 'border-slate-700' : 'border-indigo-100 text-indigo-800'}`}>
+                <Columns3 className="w-5 h-5" /> Alternatif Çizelgeler ({alternatives.length})
+                <span className={`ml-auto text-xs font-normal ${mutedText}`}>Aynı üretimin en iyi farklı çözümleri; yayınlamadan önce birini seçin</span>
+            </div>
+            <div className="p-4 overflow-x-auto custom-scrollbar">
+                <table className="w-full text-sm border-collapse">
+                    <thead>
+                        <tr>
+                            <th className={`text-left text-xs font-bold uppercase tracking-wide p-2 ${mutedText}`}>Ölçüt</th>
+                            {alternatives.map((a, i) => (
+                                <th key={a.attemptIndex} className="p-2 text-center">
+                                    <div className="font-bold">Alternatif {i + 1}</div>
+                                    <div className={`text-[10px] font-normal ${mutedText}`}>Deneme #{a.attemptIndex + 1}</div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(metric => (
+                            <tr key={metric.label} className={`border-t ${isBlackAndWhite ? 'border-slate-800' : 'border-gray-100'}`}>
+                                <td className={`p-2 text-xs font-medium ${mutedText}`}>{metric.label}</td>
+                                {alternatives.map(a => (
+                                    <td key={a.attemptIndex} className={`p-2 text-center font-mono ${isBest(metric, a) ? (isBlackAndWhite ? 'text-emerald-400 font-bold' : 'text-emerald-600 font-bold') : ''}`}>
+                                        {metric.format ? metric.format(a) : metric.value(a)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                        <tr className={`border-t ${isBlackAndWhite ? 'border-slate-800' : 'border-gray-100'}`}>
+                            <td className={`p-2 text-xs font-medium ${mutedText}`}>Ekrandakinden Farklı Atama</td>
+                            {alternatives.map(a => (
+                                <td key={a.attemptIndex} className="p-2 text-center font-mono">{diffSchedules(currentSchedule, a.schedule).length}</td>
+                            ))}
+                        </tr>
+                        <tr>
+                            <td />
+                            {alternatives.map(a => (
+                                <td key={a.attemptIndex} className="p-2 text-center">
+                                    {a.attemptIndex === selectedAttemptIndex ? (
+                                        <span className={`inline-flex items-center gap-1 text-xs font-bold ${isBlackAndWhite ? 'text-indigo-300' : 'text-indigo-600'}`}>
+                                            <CheckCircle2 className="w-4 h-4" /> Seçili
+                                        </span>
+                                    ) : onSelect && (
+                                        <button
+                                            onClick={() => onSelect(a)}
+                                            className={`text-xs font-bold px-3 py-1.5 rounded-lg border transition-colors ${isBlackAndWhite ? 'border-slate-600 hover:bg-slate-700' : 'border-indigo-200 text-indigo-700 hover:bg-indigo-50'}`}
+                                        >
+                                            Bunu Seç
+                                        </button>
+                                    )}
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+};
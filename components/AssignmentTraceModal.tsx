@@ -0,0 +1,106 @@
+
+import React from 'react';
+import { AssignmentTrace, ScoreBreakdown, Service, Staff } from '../types';
+import { WEIGHT_LABELS } from '../services/weights';
+import { getRuleDefinition } from '../services/rules';
+import { X, HelpCircle, Ban, TrendingDown } from 'lucide-react';
+
+interface AssignmentTraceModalProps {
+    slot: { day: number; serviceId: string; staffId: string };
+    trace?: AssignmentTrace;
+    services: Service[];
+    staff: Staff[];
+    year: number;
+    month: number;
+    isBlackAndWhite: boolean;
+    onClose: () => void;
+}
+
+const PHASE_LABELS: Record<AssignmentTrace['phase'], string> = {
+    0: 'Faz 0 · Özel Birim Rezervasyonu',
+    1: 'Faz 1 · Günlük Kıdemli Ataması',
+    2: 'Faz 2 · Minimum Sayıyı Doldurma',
+    3: 'Faz 3 · Günlük Toplam Hedef',
+    4: 'Faz 4 · En Az Nöbet Yükümlülüğü'
+};
+
+const componentLabel = (key: keyof ScoreBreakdown): string => {
+    if (key === 'specialty') return 'Özel Birim Önceliği';
+    return WEIGHT_LABELS[key].label;
+};
+
+export const AssignmentTraceModal: React.FC<AssignmentTraceModalProps> = ({ slot, trace, services, staff, year, month, isBlackAndWhite, onClose }) => {
+    const person = staff.find(s => s.id === slot.staffId);
+    const service = services.find(s => s.id === slot.serviceId);
+    const dateLabel = new Date(year, month, slot.day).toLocaleDateString('tr-TR', { day: 'numeric', month: 'long', weekday: 'long' });
+
+    const components = trace
+        ? (Object.entries(trace.breakdown) as [keyof ScoreBreakdown, number][]).sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+        : [];
+
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in" onClick={onClose}>
+            <div onClick={e => e.stopPropagation()} className={`bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-scale-in border flex flex-col max-h-[85vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                <div className={`p-4 border-b flex justify-between items-start shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <div>
+                        <h3 className="font-bold text-lg flex items-center gap-2"><HelpCircle className="w-5 h-5 text-indigo-500" /> Neden {person?.name || slot.staffId}?</h3>
+                        <p className={`text-xs mt-0.5 ${mutedText}`}>{dateLabel} • {service?.name}</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-5 text-sm">
+                    {!trace ? (
+                        <p className={mutedText}>Bu atama için karar kaydı yok. Atama elle yapılmış veya sabitlenmiş, yerel iyileştirme aşamasında değiştirilmiş veya çizelge kayıt tutulmadan oluşturulmuş olabilir.</p>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className={`px-2 py-0.5 rounded text-xs font-bold ${isBlackAndWhite ? 'bg-indigo-900/40 text-indigo-200' : 'bg-indigo-50 text-indigo-700'}`}>{PHASE_LABELS[trace.phase]}</span>
+                                {trace.desperate && (
+                                    <span className={`px-2 py-0.5 rounded text-xs font-bold ${isBlackAndWhite ? 'bg-amber-900/40 text-amber-200' : 'bg-amber-50 text-amber-700'}`}>Esnek Mod</span>
+                                )}
+                                <span className="ml-auto font-mono font-bold">{trace.score.toLocaleString('tr-TR')} puan</span>
+                            </div>
+
+                            <div>
+                                <h4 className={`text-xs font-bold uppercase tracking-wide mb-2 ${mutedText}`}>Puan Dağılımı</h4>
+                                <div className="space-y-1">
+                                    {components.map(([key, value]) => (
+                                        <div key={key} className="flex justify-between gap-4">
+                                            <span>{componentLabel(key)}</span>
+                                            <span className={`font-mono ${value < 0 ? 'text-rose-500' : (isBlackAndWhite ? 'text-emerald-400' : 'text-emerald-600')}`}>
+                                                {value > 0 ? '+' : ''}{Math.round(value).toLocaleString('tr-TR')}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <h4 className={`text-xs font-bold uppercase tracking-wide mb-2 ${mutedText}`}>Seçilmeyen Adaylar</h4>
+                                {trace.rejected.length === 0 ? (
+                                    <p className={mutedText}>Başka uygun aday yoktu.</p>
+                                ) : (
+                                    <div className="space-y-1.5">
+                                        {trace.rejected.map(r => (
+                                            <div key={r.staffId} className={`flex items-center justify-between gap-3 p-2 rounded-lg border ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-100 bg-gray-50'}`}>
+                                                <span className="font-semibold truncate">{r.staffName}</span>
+                                                {r.ruleId ? (
+                                                    <span className="flex items-center gap-1 text-xs text-rose-500 shrink-0"><Ban className="w-3.5 h-3.5" /> {getRuleDefinition(r.ruleId)?.name || r.ruleId}</span>
+                                                ) : (
+                                                    <span className={`flex items-center gap-1 text-xs shrink-0 ${mutedText}`}><TrendingDown className="w-3.5 h-3.5" /> Düşük puan ({r.score.toLocaleString('tr-TR')})</span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,103 @@
+
+import React, { useMemo } from 'react';
+import { LedgerBalance, LedgerMonth, Staff } from '../types';
+import { Card } from './ui';
+import { summarizeLedger, summarizeYearToDate } from '../services/fairnessLedger';
+import { Scale, X } from 'lucide-react';
+
+interface FairnessLedgerTableProps {
+    ledger: LedgerMonth[];
+    staff: Staff[];
+    year: number;
+    month: number;
+    ledgerMonths: number;
+    setLedgerMonths: (months: number) => void;
+    isBlackAndWhite: boolean;
+    onClose: () => void;
+}
+
+export const FairnessLedgerTable: React.FC<FairnessLedgerTableProps> = ({ ledger, staff, year, month, ledgerMonths, setLedgerMonths, isBlackAndWhite, onClose }) => {
+    const yearToDate = useMemo(() => new Map(summarizeYearToDate(ledger, year, month).map(b => [b.staffId, b])), [ledger, year, month]);
+    const recentWindow = useMemo(() => new Map(summarizeLedger(ledger, year, month, ledgerMonths).map(b => [b.staffId, b])), [ledger, year, month, ledgerMonths]);
+    const archivedThisYear = ledger.filter(m => m.year === year && m.month <= month).length;
+
+    const rows = useMemo(() => {
+        return staff
+            .filter(s => s.isActive !== false && yearToDate.has(s.id))
+            .map(s => ({ person: s, ytd: yearToDate.get(s.id)!, recent: recentWindow.get(s.id) }))
+            .sort((a, b) => b.ytd.weekend - a.ytd.weekend || b.ytd.total - a.ytd.total);
+    }, [staff, yearToDate, recentWindow]);
+
+    const meanWeekend = rows.length > 0 ? rows.reduce((acc, r) => acc + r.ytd.weekend, 0) / rows.length : 0;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+    const cell = `px-2 py-1.5 text-center border-b ${isBlackAndWhite ? 'border-slate-800' : 'border-gray-100'}`;
+    const deviation = (b?: LedgerBalance) => {
+        if (!b) return '-';
+        const value = Math.round(b.quotaDeviation * 10) / 10;
+        return value > 0 ? `+${value}` : `${value}`;
+    };
+
+    return (
+        <Card className={`border shadow-sm ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-white' : 'border-gray-200'}`}>
+            <div className={`p-4 border-b flex flex-wrap items-center justify-between gap-3 ${isBlackAndWhite ? 'border-slate-700' : 'border-gray-100'}`}>
+                <div>
+                    <h3 className="font-bold flex items-center gap-2"><Scale className="w-5 h-5 text-indigo-500" /> Yıl Başından Bu Yana Adalet Tablosu ({year})</h3>
+                    <p className={`text-xs mt-0.5 ${mutedText}`}>{archivedThisYear} arşivlenmiş ay. Puanlamada seçili aydan önceki son {ledgerMonths} ay dikkate alınır.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1.5 text-xs">
+                        Son
+                        <input
+                            type="number" min="1" max="24"
+                            value={ledgerMonths}
+                            onChange={e => setLedgerMonths(Math.max(1, Math.min(24, parseInt(e.target.value) || 1)))}
+                            className={`w-14 rounded-md p-1 border text-center outline-none ${isBlackAndWhite ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                        />
+                        ay
+                    </label>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-4 h-4" /></button>
+                </div>
+            </div>
+
+            {rows.length === 0 ? (
+                <p className={`p-4 text-sm ${mutedText}`}>Bu yıl için arşivlenmiş ay yok. Kesinleşen listeleri "Arşivle" ile kaydettikçe defter dolar.</p>
+            ) : (
+                <div className="max-h-[420px] overflow-auto custom-scrollbar">
+                    <table className="w-full text-sm">
+                        <thead className={`sticky top-0 text-xs uppercase ${isBlackAndWhite ? 'bg-slate-950 text-gray-400' : 'bg-gray-50 text-gray-500'}`}>
+                            <tr>
+                                <th className="px-3 py-2 text-left">Personel</th>
+                                <th className="px-2 py-2">Ay</th>
+                                <th className="px-2 py-2">Toplam</th>
+                                <th className="px-2 py-2">Haftasonu</th>
+                                <th className="px-2 py-2">Cmt</th>
+                                <th className="px-2 py-2">Paz</th>
+                                <th className="px-2 py-2">Bayram</th>
+                                <th className="px-2 py-2">Hedef Sapması</th>
+                                <th className="px-2 py-2">Son {ledgerMonths} Ay HS</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(({ person, ytd, recent }) => {
+                                const heavyWeekend = ytd.weekend > meanWeekend + 1;
+                                return (
+                                    <tr key={person.id}>
+                                        <td className={`px-3 py-1.5 border-b font-semibold ${isBlackAndWhite ? 'border-slate-800' : 'border-gray-100'}`}>{person.name}</td>
+                                        <td className={cell}>{ytd.months}</td>
+                                        <td className={cell}>{ytd.total}</td>
+                                        <td className={`${cell} font-bold ${heavyWeekend ? (isBlackAndWhite ? 'text-amber-300' : 'text-amber-600') : ''}`}>{ytd.weekend}</td>
+                                        <td className={cell}>{ytd.saturday}</td>
+                                        <td className={cell}>{ytd.sunday}</td>
+                                        <td className={cell}>{ytd.holiday}</td>
+                                        <td className={`${cell} font-mono ${ytd.quotaDeviation > 0 ? 'text-rose-500' : ytd.quotaDeviation < 0 ? 'text-sky-500' : ''}`}>{deviation(ytd)}</td>
+                                        <td className={cell}>{recent ? recent.weekend : '-'}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Card>
+    );
+};
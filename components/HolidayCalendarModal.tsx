@@ -0,0 +1,119 @@
+
+import React, { useState } from 'react';
+import { Holiday } from '../types';
+import { Button } from './ui';
+import { getBuiltInHolidays, hasReligiousCalendar } from '../services/holidays';
+import { X, CalendarDays, Plus, Trash2, AlertTriangle } from 'lucide-react';
+
+interface HolidayCalendarModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    isBlackAndWhite: boolean;
+    year: number;
+    useBuiltIn: boolean;
+    setUseBuiltIn: (value: boolean) => void;
+    customHolidays: Holiday[];
+    setCustomHolidays: (holidays: Holiday[]) => void;
+}
+
+const formatHolidayDate = (date: string) => {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString('tr-TR', { day: '2-digit', month: 'long', weekday: 'short' });
+};
+
+export const HolidayCalendarModal: React.FC<HolidayCalendarModalProps> = ({ isOpen, onClose, isBlackAndWhite, year, useBuiltIn, setUseBuiltIn, customHolidays, setCustomHolidays }) => {
+    const [draft, setDraft] = useState<{ date: string; name: string; halfDay: boolean }>({ date: '', name: '', halfDay: false });
+
+    if (!isOpen) return null;
+
+    const builtIn = getBuiltInHolidays(year);
+    const customThisYear = customHolidays.filter(h => h.date.startsWith(`${year}-`));
+
+    const handleAdd = () => {
+        if (!draft.date || !draft.name.trim()) return;
+        const entry: Holiday = { date: draft.date, name: draft.name.trim(), halfDay: draft.halfDay || undefined, kind: 'custom' };
+        // Aynı tarihte tek özel kayıt tutulur
+        setCustomHolidays([...customHolidays.filter(h => h.date !== entry.date), entry].sort((a, b) => a.date.localeCompare(b.date)));
+        setDraft({ date: '', name: '', halfDay: false });
+    };
+
+    const inputClass = `rounded-lg p-2 border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+    }`;
+    const rowClass = `flex items-center justify-between gap-3 px-3 py-2 rounded-lg border text-sm ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'}`;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    const halfDayBadge = (h: Holiday) => h.halfDay && (
+        <span className={`text-[10px] font-bold px-1.5 rounded ${isBlackAndWhite ? 'bg-amber-900/40 text-amber-200' : 'bg-amber-100 text-amber-700'}`}>YARIM GÜN</span>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+            <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-scale-in border flex flex-col max-h-[85vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                <div className={`p-4 border-b flex justify-between items-center shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <h3 className="font-bold text-lg flex items-center gap-2"><CalendarDays className="w-5 h-5 text-rose-500" /> Tatil Takvimi ({year})</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-5">
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-bold text-sm">Resmi ve Dini Bayramlar</h4>
+                            <label className="flex items-center gap-2 cursor-pointer text-xs font-bold">
+                                <input type="checkbox" checked={useBuiltIn} onChange={e => setUseBuiltIn(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                                Kullan
+                            </label>
+                        </div>
+                        {!hasReligiousCalendar(year) && (
+                            <div className={`flex items-start gap-2 p-2 mb-2 rounded-lg text-xs ${isBlackAndWhite ? 'bg-amber-900/30 text-amber-200' : 'bg-amber-50 text-amber-700'}`}>
+                                <AlertTriangle className="w-4 h-4 shrink-0" />
+                                {year} için dini bayram tarihleri tanımlı değil. Ramazan ve Kurban Bayramı günlerini özel tarih olarak ekleyin.
+                            </div>
+                        )}
+                        <div className={`space-y-1.5 ${useBuiltIn ? '' : 'opacity-50'}`}>
+                            {builtIn.map(h => (
+                                <div key={h.date} className={rowClass}>
+                                    <span className="font-mono text-xs w-36 shrink-0">{formatHolidayDate(h.date)}</span>
+                                    <span className="flex-1 font-semibold">{h.name}</span>
+                                    {halfDayBadge(h)}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <h4 className="font-bold text-sm mb-1">Hastaneye Özel Tarihler</h4>
+                        <p className={`text-xs mb-2 ${mutedText}`}>Aynı tarihte bir bayram varsa özel kayıt geçerli olur.</p>
+                        <div className="flex flex-wrap items-center gap-2 mb-3">
+                            <input type="date" value={draft.date} min={`${year}-01-01`} max={`${year}-12-31`} onChange={e => setDraft({ ...draft, date: e.target.value })} className={inputClass} />
+                            <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Açıklama (ör. Kuruluş Yıldönümü)" className={`${inputClass} flex-1 min-w-[180px]`} />
+                            <label className="flex items-center gap-1.5 text-xs font-bold cursor-pointer">
+                                <input type="checkbox" checked={draft.halfDay} onChange={e => setDraft({ ...draft, halfDay: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+                                Yarım gün
+                            </label>
+                            <Button onClick={handleAdd} disabled={!draft.date || !draft.name.trim()} className="h-9 text-sm">
+                                <Plus className="w-4 h-4" /> Ekle
+                            </Button>
+                        </div>
+                        {customThisYear.length === 0 ? (
+                            <p className={`text-xs ${mutedText}`}>{year} için özel tarih yok.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {customThisYear.map(h => (
+                                    <div key={h.date} className={rowClass}>
+                                        <span className="font-mono text-xs w-36 shrink-0">{formatHolidayDate(h.date)}</span>
+                                        <span className="flex-1 font-semibold">{h.name}</span>
+                                        {halfDayBadge(h)}
+                                        <button onClick={() => setCustomHolidays(customHolidays.filter(c => c.date !== h.date))} className="p-1 rounded hover:bg-rose-500/10 text-rose-500">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
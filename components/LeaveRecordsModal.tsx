@@ -0,0 +1,132 @@
+
+import React, { useState } from 'react';
+import { LeaveRecord, LeaveType, Staff } from '../types';
+import { Button } from './ui';
+import { LEAVE_BADGE_CLASSES } from '../constants';
+import { LEAVE_TYPES, LEAVE_TYPE_ORDER, createLeaveId, formatLeaveRange, getMonthLeaveDays } from '../services/leave';
+import { toDateKey } from '../services/holidays';
+import { X, CalendarOff, Plus, Trash2 } from 'lucide-react';
+
+interface LeaveRecordsModalProps {
+    person: Staff;
+    year: number;
+    month: number;
+    isBlackAndWhite: boolean;
+    onClose: () => void;
+    onChange: (leaves: LeaveRecord[]) => void;
+}
+
+export const LeaveRecordsModal: React.FC<LeaveRecordsModalProps> = ({ person, year, month, isBlackAndWhite, onClose, onChange }) => {
+    const monthStart = toDateKey(year, month, 1);
+    const [draft, setDraft] = useState<{ type: LeaveType; start: string; end: string; note: string }>({ type: 'annual', start: monthStart, end: monthStart, note: '' });
+    const [rangeAnchor, setRangeAnchor] = useState<string | null>(null);
+
+    const leaves = [...(person.leaves || [])].sort((a, b) => a.start.localeCompare(b.start));
+    const monthDays = getMonthLeaveDays(person, year, month);
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const firstWeekdayOffset = (new Date(year, month, 1).getDay() + 6) % 7; // Pazartesi ile başlayan hafta
+    const monthEnd = toDateKey(year, month, daysInMonth);
+    const isValid = draft.start !== '' && draft.end !== '' && draft.end >= draft.start;
+
+    const handleAdd = () => {
+        if (!isValid) return;
+        onChange([...leaves, { id: createLeaveId(), type: draft.type, start: draft.start, end: draft.end, note: draft.note.trim() || undefined }]);
+        setDraft({ ...draft, note: '' });
+    };
+
+    // Takvimde tıklanan gün aralığın başı (veya bitişi) olur
+    const handleDayClick = (day: number) => {
+        const date = toDateKey(year, month, day);
+        if (rangeAnchor && date >= rangeAnchor) {
+            setDraft({ ...draft, start: rangeAnchor, end: date });
+            setRangeAnchor(null);
+        } else {
+            setDraft({ ...draft, start: date, end: date });
+            setRangeAnchor(date);
+        }
+    };
+
+    const inputClass = `rounded-lg p-2 border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+    }`;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+            <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-scale-in border flex flex-col max-h-[90vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                <div className={`p-4 border-b flex justify-between items-center shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <h3 className="font-bold text-lg flex items-center gap-2"><CalendarOff className="w-5 h-5 text-rose-500" /> {person.name} - İzin Kayıtları</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-5">
+                    <div>
+                        <h4 className="font-bold text-sm mb-2">{new Date(year, month).toLocaleString('tr-TR', { month: 'long', year: 'numeric' })}</h4>
+                        <div className="grid grid-cols-7 gap-1.5">
+                            {['Pzt', 'Sal', 'Çar', 'Per', 'Cum', 'Cmt', 'Paz'].map(d => (
+                                <div key={d} className={`text-center text-[10px] font-bold uppercase ${mutedText}`}>{d}</div>
+                            ))}
+                            {Array.from({ length: firstWeekdayOffset }, (_, i) => <div key={`pad-${i}`} />)}
+                            {Array.from({ length: daysInMonth }, (_, i) => i + 1).map(day => {
+                                const type = monthDays.get(day);
+                                const date = toDateKey(year, month, day);
+                                const inDraft = date >= draft.start && date <= draft.end;
+                                const badge = type ? LEAVE_BADGE_CLASSES[type] : null;
+                                return (
+                                    <button
+                                        key={day}
+                                        onClick={() => handleDayClick(day)}
+                                        title={type ? LEAVE_TYPES[type].label : undefined}
+                                        className={`h-10 rounded-lg text-xs font-bold border flex flex-col items-center justify-center leading-tight transition-all ${
+                                            badge ? (isBlackAndWhite ? badge.dark : badge.light) : (isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white')
+                                        } ${inDraft ? 'ring-2 ring-indigo-500' : ''}`}
+                                    >
+                                        {day}
+                                        {type && <span className="text-[9px]">{LEAVE_TYPES[type].short}</span>}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        <p className={`text-xs mt-2 ${mutedText}`}>Takvimde önce başlangıç, sonra bitiş gününe tıklayın. Ay dışına taşan izinler için tarihleri aşağıdan girin.</p>
+                    </div>
+
+                    <div className="flex flex-wrap items-end gap-2">
+                        <select value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as LeaveType })} className={inputClass}>
+                            {LEAVE_TYPE_ORDER.map(t => <option key={t} value={t}>{LEAVE_TYPES[t].label}</option>)}
+                        </select>
+                        <input type="date" value={draft.start} onChange={e => setDraft({ ...draft, start: e.target.value, end: draft.end < e.target.value ? e.target.value : draft.end })} className={inputClass} />
+                        <input type="date" value={draft.end} min={draft.start} onChange={e => setDraft({ ...draft, end: e.target.value })} className={inputClass} />
+                        <input type="text" value={draft.note} onChange={e => setDraft({ ...draft, note: e.target.value })} placeholder="Not (isteğe bağlı)" className={`${inputClass} flex-1 min-w-[120px]`} />
+                        <Button onClick={handleAdd} disabled={!isValid} className="h-9 text-sm">
+                            <Plus className="w-4 h-4" /> Ekle
+                        </Button>
+                    </div>
+
+                    <div>
+                        <h4 className="font-bold text-sm mb-2">Tüm Kayıtlar</h4>
+                        {leaves.length === 0 ? (
+                            <p className={`text-xs ${mutedText}`}>Kayıtlı izin yok.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {leaves.map(leave => {
+                                    const badge = LEAVE_BADGE_CLASSES[leave.type];
+                                    const inMonth = leave.end >= monthStart && leave.start <= monthEnd;
+                                    return (
+                                        <div key={leave.id} className={`flex items-center gap-3 px-3 py-2 rounded-lg border text-sm ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'} ${inMonth ? '' : 'opacity-60'}`}>
+                                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border shrink-0 ${isBlackAndWhite ? badge.dark : badge.light}`}>{LEAVE_TYPES[leave.type].label}</span>
+                                            <span className="font-mono text-xs">{formatLeaveRange(leave)}</span>
+                                            <span className={`flex-1 text-xs truncate ${mutedText}`}>{leave.note}</span>
+                                            <button onClick={() => onChange(leaves.filter(l => l.id !== leave.id))} className="p-1 rounded hover:bg-rose-500/10 text-rose-500">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+
+import React, { useState } from 'react';
+import { PairConstraint, PairConstraintKind, Staff } from '../types';
+import { Card, Button } from './ui';
+import { PAIR_KIND_LABELS, createPairConstraintId } from '../services/pairConstraints';
+import { Link2, Plus, Trash2 } from 'lucide-react';
+
+interface PairConstraintsPanelProps {
+    staff: Staff[];
+    pairConstraints: PairConstraint[];
+    setPairConstraints: React.Dispatch<React.SetStateAction<PairConstraint[]>>;
+    isBlackAndWhite: boolean;
+}
+
+export const PairConstraintsPanel: React.FC<PairConstraintsPanelProps> = ({ staff, pairConstraints, setPairConstraints, isBlackAndWhite }) => {
+    const [draft, setDraft] = useState<{ staffA: string; staffB: string; kind: PairConstraintKind; hard: boolean }>({ staffA: '', staffB: '', kind: 'never', hard: true });
+
+    const nameOf = (id: string) => staff.find(s => s.id === id)?.name || 'Silinmiş personel';
+    const isDuplicate = pairConstraints.some(c =>
+        (c.staffA === draft.staffA && c.staffB === draft.staffB) || (c.staffA === draft.staffB && c.staffB === draft.staffA)
+    );
+    const isValid = draft.staffA !== '' && draft.staffB !== '' && draft.staffA !== draft.staffB && !isDuplicate;
+
+    const handleAdd = () => {
+        if (!isValid) return;
+        setPairConstraints(prev => [...prev, { id: createPairConstraintId(), ...draft }]);
+        setDraft({ ...draft, staffA: '', staffB: '' });
+    };
+
+    const inputClass = `rounded-lg p-2 border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+    }`;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <Card className={`p-6 transition-colors ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : ''}`}>
+            <div className="flex items-center gap-2 mb-1">
+                <Link2 className="w-5 h-5 text-indigo-500" />
+                <h3 className="font-bold text-lg">Personel Eşleştirme Kuralları</h3>
+            </div>
+            <p className={`text-xs mb-4 ${mutedText}`}>
+                "Birlikte olmasın" iki kişiyi aynı güne yazmaz, "birlikte olsun" aynı güne yazar. Kesin kurallar çizelgede ihlal olarak işaretlenir, esnek kurallar sadece puanlamayı etkiler.
+            </p>
+
+            <div className="flex flex-wrap items-end gap-2 mb-4">
+                <select value={draft.staffA} onChange={e => setDraft({ ...draft, staffA: e.target.value })} className={`${inputClass} flex-1 min-w-[140px]`}>
+                    <option value="">1. Personel...</option>
+                    {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <select value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as PairConstraintKind })} className={inputClass}>
+                    {(Object.keys(PAIR_KIND_LABELS) as PairConstraintKind[]).map(k => <option key={k} value={k}>{PAIR_KIND_LABELS[k]}</option>)}
+                </select>
+                <select value={draft.staffB} onChange={e => setDraft({ ...draft, staffB: e.target.value })} className={`${inputClass} flex-1 min-w-[140px]`}>
+                    <option value="">2. Personel...</option>
+                    {staff.filter(s => s.id !== draft.staffA).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <select value={draft.hard ? 'hard' : 'soft'} onChange={e => setDraft({ ...draft, hard: e.target.value === 'hard' })} className={inputClass}>
+                    <option value="hard">Kesin</option>
+                    <option value="soft">Esnek</option>
+                </select>
+                <Button onClick={handleAdd} disabled={!isValid} className="h-9 text-sm">
+                    <Plus className="w-4 h-4" /> Ekle
+                </Button>
+            </div>
+            {isDuplicate && <p className="text-xs text-amber-600 mb-3">Bu iki kişi için zaten bir kural var.</p>}
+
+            {pairConstraints.length === 0 ? (
+                <p className={`text-xs ${mutedText}`}>Tanımlı eşleştirme kuralı yok.</p>
+            ) : (
+                <div className="space-y-1.5">
+                    {pairConstraints.map(c => (
+                        <div key={c.id} className={`flex items-center gap-3 px-3 py-2 rounded-lg border text-sm ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'}`}>
+                            <span className="font-medium truncate">{nameOf(c.staffA)}</span>
+                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border shrink-0 ${
+                                c.kind === 'never'
+                                ? (isBlackAndWhite ? 'bg-rose-900/40 text-rose-200 border-rose-800' : 'bg-rose-50 text-rose-700 border-rose-200')
+                                : (isBlackAndWhite ? 'bg-emerald-900/40 text-emerald-200 border-emerald-800' : 'bg-emerald-50 text-emerald-700 border-emerald-200')
+                            }`}>
+                                {PAIR_KIND_LABELS[c.kind]}
+                            </span>
+                            <span className="font-medium truncate flex-1">{nameOf(c.staffB)}</span>
+                            <button
+                                onClick={() => setPairConstraints(prev => prev.map(p => p.id === c.id ? { ...p, hard: !p.hard } : p))}
+                                className={`text-[10px] font-bold px-2 py-0.5 rounded-md border shrink-0 ${c.hard ? 'bg-indigo-600 text-white border-indigo-700' : (isBlackAndWhite ? 'border-slate-600 text-gray-300' : 'border-gray-300 text-gray-600')}`}
+                                title="Kesin / esnek arasında geçiş"
+                            >
+                                {c.hard ? 'Kesin' : 'Esnek'}
+                            </button>
+                            <button onClick={() => setPairConstraints(prev => prev.filter(p => p.id !== c.id))} className="p-1 rounded hover:bg-rose-500/10 text-rose-500">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Card>
+    );
+};
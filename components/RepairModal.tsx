@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { DaySchedule, LeaveType, RepairAbsence, Service, Staff } from '../types';
+import { Button } from './ui';
+import { LEAVE_TYPES, LEAVE_TYPE_ORDER } from '../services/leave';
+import { X, Wrench } from 'lucide-react';
+
+interface RepairModalProps {
+    staff: Staff[];
+    services: Service[];
+    schedule: DaySchedule[];
+    year: number;
+    month: number;
+    isBlackAndWhite: boolean;
+    onClose: () => void;
+    onRepair: (absence: RepairAbsence) => void;
+}
+
+// Yayınlanmış çizelgede sonradan bildirilen yokluk: sadece etkilenen nöbetler yeniden planlanır
+export const RepairModal: React.FC<RepairModalProps> = ({ staff, services, schedule, year, month, isBlackAndWhite, onClose, onRepair }) => {
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const activeStaff = staff.filter(s => s.isActive !== false).sort((a, b) => a.name.localeCompare(b.name, 'tr-TR'));
+    const [draft, setDraft] = useState<RepairAbsence>({ staffId: activeStaff[0]?.id ?? '', startDay: 1, endDay: 1, type: 'sick' });
+
+    const isValid = draft.staffId !== '' && draft.startDay >= 1 && draft.endDay <= daysInMonth && draft.endDay >= draft.startDay;
+    const affectedShifts = schedule
+        .filter(d => d.day >= draft.startDay && d.day <= draft.endDay)
+        .flatMap(d => d.assignments.filter(a => a.staffId === draft.staffId).map(a => ({ day: d.day, serviceId: a.serviceId })));
+
+    const setDay = (key: 'startDay' | 'endDay', value: string) => {
+        const day = Math.min(daysInMonth, Math.max(1, parseInt(value) || 1));
+        setDraft(key === 'startDay'
+            ? { ...draft, startDay: day, endDay: Math.max(day, draft.endDay) }
+            : { ...draft, endDay: day });
+    };
+
+    const inputClass = `rounded-lg p-2 border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+    }`;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+            <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-scale-in border flex flex-col max-h-[90vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                <div className={`p-4 border-b flex justify-between items-center shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <h3 className="font-bold text-lg flex items-center gap-2"><Wrench className="w-5 h-5 text-indigo-500" /> Yokluk Bildir ve Onar</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-4">
+                    <p className={`text-xs ${mutedText}`}>
+                        Yokluk izin kaydı olarak eklenir. Sadece bu günlerdeki nöbetler yeniden dağıtılır; boş kalan olursa komşu günlerden
+                        en az sayıda atama değiştirilir. Elle sabitlenen atamalara dokunulmaz.
+                    </p>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="col-span-2 flex flex-col gap-1 text-xs font-bold">
+                            Personel
+                            <select value={draft.staffId} onChange={e => setDraft({ ...draft, staffId: e.target.value })} className={inputClass}>
+                                {activeStaff.map(s => <option key={s.id} value={s.id}>{s.name} ({s.unit})</option>)}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs font-bold">
+                            İlk Gün
+                            <input type="number" min={1} max={daysInMonth} value={draft.startDay} onChange={e => setDay('startDay', e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs font-bold">
+                            Son Gün
+                            <input type="number" min={draft.startDay} max={daysInMonth} value={draft.endDay} onChange={e => setDay('endDay', e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="col-span-2 flex flex-col gap-1 text-xs font-bold">
+                            Yokluk Türü
+                            <select value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as LeaveType })} className={inputClass}>
+                                {LEAVE_TYPE_ORDER.map(t => <option key={t} value={t}>{LEAVE_TYPES[t].label}</option>)}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className={`text-xs rounded-lg border p-3 ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-gray-50'}`}>
+                        {affectedShifts.length === 0 ? (
+                            <span className={mutedText}>Bu aralıkta kişinin nöbeti yok; çizelge değişmez.</span>
+                        ) : (
+                            <>
+                                <b>{affectedShifts.length} nöbet boşalacak:</b>{' '}
+                                {affectedShifts.map(s => `${s.day}. gün (${services.find(sv => sv.id === s.serviceId)?.name ?? '?'})`).join(', ')}
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <div className={`p-4 border-t flex justify-end gap-2 shrink-0 ${isBlackAndWhite ? 'border-slate-700' : 'border-gray-100'}`}>
+                    <Button variant="secondary" onClick={onClose} className="h-9 text-sm">Vazgeç</Button>
+                    <Button onClick={() => onRepair(draft)} disabled={!isValid} className="h-9 text-sm">
+                        <Wrench className="w-4 h-4" /> Onar
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,141 @@
+
+import React, { useState } from 'react';
+import { RestLimit, RestRulesConfig } from '../types';
+import { Button } from './ui';
+import { DEFAULT_REST_RULES, WEEKDAY_NAMES, createDayPairId } from '../services/restRules';
+import { X, BedDouble, Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface RestRulesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    isBlackAndWhite: boolean;
+    restRules: RestRulesConfig;
+    setRestRules: (rules: RestRulesConfig) => void;
+}
+
+type LimitKey = 'minDaysBetween' | 'maxPerWeek' | 'maxConsecutive';
+
+const LIMIT_FIELDS: { key: LimitKey; label: string; description: string }[] = [
+    { key: 'minDaysBetween', label: 'Nöbetler Arası En Az Gün', description: '1: art arda nöbet yok, 2: gün aşırı nöbet yok' },
+    { key: 'maxPerWeek', label: '7 Günde En Fazla Nöbet', description: 'Herhangi 7 günlük pencere için' },
+    { key: 'maxConsecutive', label: 'En Fazla Art Arda Gün', description: 'Nöbetler arası en az gün 0 iken anlamlıdır' }
+];
+
+// Seçim listelerinde Pazartesi ile başlayan gün sırası
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const RestRulesModal: React.FC<RestRulesModalProps> = ({ isOpen, onClose, isBlackAndWhite, restRules, setRestRules }) => {
+    const [draft, setDraft] = useState<{ fromDay: number; toDay: number; hard: boolean }>({ fromDay: 5, toDay: 1, hard: true });
+
+    if (!isOpen) return null;
+
+    const updateLimit = (key: LimitKey, level: keyof RestLimit, raw: string) => {
+        const value = raw === '' ? undefined : Math.max(0, parseInt(raw) || 0);
+        setRestRules({ ...restRules, [key]: { ...restRules[key], [level]: value } });
+    };
+
+    const handleAddPair = () => {
+        const exists = restRules.dayPairExclusions.some(ex => ex.fromDay === draft.fromDay && ex.toDay === draft.toDay);
+        if (exists) return;
+        setRestRules({ ...restRules, dayPairExclusions: [...restRules.dayPairExclusions, { id: createDayPairId(), ...draft }] });
+    };
+
+    const inputClass = `rounded-lg p-2 border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white placeholder-slate-500' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+    }`;
+    const rowClass = `flex items-center justify-between gap-3 px-3 py-2 rounded-lg border text-sm ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'}`;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+            <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-scale-in border flex flex-col max-h-[85vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                <div className={`p-4 border-b flex justify-between items-center shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <h3 className="font-bold text-lg flex items-center gap-2"><BedDouble className="w-5 h-5 text-indigo-500" /> Dinlenme Kuralları</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-5">
+                    <p className={`text-xs ${mutedText}`}>
+                        Kesin değer aşılırsa kişi o güne yazılmaz. Esnek değer aşılırsa yazılabilir ama puanı düşer (ceza ağırlıkları puanlama profilindedir). Boş bırakılan değer kapalıdır.
+                    </p>
+
+                    <div className="space-y-2">
+                        <div className={`grid grid-cols-[1fr_80px_80px] gap-2 text-[10px] font-bold uppercase ${mutedText}`}>
+                            <span />
+                            <span className="text-center">Kesin</span>
+                            <span className="text-center">Esnek</span>
+                        </div>
+                        {LIMIT_FIELDS.map(field => (
+                            <div key={field.key} className="grid grid-cols-[1fr_80px_80px] gap-2 items-center">
+                                <div>
+                                    <div className="text-sm font-bold">{field.label}</div>
+                                    <div className={`text-xs ${mutedText}`}>{field.description}</div>
+                                </div>
+                                {(['hard', 'soft'] as (keyof RestLimit)[]).map(level => (
+                                    <input
+                                        key={level}
+                                        type="number"
+                                        min={0}
+                                        value={restRules[field.key][level] ?? ''}
+                                        onChange={e => updateLimit(field.key, level, e.target.value)}
+                                        placeholder="Kapalı"
+                                        className={`${inputClass} text-center`}
+                                    />
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div>
+                        <h4 className="font-bold text-sm mb-2">Gün Çifti Kısıtları</h4>
+                        <p className={`text-xs mb-2 ${mutedText}`}>İlk gündeki nöbetten sonra gelen ilk ikinci güne nöbet yazılmaz (ör. Cuma → Pazartesi).</p>
+                        <div className="flex flex-wrap items-end gap-2 mb-3">
+                            <select value={draft.fromDay} onChange={e => setDraft({ ...draft, fromDay: parseInt(e.target.value) })} className={inputClass}>
+                                {WEEKDAY_ORDER.map(d => <option key={d} value={d}>{WEEKDAY_NAMES[d]}</option>)}
+                            </select>
+                            <span className={`pb-2 text-sm ${mutedText}`}>→</span>
+                            <select value={draft.toDay} onChange={e => setDraft({ ...draft, toDay: parseInt(e.target.value) })} className={inputClass}>
+                                {WEEKDAY_ORDER.map(d => <option key={d} value={d}>{WEEKDAY_NAMES[d]}</option>)}
+                            </select>
+                            <select value={draft.hard ? 'hard' : 'soft'} onChange={e => setDraft({ ...draft, hard: e.target.value === 'hard' })} className={inputClass}>
+                                <option value="hard">Kesin</option>
+                                <option value="soft">Esnek</option>
+                            </select>
+                            <Button onClick={handleAddPair} className="h-9 text-sm">
+                                <Plus className="w-4 h-4" /> Ekle
+                            </Button>
+                        </div>
+                        {restRules.dayPairExclusions.length === 0 ? (
+                            <p className={`text-xs ${mutedText}`}>Tanımlı gün çifti kısıtı yok.</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {restRules.dayPairExclusions.map(ex => (
+                                    <div key={ex.id} className={rowClass}>
+                                        <span className="font-medium flex-1">{WEEKDAY_NAMES[ex.fromDay]} → {WEEKDAY_NAMES[ex.toDay]}</span>
+                                        <button
+                                            onClick={() => setRestRules({ ...restRules, dayPairExclusions: restRules.dayPairExclusions.map(p => p.id === ex.id ? { ...p, hard: !p.hard } : p) })}
+                                            className={`text-[10px] font-bold px-2 py-0.5 rounded-md border shrink-0 ${ex.hard ? 'bg-indigo-600 text-white border-indigo-700' : (isBlackAndWhite ? 'border-slate-600 text-gray-300' : 'border-gray-300 text-gray-600')}`}
+                                            title="Kesin / esnek arasında geçiş"
+                                        >
+                                            {ex.hard ? 'Kesin' : 'Esnek'}
+                                        </button>
+                                        <button onClick={() => setRestRules({ ...restRules, dayPairExclusions: restRules.dayPairExclusions.filter(p => p.id !== ex.id) })} className="p-1 rounded hover:bg-rose-500/10 text-rose-500">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex justify-between pt-2">
+                        <Button variant="ghost" onClick={() => setRestRules(DEFAULT_REST_RULES)} className="text-xs">
+                            <RotateCcw className="w-3.5 h-3.5" /> Varsayılana Dön
+                        </Button>
+                        <Button onClick={onClose} className="text-sm">Tamam</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+
+import React from 'react';
+import { RoleConfig, Staff } from '../types';
+import { Card, Button } from './ui';
+import { createRoleConfig, getRoleHierarchy } from '../services/roles';
+import { Layers, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface RoleHierarchyPanelProps {
+    staff: Staff[];
+    roleConfigs: Record<number, RoleConfig>;
+    setRoleConfigs: React.Dispatch<React.SetStateAction<Record<number, RoleConfig>>>;
+    isBlackAndWhite: boolean;
+}
+
+export const RoleHierarchyPanel: React.FC<RoleHierarchyPanelProps> = ({ staff, roleConfigs, setRoleConfigs, isBlackAndWhite }) => {
+    const hierarchy = getRoleHierarchy(roleConfigs);
+    const roles = hierarchy.roles;
+
+    // Tüm roller tamamlanmış haliyle yazılır; sıra değerleri 1..N olarak yeniden numaralanır
+    const commit = (next: RoleConfig[]) => {
+        setRoleConfigs(Object.fromEntries(next.map((r, index) => [r.role, { ...r, order: index + 1 }])));
+    };
+
+    const updateRole = (role: number, patch: Partial<RoleConfig>) => commit(roles.map(r => r.role === role ? { ...r, ...patch } : r));
+
+    const moveRole = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= roles.length) return;
+        const next = [...roles];
+        [next[index], next[target]] = [next[target], next[index]];
+        commit(next);
+    };
+
+    const handleAdd = () => {
+        const role = Math.max(0, ...roles.map(r => r.role)) + 1;
+        commit([...roles, createRoleConfig(role)]);
+    };
+
+    const parseLimit = (raw: string) => raw === '' ? undefined : Math.max(0, parseInt(raw) || 0);
+    const staffCount = (role: number) => staff.filter(s => s.role === role).length;
+
+    const inputClass = `rounded-lg p-1.5 border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white placeholder-slate-500' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+    }`;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <Card className={`p-6 transition-colors ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : ''}`}>
+            <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center gap-2">
+                    <Layers className="w-5 h-5 text-indigo-500" />
+                    <h3 className="font-bold text-lg">Kıdem Hiyerarşisi</h3>
+                </div>
+                <Button onClick={handleAdd} variant="secondary" className="h-8 text-xs">
+                    <Plus className="w-4 h-4" /> Rol Ekle
+                </Button>
+            </div>
+            <p className={`text-xs mb-4 ${mutedText}`}>
+                Üstteki rol daha kıdemlidir; en alttaki kıdemli olmayan roller "yeni personel" sayılır (gözetim ve öncelik kuralları). "Kıdemli" rollerden her güne en az bir kişi yazılır ve Excel'de (K) ile işaretlenir. "Havuz" rolleri servis branşı ve gün kısıtlarından muaftır. "Ay Min / Max" kişi başı aylık en az / en fazla nöbettir (kişi kaydında değer yoksa kullanılır, yarı zamanlılarda oranla ölçeklenir).
+            </p>
+
+            <div className={`grid grid-cols-[56px_40px_1fr_70px_60px_64px_64px_64px_64px_32px] gap-2 text-[10px] font-bold uppercase mb-1.5 ${mutedText}`}>
+                <span>Sıra</span>
+                <span>No</span>
+                <span>Ad</span>
+                <span className="text-center">Kıdemli</span>
+                <span className="text-center">Havuz</span>
+                <span className="text-center">Gün Min</span>
+                <span className="text-center">Gün Max</span>
+                <span className="text-center">Ay Min</span>
+                <span className="text-center">Ay Max</span>
+                <span />
+            </div>
+            <div className="space-y-1.5">
+                {roles.map((r, index) => {
+                    const inUse = staffCount(r.role);
+                    return (
+                        <div key={r.role} className={`grid grid-cols-[56px_40px_1fr_70px_60px_64px_64px_64px_64px_32px] gap-2 items-center px-2 py-1.5 rounded-lg border ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'}`}>
+                            <div className="flex gap-0.5">
+                                <button onClick={() => moveRole(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-black/10 disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                                <button onClick={() => moveRole(index, 1)} disabled={index === roles.length - 1} className="p-1 rounded hover:bg-black/10 disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                            </div>
+                            <span className="font-mono text-sm font-bold">{r.role}</span>
+                            <div className="flex items-center gap-2 min-w-0">
+                                <input type="text" value={r.name} onChange={e => updateRole(r.role, { name: e.target.value })} className={`${inputClass} w-full`} />
+                                <span className={`text-[10px] shrink-0 ${mutedText}`}>{inUse} kişi</span>
+                            </div>
+                            <input type="checkbox" checked={!!r.countsAsSenior} onChange={e => updateRole(r.role, { countsAsSenior: e.target.checked })} className="w-4 h-4 mx-auto accent-amber-500" />
+                            <input type="checkbox" checked={!!r.floatPool} onChange={e => updateRole(r.role, { floatPool: e.target.checked })} className="w-4 h-4 mx-auto accent-indigo-600" />
+                            <input type="number" min={0} value={r.dailyMin ?? ''} placeholder="-" onChange={e => updateRole(r.role, { dailyMin: parseLimit(e.target.value) })} className={`${inputClass} text-center`} />
+                            <input type="number" min={0} value={r.dailyMax ?? ''} placeholder="-" onChange={e => updateRole(r.role, { dailyMax: parseLimit(e.target.value) })} className={`${inputClass} text-center`} />
+                            <input type="number" min={0} value={r.quotaMin ?? ''} placeholder="-" onChange={e => updateRole(r.role, { quotaMin: parseLimit(e.target.value) })} className={`${inputClass} text-center`} />
+                            <input type="number" min={0} value={r.quotaMax ?? ''} placeholder="-" onChange={e => updateRole(r.role, { quotaMax: parseLimit(e.target.value) })} className={`${inputClass} text-center`} />
+                            <button
+                                onClick={() => commit(roles.filter(x => x.role !== r.role))}
+                                disabled={inUse > 0 || roles.length <= 1}
+                                className="p-1 rounded hover:bg-rose-500/10 text-rose-500 disabled:opacity-30 disabled:hover:bg-transparent"
+                                title={inUse > 0 ? 'Bu role atanmış personel var' : 'Sil'}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </Card>
+    );
+};
@@ -0,0 +1,102 @@
+
+import React from 'react';
+import { RuleSetting } from '../types';
+import { Button } from './ui';
+import { RULES, DEFAULT_RULE_SETTINGS } from '../services/rules';
+import { X, ShieldCheck, Lock, RotateCcw } from 'lucide-react';
+
+interface RuleSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    isBlackAndWhite: boolean;
+    ruleSettings: RuleSetting[];
+    setRuleSettings: (settings: RuleSetting[]) => void;
+}
+
+export const RuleSettingsModal: React.FC<RuleSettingsModalProps> = ({ isOpen, onClose, isBlackAndWhite, ruleSettings, setRuleSettings }) => {
+    if (!isOpen) return null;
+
+    const getSetting = (id: string): RuleSetting => {
+        return ruleSettings.find(s => s.id === id) || DEFAULT_RULE_SETTINGS.find(s => s.id === id) || { id, enabled: true };
+    };
+
+    const updateSetting = (id: string, patch: Partial<RuleSetting>) => {
+        const current = getSetting(id);
+        const updated = { ...current, ...patch };
+        const exists = ruleSettings.some(s => s.id === id);
+        setRuleSettings(exists ? ruleSettings.map(s => s.id === id ? updated : s) : [...ruleSettings, updated]);
+    };
+
+    const inputClass = `w-20 rounded-lg p-1.5 border text-sm text-center outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+    }`;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+            <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-scale-in border flex flex-col max-h-[85vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                <div className={`p-4 border-b flex justify-between items-center shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <h3 className="font-bold text-lg flex items-center gap-2"><ShieldCheck className="w-5 h-5 text-indigo-500" /> Kesin Kurallar</h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-4 overflow-y-auto custom-scrollbar space-y-2">
+                    {RULES.map(rule => {
+                        const setting = getSetting(rule.id);
+                        const enabled = !rule.configurable || setting.enabled;
+                        return (
+                            <div key={rule.id} className={`p-3 rounded-xl border transition-colors ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'} ${enabled ? '' : 'opacity-60'}`}>
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <div className="font-bold text-sm flex items-center gap-1.5">
+                                            {!rule.configurable && <Lock className="w-3 h-3 opacity-50" />}
+                                            {rule.name}
+                                        </div>
+                                        <p className={`text-xs mt-0.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>{rule.description}</p>
+                                    </div>
+                                    {rule.configurable ? (
+                                        <label className="flex items-center gap-2 cursor-pointer shrink-0 text-xs font-bold">
+                                            <input
+                                                type="checkbox"
+                                                checked={setting.enabled}
+                                                onChange={e => updateSetting(rule.id, { enabled: e.target.checked })}
+                                                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                            />
+                                            {setting.enabled ? 'Aktif' : 'Kapalı'}
+                                        </label>
+                                    ) : (
+                                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded shrink-0 ${isBlackAndWhite ? 'bg-slate-900 text-gray-400' : 'bg-gray-100 text-gray-500'}`}>Temel</span>
+                                    )}
+                                </div>
+
+                                {rule.params && rule.params.length > 0 && enabled && (
+                                    <div className="flex flex-wrap gap-4 mt-3">
+                                        {rule.params.map(param => (
+                                            <label key={param.key} className={`flex items-center gap-2 text-xs ${isBlackAndWhite ? 'text-gray-300' : 'text-gray-600'}`}>
+                                                {param.label}
+                                                <input
+                                                    type="number"
+                                                    min={param.min}
+                                                    max={param.max}
+                                                    value={setting.params?.[param.key] ?? param.defaultValue}
+                                                    onChange={e => updateSetting(rule.id, { params: { ...setting.params, [param.key]: parseInt(e.target.value) || 0 } })}
+                                                    className={inputClass}
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className={`p-4 border-t flex justify-between gap-3 shrink-0 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                    <Button variant="ghost" onClick={() => setRuleSettings(DEFAULT_RULE_SETTINGS)} className={`text-xs ${isBlackAndWhite ? 'text-gray-400 hover:text-white' : ''}`}>
+                        <RotateCcw className="w-3.5 h-3.5" /> Varsayılana Dön
+                    </Button>
+                    <Button onClick={onClose}>Tamam</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
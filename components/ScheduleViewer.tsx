@@ -1,27 +1,46 @@
 
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { ScheduleResult, Service, Staff, DaySchedule } from '../types';
+import { ScheduleResult, Service, Staff, DaySchedule, SchedulerConfig, SchedulePins, ScheduleAlternative } from '../types';
+import { validateSchedule, getRuleDefinition } from '../services/rules';
+import { AssignmentTraceModal } from './AssignmentTraceModal';
+import { UnfilledDiagnosticsPanel } from './UnfilledDiagnosticsPanel';
+import { AlternativesComparison } from './AlternativesComparison';
+import { diagnoseUnfilledSlots } from '../services/diagnostics';
+import { findReplacements } from '../services/replacement';
+import { getCarriedDays } from '../services/carryOver';
+import { getRoleHierarchy } from '../services/roles';
+import { buildPinIndex, emptyPins, isFrozen, pinKey, toggleLockedDay, togglePinnedAssignment } from '../services/pins';
+import { DEFAULT_SHIFT_HOURS, formatHours, getQuotaBounds, getShiftHours, getTargetHours, toShiftEquivalents } from '../services/hours';
+import { getMonthLeaveDays, LEAVE_TYPES } from '../services/leave';
+import { getDayPreference, summarizeRequestSatisfaction, PREFERENCE_LEVELS, PRIORITY_LABELS, DEFAULT_REQUEST_PRIORITY } from '../services/preferences';
 import { Card, Button } from './ui';
-import { ICONS } from '../constants';
+import { ICONS, LEAVE_BADGE_CLASSES } from '../constants';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { Edit3, Save, X, CheckCircle2, Share2, Clipboard, GripVertical, Pencil, RotateCcw, Search, AlertTriangle, Calendar as CalendarIcon, Link as LinkIcon, Users, LayoutGrid, Star, Download } from 'lucide-react';
+import { Edit3, Save, X, CheckCircle2, Share2, Clipboard, GripVertical, Pencil, RotateCcw, Search, AlertTriangle, Calendar as CalendarIcon, Link as LinkIcon, Users, LayoutGrid, Star, Download, Archive, Pin, Lock, Unlock, Wrench, UserSearch } from 'lucide-react';
 
 interface ScheduleViewerProps {
     result: ScheduleResult;
     setResult: (res: ScheduleResult) => void;
     services: Service[];
     staff: Staff[];
+    config: SchedulerConfig;
     year: number;
     month: number;
     isBlackAndWhite: boolean;
     handleDownload: () => void;
     isReadOnly?: boolean;
     onShare?: () => void;
+    onUseSeed?: (seed: number) => void;
+    onArchive?: () => void;
+    onPinsChange?: (pins: SchedulePins) => void; // Sabitleme / gün kilidi (config.pins üzerinden okunur)
+    onRepair?: () => void; // Yayın sonrası yokluk bildirimi ve en az değişiklikle onarım
 }
 
-export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResult, services, staff, year, month, isBlackAndWhite, handleDownload, isReadOnly = false, onShare }) => {
+export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResult, services, staff, config, year, month, isBlackAndWhite, handleDownload, isReadOnly = false, onShare, onUseSeed, onArchive, onPinsChange, onRepair }) => {
     
+    const roles = getRoleHierarchy(config.roles);
+
     // --- View Mode State ---
     const [viewMode, setViewMode] = useState<'daily' | 'staff'>('daily');
 
@@ -29,6 +48,7 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
     const [isEditing, setIsEditing] = useState(false);
     const [editingSlot, setEditingSlot] = useState<{day: number, serviceId: string, currentStaffId: string} | null>(null);
     const [searchTerm, setSearchTerm] = useState(""); // Search in dropdown
+    const [showReplacements, setShowReplacements] = useState(false); // Dropdown: üretim puanıyla sıralı acil yedek listesi
 
     // --- Manual Edit State (Staff View) ---
     const [editingStaffSlot, setEditingStaffSlot] = useState<{day: number, staffId: string} | null>(null);
@@ -43,6 +63,26 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
     const [dragData, setDragData] = useState<{day: number, serviceId: string, staffId: string} | null>(null);
     const [dragOverTarget, setDragOverTarget] = useState<{day: number, serviceId: string, staffId: string} | null>(null);
 
+    // --- Explain-why State ---
+    const [traceSlot, setTraceSlot] = useState<{day: number, serviceId: string, staffId: string} | null>(null);
+
+    // --- Unfilled Slot Diagnostics ---
+    const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+    // --- Pins: sabitlenen atamalar ve kilitli günler yeniden üretimde korunur, elle de değiştirilmez ---
+    const pinIndex = useMemo(() => buildPinIndex(config.pins), [config.pins]);
+    const canPin = !isReadOnly && !!onPinsChange;
+    const pinnedCount = config.pins?.assignments.length ?? 0;
+    const lockedDayCount = config.pins?.lockedDays.length ?? 0;
+
+    const handleTogglePin = (day: number, serviceId: string, staffId: string) => {
+        onPinsChange?.(togglePinnedAssignment(config.pins, year, month, { day, serviceId, staffId }));
+    };
+
+    const handleToggleDayLock = (day: number) => {
+        onPinsChange?.(toggleLockedDay(config.pins, year, month, day, result.schedule));
+    };
+
     // --- Stats Logic ---
     const chartData = useMemo(() => {
         if (!staff || !result) return [];
@@ -50,39 +90,91 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
           const p = staff.find(st => st.id === s.staffId);
           // Unit (Branş) bilgisini ismin yanına ekle
           const displayName = p ? `${p.name} (${p.unit})` : '?';
+          // Hedef ve gerçekleşen saatten nöbet eşdeğerine çevrilir (farklı nöbet süreleri ve yarı zamanlılar için)
+          const worked = s.hoursWorked ?? s.totalShifts * DEFAULT_SHIFT_HOURS;
+          const target = s.targetHours ?? (p ? getTargetHours(p) : 0);
           
           return {
             name: displayName,
-            targetService: p?.quotaService || 0,
-            actualService: s.totalShifts,
-            weekendShifts: s.weekendShifts // Haftasonu sayısını ekle
+            targetService: Math.round(toShiftEquivalents(target) * 10) / 10,
+            actualService: Math.round(toShiftEquivalents(worked) * 10) / 10,
+            weekendShifts: s.weekendShifts, // Haftasonu sayısını ekle
+            holidayShifts: s.holidayShifts || 0
           };
         });
       }, [result, staff]);
 
     const fairnessScore = useMemo(() => {
-        if (!staff || !result) return { stdDev: "0", reqRate: 0 };
+        if (!staff || !result) return { stdDev: "0", reqRate: 0, byLevel: summarizeRequestSatisfaction([], [], year, month) };
         const totalShifts = result.stats.map(s => s.totalShifts);
         const mean = totalShifts.reduce((a,b) => a+b, 0) / totalShifts.length;
         const variance = totalShifts.reduce((a,b) => a + Math.pow(b - mean, 2), 0) / totalShifts.length;
         const stdDev = Math.sqrt(variance);
 
-        let totalReqs = 0;
-        let metReqs = 0;
-        staff.forEach(s => {
-            totalReqs += s.requestedDays.length;
-            s.requestedDays.forEach(day => {
-                const daySchedule = result.schedule.find(ds => ds.day === day);
-                if (daySchedule?.assignments.some(a => a.staffId === s.id)) metReqs++;
-            });
-        });
+        // Düzey bazında: istekler yazıldıysa, "olmasın" / "alamaz" günleri yazılmadıysa karşılanmış sayılır
+        const byLevel = summarizeRequestSatisfaction(result.schedule, staff, year, month);
+        const totalReqs = byLevel.must.total + byLevel.prefer.total;
+        const metReqs = byLevel.must.satisfied + byLevel.prefer.satisfied;
         const reqRate = totalReqs === 0 ? 100 : Math.round((metReqs / totalReqs) * 100);
 
-        return { stdDev: stdDev.toFixed(2), reqRate };
-    }, [result, staff]);
-
+        return { stdDev: stdDev.toFixed(2), reqRate, byLevel };
+    }, [result, staff, year, month]);
+
+
+    // Önceki aydan devralınan günler (gün <= 0): sadece gösterilir, düzenlenmez
+    const carriedDays = useMemo(() => getCarriedDays(config.carryOver, year, month), [config.carryOver, year, month]);
+    const carriedDayLabel = (day: number) => new Date(year, month, day).getDate();
+    const leaveDaysByStaff = useMemo(() => new Map(staff.map(s => [s.id, getMonthLeaveDays(s, year, month)])), [staff, year, month]);
+
+    // Saat / hedef saat (eski kayıtlı çizelgelerde saat yoksa nöbet sayısından türetilir)
+    const hoursByStaff = useMemo(() => new Map(result.stats.map(s => {
+        const person = staff.find(p => p.id === s.staffId);
+        return [s.staffId, {
+            worked: s.hoursWorked ?? s.totalShifts * DEFAULT_SHIFT_HOURS,
+            target: s.targetHours ?? (person ? getTargetHours(person) : 0),
+            min: person ? getQuotaBounds(person, roles).min : 0
+        }];
+    })), [result.stats, staff, roles]);
+
+    // En az nöbetin altında veya hedefin üstünde kalanlar
+    const quotaFlags = useMemo(() => staff
+        .filter(p => p.isActive !== false && hoursByStaff.has(p.id))
+        .map(p => ({ person: p, ...hoursByStaff.get(p.id)! }))
+        .filter(h => h.worked < h.min || h.worked > h.target), [staff, hoursByStaff]);
+
+    const renderHours = (staffId: string) => {
+        const hours = hoursByStaff.get(staffId);
+        if (!hours) return null;
+        const tone = hours.worked < hours.min ? 'text-rose-500' : hours.worked > hours.target ? 'text-amber-500' : hours.worked < hours.target ? 'text-sky-500' : 'opacity-60';
+        return (
+            <div className={`text-[10px] font-mono font-bold ${tone}`} title={hours.min > 0 ? `Çalışılan / hedef saat (en az ${formatHours(hours.min)})` : 'Çalışılan / hedef saat'}>
+                {formatHours(hours.worked)} / {formatHours(hours.target)}
+            </div>
+        );
+    };
 
     // --- Helper Functions ---
+    const staffName = (staffId: string) => staffId === 'EMPTY' ? 'BOŞ' : staff.find(s => s.id === staffId)?.name || staffId;
+
+    // Elle yapılan düzenlemeler dahil, çizelgenin kesin kurallara uygunluğu
+    const ruleViolations = useMemo(() => {
+        return validateSchedule(result.schedule, staff, services, config);
+    }, [result.schedule, staff, services, config]);
+
+    const violationsBySlot = useMemo(() => {
+        const map = new Map<string, string[]>();
+        ruleViolations.forEach(v => {
+            const key = `${v.day}-${v.serviceId}-${v.staffId}`;
+            map.set(key, [...(map.get(key) || []), getRuleDefinition(v.ruleId)?.name || v.ruleId]);
+        });
+        return map;
+    }, [ruleViolations]);
+
+    const unfilledDiagnostics = useMemo(() => {
+        if (!showDiagnostics) return [];
+        return diagnoseUnfilledSlots(result.schedule, staff, services, config);
+    }, [showDiagnostics, result.schedule, staff, services, config]);
+
     const addToHistory = () => {
         const snapshot = JSON.parse(JSON.stringify(result.schedule));
         setHistory(prev => [...prev.slice(-19), snapshot]); 
@@ -96,18 +188,34 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
         recalculateStats(previousSchedule); 
     };
 
+    // Başka bir alternatife geçiş: karar kaydı ve iyileştirme özeti de onunkiyle değişir, geri alma geçmişi sıfırlanır
+    const handleSelectAlternative = (alternative: ScheduleAlternative) => {
+        setResult({
+            ...result,
+            schedule: alternative.schedule.map(d => ({ ...d, assignments: [...d.assignments] })),
+            stats: alternative.stats,
+            unfilledSlots: alternative.unfilledSlots,
+            attemptIndex: alternative.attemptIndex,
+            traces: alternative.traces,
+            improvement: alternative.improvement
+        });
+        setHistory([]);
+    };
+
     const recalculateStats = (newSchedule: DaySchedule[]) => {
         const newStats = staff.map(s => {
-            let total = 0, weekend = 0, sat = 0, sun = 0;
+            let total = 0, weekend = 0, sat = 0, sun = 0, holiday = 0, hours = 0;
             newSchedule.forEach(day => {
                 const assignment = day.assignments.find(a => a.staffId === s.id);
                 if(assignment) {
                     total++;
+                    hours += getShiftHours(services.find(sv => sv.id === assignment.serviceId));
                     const date = new Date(year, month, day.day);
                     const d = date.getDay();
                     if (d === 0 || d === 6) weekend++; 
                     if (d === 6) sat++;
                     if (d === 0) sun++;
+                    if (day.holiday) holiday++;
                 }
             });
             return {
@@ -115,7 +223,10 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
               totalShifts: total,
               weekendShifts: weekend,
               saturdayShifts: sat,
-              sundayShifts: sun
+              sundayShifts: sun,
+              holidayShifts: holiday,
+              hoursWorked: hours,
+              targetHours: getTargetHours(s)
             };
         });
 
@@ -199,7 +310,7 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
     };
 
     const checkConsecutiveConflict = (staffId: string, currentDay: number): boolean => {
-        const prevDay = result.schedule.find(d => d.day === currentDay - 1);
+        const prevDay = result.schedule.find(d => d.day === currentDay - 1) || carriedDays.find(d => d.day === currentDay - 1);
         const nextDay = result.schedule.find(d => d.day === currentDay + 1);
 
         const worksPrev = prevDay?.assignments.some(a => a.staffId === staffId) ?? false;
@@ -219,7 +330,8 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
         let candidates = staff.filter(s => {
             if (assignedStaffIds.has(s.id) && s.id !== editingSlot.currentStaffId) return false;
             // Removed allowed roles check
-            if (s.offDays.includes(editingSlot.day)) return false;
+            if (leaveDaysByStaff.get(s.id)?.has(editingSlot.day)) return false;
+            if (getDayPreference(s, year, month, editingSlot.day)?.level === 'unavailable') return false;
             return true;
         });
 
@@ -234,6 +346,18 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
         }));
     };
 
+    // Acil yedek: herkes motorun puanı ve kesin kurallarıyla sıralanır, engeller uyarı olarak gösterilir
+    const replacements = useMemo(() => {
+        if (!editingSlot || !showReplacements) return [];
+        return findReplacements(result.schedule, staff, services, config, editingSlot.day, editingSlot.serviceId, editingSlot.currentStaffId);
+    }, [editingSlot, showReplacements, result.schedule, staff, services, config]);
+
+    const getFilteredReplacements = () => {
+        if (!searchTerm) return replacements;
+        const lower = searchTerm.toLocaleLowerCase('tr-TR');
+        return replacements.filter(c => staffName(c.staffId).toLocaleLowerCase('tr-TR').includes(lower));
+    };
+
     const copyWhatsAppMessage = (staffId: string) => {
         const person = staff.find(s => s.id === staffId);
         if (!person) return;
@@ -379,6 +503,8 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
         if (editingSlot) {
             const input = document.getElementById('staff-search-input');
             if(input) input.focus();
+        } else {
+            setShowReplacements(false);
         }
     }, [editingSlot]);
 
@@ -438,6 +564,11 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                      }`}>
                        {result.unfilledSlots}
                      </div>
+                     {!isSuccess && (
+                         <button onClick={() => setShowDiagnostics(!showDiagnostics)} className={`mt-1 text-[11px] font-bold underline ${isBlackAndWhite ? 'text-rose-300' : 'text-rose-600'}`}>
+                             {showDiagnostics ? 'Teşhisi Gizle' : 'Neden boş?'}
+                         </button>
+                     )}
                   </Card>
 
                   <Card className={`p-4 md:p-5 border-l-4 shadow-sm transition-all hover:shadow-md ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 border-l-indigo-500 text-white' : 'border-l-indigo-500'}`}>
@@ -449,9 +580,33 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                   <Card className={`p-4 md:p-5 border-l-4 shadow-sm transition-all hover:shadow-md ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 border-l-blue-500 text-white' : 'border-l-blue-500'}`}>
                      <div className={`text-[10px] md:text-xs font-bold uppercase tracking-wider opacity-60 mb-1 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>İstek Karşılama</div>
                      <div className={`text-2xl md:text-3xl font-bold ${isBlackAndWhite ? 'text-blue-400' : 'text-blue-600'}`}>%{fairnessScore.reqRate}</div>
+                     <div className={`mt-1 space-y-0.5 text-[11px] ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {(['must', 'prefer', 'preferNot'] as const).filter(level => fairnessScore.byLevel[level].total > 0).map(level => (
+                            <div key={level} className="flex justify-between gap-2">
+                                <span>{PREFERENCE_LEVELS[level].label}</span>
+                                <b>{fairnessScore.byLevel[level].satisfied}/{fairnessScore.byLevel[level].total}</b>
+                            </div>
+                        ))}
+                        {fairnessScore.byLevel.unavailable.satisfied < fairnessScore.byLevel.unavailable.total && (
+                            <div className="font-bold text-rose-500">{fairnessScore.byLevel.unavailable.total - fairnessScore.byLevel.unavailable.satisfied} "Nöbet Alamaz" ihlali</div>
+                        )}
+                     </div>
                   </Card>
             </div>
 
+            {showDiagnostics && !isSuccess && (
+                <UnfilledDiagnosticsPanel
+                    diagnostics={unfilledDiagnostics}
+                    schedule={result.schedule}
+                    services={services}
+                    staff={staff}
+                    year={year}
+                    month={month}
+                    isBlackAndWhite={isBlackAndWhite}
+                    onClose={() => setShowDiagnostics(false)}
+                />
+            )}
+
             {/* Actions Bar - View Switcher & Buttons */}
             <div className={`flex flex-col xl:flex-row justify-between items-center p-3 rounded-xl border shadow-sm gap-3 ${isBlackAndWhite ? 'bg-slate-900 border-slate-700' : 'bg-white border-gray-200'}`}>
                  
@@ -483,6 +638,16 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                             <LinkIcon className="w-4 h-4 mr-1" /> Link
                         </Button>
                     )}
+                    {!isReadOnly && onArchive && (
+                        <Button variant="secondary" onClick={onArchive} className={`text-xs h-9 flex-1 sm:flex-none ${isBlackAndWhite ? 'bg-slate-800 text-white border-slate-700 hover:bg-slate-700' : ''}`}>
+                            <Archive className="w-4 h-4 mr-1" /> Arşivle
+                        </Button>
+                    )}
+                    {!isReadOnly && onRepair && (
+                        <Button variant="secondary" onClick={onRepair} className={`text-xs h-9 flex-1 sm:flex-none ${isBlackAndWhite ? 'bg-slate-800 text-white border-slate-700 hover:bg-slate-700' : ''}`}>
+                            <Wrench className="w-4 h-4 mr-1" /> Yokluk / Onar
+                        </Button>
+                    )}
                     {!isReadOnly && history.length > 0 && (
                         <Button variant="secondary" onClick={handleUndo} className={`text-xs h-9 flex-1 sm:flex-none text-amber-700 bg-amber-50 hover:bg-amber-100 border-amber-200 ${isBlackAndWhite ? 'bg-slate-800 text-amber-400 border-slate-700 hover:bg-slate-700' : ''}`}>
                             <RotateCcw className="w-4 h-4 mr-1" /> Geri Al
@@ -499,6 +664,82 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                  </div>
             </div>
 
+            {/* Reproducibility Info */}
+            {result.seed !== undefined && (
+                <div className={`flex flex-wrap items-center gap-3 text-xs px-3 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                    <span>Tohum: <b className="font-mono">{result.seed}</b></span>
+                    {result.attemptIndex !== undefined && <span>Kazanan Deneme: <b>#{result.attemptIndex + 1}</b></span>}
+                    {onUseSeed && (
+                        <button onClick={() => onUseSeed(result.seed!)} className={`underline ${isBlackAndWhite ? 'hover:text-white' : 'hover:text-gray-800'}`}>
+                            Bu tohumu sabitle
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Pins Summary */}
+            {(pinnedCount > 0 || lockedDayCount > 0) && (
+                <div className={`flex flex-wrap items-center gap-3 text-xs px-3 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                    <span className="flex items-center gap-1"><Pin className="w-3.5 h-3.5" /> Sabitlenen: <b>{pinnedCount}</b> atama, <b>{lockedDayCount}</b> kilitli gün (yeniden üretimde korunur)</span>
+                    {canPin && (
+                        <button onClick={() => onPinsChange!(emptyPins(year, month))} className={`underline ${isBlackAndWhite ? 'hover:text-white' : 'hover:text-gray-800'}`}>
+                            Tümünü kaldır
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Local Search Summary */}
+            {result.improvement && (
+                <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 text-xs px-3 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                    <span className="font-bold">Yerel İyileştirme:</span>
+                    <span>Amaç <b>{result.improvement.before.total}</b> → <b>{result.improvement.after.total}</b></span>
+                    <span>Boş {result.improvement.before.unfilledSlots} → {result.improvement.after.unfilledSlots}</span>
+                    {(result.improvement.before.minimumShortfall > 0 || result.improvement.after.minimumShortfall > 0) && (
+                        <span>En Az Nöbet Açığı {result.improvement.before.minimumShortfall} → {result.improvement.after.minimumShortfall}</span>
+                    )}
+                    <span>Hedef Sapması {result.improvement.before.quotaDeviation} → {result.improvement.after.quotaDeviation}</span>
+                    <span>HS Dengesizliği {result.improvement.before.weekendSpread} → {result.improvement.after.weekendSpread}</span>
+                    <span>Karşılanmayan İstek {result.improvement.before.unmetRequests} → {result.improvement.after.unmetRequests}</span>
+                    <span className="opacity-70">({result.improvement.iterations} iterasyon, {result.improvement.elapsedMs} ms)</span>
+                    {result.improvement.stoppedBySafetyLimit && (
+                        <span className={`font-bold ${isBlackAndWhite ? 'text-amber-300' : 'text-amber-600'}`}>Güvenlik süresi doldu: tohumla birebir tekrar üretilemeyebilir</span>
+                    )}
+                </div>
+            )}
+
+            {/* Exact Solver Report */}
+            {result.optimality && (
+                <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 text-xs px-3 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                    <span className="font-bold">Kesin Çözücü:</span>
+                    {result.optimality.optimalForHeuristicCoverage ? (
+                        <span
+                            className={`font-bold flex items-center gap-1 ${isBlackAndWhite ? 'text-emerald-400' : 'text-emerald-600'}`}
+                            title="Doluluk ve kompozisyon kapsaması sezgisel çözümden alınır; yalnızca bu kapsamayı sağlayan çizelgeler arasında en iyisidir"
+                        >
+                            <CheckCircle2 className="w-3.5 h-3.5" /> Sezgisel kapsamaya göre optimal
+                        </span>
+                    ) : (
+                        <span className={`font-bold ${isBlackAndWhite ? 'text-amber-300' : 'text-amber-600'}`}>Süre doldu, optimallik kanıtlanamadı</span>
+                    )}
+                    <span>Amaç <b>{result.optimality.objective}</b></span>
+                    <span>Alt Sınır <b>{result.optimality.lowerBound}</b></span>
+                    {!result.optimality.improvedOnHeuristic && <span>Sezgisel çözüm aşılamadı</span>}
+                    <span className="opacity-70">({result.optimality.nodes.toLocaleString('tr-TR')} düğüm, {result.optimality.elapsedMs} ms)</span>
+                </div>
+            )}
+
+            {/* Alternative Schedules */}
+            {result.alternatives && result.alternatives.length > 1 && (
+                <AlternativesComparison
+                    alternatives={result.alternatives}
+                    currentSchedule={result.schedule}
+                    selectedAttemptIndex={result.attemptIndex}
+                    isBlackAndWhite={isBlackAndWhite}
+                    onSelect={!isReadOnly ? handleSelectAlternative : undefined}
+                />
+            )}
+
             {/* Logs */}
             {result.logs.length > 0 && (
                 <Card className={isBlackAndWhite ? 'bg-slate-900 border-slate-700 border text-white' : 'bg-amber-50 border-amber-200 border'} id="log-section">
@@ -511,6 +752,74 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                 </Card>
             )}
 
+            {/* Repair Changes */}
+            {result.repair && (
+                <Card className={isBlackAndWhite ? 'bg-slate-900 border-slate-700 border text-white' : 'bg-sky-50 border-sky-200 border'}>
+                    <div className={`p-4 border-b font-bold flex items-center gap-2 ${isBlackAndWhite ? 'border-slate-700' : 'border-sky-200 text-sky-800'}`}>
+                        <Wrench className="w-5 h-5" /> Onarım Değişiklikleri ({result.repair.changes.length})
+                        <span className="ml-auto text-xs font-normal opacity-70">
+                            {result.repair.released === 0 ? 'Sadece boşalan nöbetler yeniden dağıtıldı' : `${result.repair.released} komşu atama serbest bırakıldı`}
+                        </span>
+                    </div>
+                    <div className={`p-4 max-h-48 overflow-y-auto text-sm space-y-1.5 ${isBlackAndWhite ? 'text-gray-300' : 'text-sky-900'}`}>
+                        {result.repair.absences.map((a, i) => (
+                            <div key={`absence-${i}`} className="flex gap-2 font-bold">
+                                <span>•</span>
+                                <span>{staffName(a.staffId)}: {a.startDay}-{a.endDay}. günler {LEAVE_TYPES[a.type].label}</span>
+                            </div>
+                        ))}
+                        {result.repair.changes.map((c, i) => (
+                            <div key={i} className="flex gap-2">
+                                <span>•</span>
+                                <span>
+                                    <b>{c.day}. gün</b> — {services.find(s => s.id === c.serviceId)?.name}: {staffName(c.fromStaffId)} → {staffName(c.toStaffId)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
+            {/* Rule Violations */}
+            {ruleViolations.length > 0 && (
+                <Card className={isBlackAndWhite ? 'bg-slate-900 border-slate-700 border text-white' : 'bg-rose-50 border-rose-200 border'}>
+                    <div className={`p-4 border-b font-bold flex items-center gap-2 ${isBlackAndWhite ? 'border-slate-700' : 'border-rose-200 text-rose-800'}`}>
+                        <AlertTriangle className="w-5 h-5" /> Kural İhlalleri ({ruleViolations.length})
+                    </div>
+                    <div className={`p-4 max-h-48 overflow-y-auto text-sm space-y-1.5 ${isBlackAndWhite ? 'text-gray-300' : 'text-rose-900'}`}>
+                        {ruleViolations.map((v, i) => (
+                            <div key={i} className="flex gap-2">
+                                <span>•</span>
+                                <span>
+                                    <b>{v.day}. gün</b> — {services.find(s => s.id === v.serviceId)?.name}: {staff.find(s => s.id === v.staffId)?.name || v.staffId} → {getRuleDefinition(v.ruleId)?.name || v.ruleId}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
+            {/* Quota Flags */}
+            {quotaFlags.length > 0 && (
+                <Card className={isBlackAndWhite ? 'bg-slate-900 border-slate-700 border text-white' : 'bg-amber-50 border-amber-200 border'}>
+                    <div className={`p-4 border-b font-bold flex items-center gap-2 ${isBlackAndWhite ? 'border-slate-700' : 'border-amber-200 text-amber-800'}`}>
+                        <AlertTriangle className="w-5 h-5" /> Hedef Dışı Personel ({quotaFlags.length})
+                    </div>
+                    <div className={`p-4 max-h-48 overflow-y-auto text-sm space-y-1.5 ${isBlackAndWhite ? 'text-gray-300' : 'text-amber-900'}`}>
+                        {quotaFlags.map(f => (
+                            <div key={f.person.id} className="flex gap-2">
+                                <span>•</span>
+                                <span>
+                                    <b>{f.person.name}</b> — {formatHours(f.worked)}: {f.worked < f.min
+                                        ? <span className="text-rose-500 font-bold">en az {formatHours(f.min)} altında</span>
+                                        : <span className="font-bold">hedef {formatHours(f.target)} üstünde</span>}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
             {/* Chart */}
             <Card className={`p-4 md:p-6 shadow-md overflow-hidden ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-white' : ''}`}>
                   <div className="flex items-center gap-2 mb-4 md:mb-6">
@@ -529,6 +838,9 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                             <Bar dataKey="targetService" name="Hedef" fill={isBlackAndWhite ? '#4f46e5' : '#e0e7ff'} radius={[4, 4, 0, 0]} />
                             <Bar dataKey="actualService" name="Gerçekleşen" fill={isBlackAndWhite ? '#818cf8' : '#4f46e5'} radius={[4, 4, 0, 0]} />
                             <Bar dataKey="weekendShifts" name="Haftasonu" fill={isBlackAndWhite ? '#fbbf24' : '#f59e0b'} radius={[4, 4, 0, 0]} />
+                            {result.schedule.some(d => d.holiday) && (
+                              <Bar dataKey="holidayShifts" name="Bayram/Tatil" fill={isBlackAndWhite ? '#fb7185' : '#e11d48'} radius={[4, 4, 0, 0]} />
+                            )}
                           </BarChart>
                         </ResponsiveContainer>
                       </div>
@@ -553,14 +865,53 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                           </tr>
                         </thead>
                         <tbody>
+                          {carriedDays.map(day => (
+                            <tr key={`carried-${day.day}`} className="opacity-40 grayscale pointer-events-none select-none" title="Önceki aydan devralındı (sadece kural kontrolü için)">
+                              <td className={`sticky-col p-0 border-r ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-slate-200' : 'bg-gray-50 border-gray-200'}`}>
+                                <div className="flex flex-col items-center justify-center py-1.5 w-full">
+                                  <span className={`text-sm font-bold ${isBlackAndWhite ? 'text-white' : 'text-gray-700'}`}>{carriedDayLabel(day.day)}</span>
+                                  <span className="text-[9px] uppercase font-bold">
+                                    {new Date(year, month, day.day).toLocaleString('tr-TR', {month: 'short', weekday: 'short'})}
+                                  </span>
+                                </div>
+                              </td>
+                              {services.map(service => (
+                                <td key={service.id} className={`align-top p-1.5 ${isBlackAndWhite ? 'border-slate-700' : 'bg-gray-50'}`}>
+                                  <div className="flex flex-col gap-1">
+                                    {day.assignments.filter(a => a.serviceId === service.id).map((a, idx) => (
+                                      <span key={idx} className="text-xs font-semibold truncate">{a.staffName}</span>
+                                    ))}
+                                  </div>
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
                           {result.schedule.map((day) => (
                             <tr key={day.day} className={day.isWeekend ? 'is-weekend' : ''}>
-                              <td className={`sticky-col p-0 border-r ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-slate-200' : 'border-gray-200'}`} style={{ height: '1px' }}>
+                              <td className={`sticky-col p-0 border-r ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-slate-200' : 'border-gray-200'} ${day.holiday && !isBlackAndWhite ? 'bg-rose-50' : ''}`} style={{ height: '1px' }} title={day.holiday?.name}>
                                 <div className="flex flex-col items-center justify-center h-full min-h-[70px] py-2 bg-inherit w-full">
                                   <span className={`text-xl font-bold ${isBlackAndWhite ? 'text-white' : 'text-gray-700'}`}>{day.day}</span>
                                   <span className={`text-[10px] uppercase font-bold px-1.5 rounded ${day.isWeekend ? (isBlackAndWhite ? 'bg-indigo-900/40 text-indigo-200' : 'bg-orange-100 text-orange-700') : (isBlackAndWhite ? 'bg-slate-800 text-slate-400' : 'bg-gray-100 text-gray-500')}`}>
                                     {new Date(year, month, day.day).toLocaleString('tr-TR', {weekday: 'short'})}
                                   </span>
+                                  {day.holiday && (
+                                    <span className={`mt-1 text-[9px] font-bold px-1.5 rounded ${isBlackAndWhite ? 'bg-rose-900/50 text-rose-200' : 'bg-rose-100 text-rose-700'}`}>
+                                      {day.holiday.halfDay ? 'ARİFE' : 'TATİL'}
+                                    </span>
+                                  )}
+                                  {canPin ? (
+                                    <button
+                                      onClick={() => handleToggleDayLock(day.day)}
+                                      title={pinIndex.lockedDays.has(day.day) ? 'Gün kilidini kaldır' : 'Günü kilitle (yeniden üretimde değişmez)'}
+                                      className={`mt-1 p-0.5 rounded ${pinIndex.lockedDays.has(day.day) ? (isBlackAndWhite ? 'text-indigo-300' : 'text-indigo-600') : 'opacity-25 hover:opacity-100'}`}
+                                    >
+                                      {pinIndex.lockedDays.has(day.day) ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+                                    </button>
+                                  ) : pinIndex.lockedDays.has(day.day) && (
+                                    <span title="Kilitli gün" className="mt-1">
+                                      <Lock className={`w-3.5 h-3.5 ${isBlackAndWhite ? 'text-indigo-300' : 'text-indigo-600'}`} />
+                                    </span>
+                                  )}
                                 </div>
                               </td>
                               {services.map(service => {
@@ -575,34 +926,56 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                         {assignments.length > 0 ? assignments.map((a, idx) => {
                                           let badgeClass = 'slot-normal';
                                           if (a.staffId === 'EMPTY') badgeClass = 'slot-empty';
+                                          const slotViolations = violationsBySlot.get(`${day.day}-${service.id}-${a.staffId}`);
                                           
                                           const isSelected = editingSlot && editingSlot.day === day.day && editingSlot.serviceId === service.id && editingSlot.currentStaffId === a.staffId;
                                           const isDraggingItem = dragData && dragData.day === day.day && dragData.serviceId === service.id && dragData.staffId === a.staffId;
                                           const isDropTarget = dragOverTarget && dragOverTarget.day === day.day && dragOverTarget.serviceId === service.id && dragOverTarget.staffId === a.staffId;
+                                          const frozen = isFrozen(pinIndex, day.day, service.id, a.staffId);
+                                          const isPinned = pinIndex.keys.has(pinKey(day.day, service.id, a.staffId));
+                                          const editable = isEditing && !frozen;
 
                                           return (
                                             <div 
                                               key={idx} 
-                                              draggable={isEditing}
-                                              onDragStart={isEditing ? (e) => handleDragStart(e, day.day, service.id, a.staffId) : undefined}
-                                              onDrop={isEditing ? (e) => handleDrop(e, day.day, service.id, a.staffId) : undefined}
-                                              onDragEnter={isEditing ? (e) => handleDragEnter(e, day.day, service.id, a.staffId) : undefined}
-                                              className={`slot-badge ${badgeClass} ${isSelected ? 'slot-selected' : ''} ${isDraggingItem ? 'slot-dragging' : ''} ${isDropTarget ? 'slot-drag-over' : ''} ${isEditing ? 'clickable relative pr-7' : ''} flex justify-between items-center group/slot flex-1`}
+                                              draggable={editable}
+                                              onDragStart={editable ? (e) => handleDragStart(e, day.day, service.id, a.staffId) : undefined}
+                                              onDrop={editable ? (e) => handleDrop(e, day.day, service.id, a.staffId) : undefined}
+                                              onDragEnter={editable ? (e) => handleDragEnter(e, day.day, service.id, a.staffId) : undefined}
+                                              className={`slot-badge ${badgeClass} ${isSelected ? 'slot-selected' : ''} ${isDraggingItem ? 'slot-dragging' : ''} ${isDropTarget ? 'slot-drag-over' : ''} ${isEditing ? `relative pr-12 ${editable ? 'clickable' : 'cursor-not-allowed'}` : (a.staffId !== 'EMPTY' ? 'cursor-pointer' : '')} flex justify-between items-center group/slot flex-1`}
                                               onClick={(e) => {
-                                                  if (isEditing) {
+                                                  if (editable) {
                                                       e.stopPropagation();
                                                       setEditingSlot({day: day.day, serviceId: service.id, currentStaffId: a.staffId});
+                                                  } else if (a.staffId !== 'EMPTY') {
+                                                      setTraceSlot({day: day.day, serviceId: service.id, staffId: a.staffId});
                                                   }
                                               }}
+                                              title={isEditing && frozen ? 'Sabitlenmiş atama (düzenlemek için sabitlemeyi kaldırın)' : !isEditing && a.staffId !== 'EMPTY' ? 'Neden bu kişi? (Tıklayın)' : undefined}
                                             >
                                               <div className="flex items-center gap-2 overflow-hidden w-full">
                                                  <div className={`dot w-1.5 h-1.5 rounded-full shrink-0 ${isBlackAndWhite ? 'bg-indigo-400' : 'bg-indigo-500'}`}></div>
                                                  <span className="font-semibold block truncate text-sm select-none">{a.staffName}</span>
-                                                 {a.role === 1 && <Star className="w-3 h-3 text-amber-500 fill-amber-500 ml-1 shrink-0" />}
+                                                 {roles.isSenior(a.role) && <Star className="w-3 h-3 text-amber-500 fill-amber-500 ml-1 shrink-0" />}
+                                                 {slotViolations && (
+                                                     <span title={slotViolations.join(', ')} className="shrink-0">
+                                                         <AlertTriangle className="w-3.5 h-3.5 text-rose-500" />
+                                                     </span>
+                                                 )}
+                                                 {isPinned && !isEditing && <Pin className={`w-3 h-3 shrink-0 ${isBlackAndWhite ? 'text-indigo-300' : 'text-indigo-600'}`} />}
                                               </div>
                                               {isEditing && (
                                                   <div className="flex items-center gap-1 absolute right-1">
-                                                      <GripVertical className="w-3.5 h-3.5 text-current opacity-50 cursor-move" />
+                                                      {canPin && a.staffId !== 'EMPTY' && !pinIndex.lockedDays.has(day.day) && (
+                                                          <button
+                                                              onClick={(e) => { e.stopPropagation(); handleTogglePin(day.day, service.id, a.staffId); }}
+                                                              title={isPinned ? 'Sabitlemeyi kaldır' : 'Sabitle (yeniden üretimde değişmez)'}
+                                                              className={`p-0.5 rounded ${isPinned ? (isBlackAndWhite ? 'text-indigo-300' : 'text-indigo-600') : 'opacity-40 hover:opacity-100'}`}
+                                                          >
+                                                              <Pin className={`w-3.5 h-3.5 ${isPinned ? 'fill-current' : ''}`} />
+                                                          </button>
+                                                      )}
+                                                      {editable && <GripVertical className="w-3.5 h-3.5 text-current opacity-50 cursor-move" />}
                                                   </div>
                                               )}
                                             </div>
@@ -640,8 +1013,14 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                     <th className={`sticky-col w-48 shadow-lg z-30 text-left pl-4 ${isBlackAndWhite ? 'bg-slate-950 text-white border-b border-slate-700' : 'bg-gray-800 text-white'}`}>
                                         Personel
                                     </th>
+                                    {carriedDays.map(d => (
+                                        <th key={`carried-${d.day}`} className={`w-10 text-center px-1 opacity-40 ${isBlackAndWhite ? 'bg-slate-950 text-white border-b border-slate-700' : ''}`} title="Önceki aydan devralındı">
+                                            <div className="text-xs font-normal opacity-70">{new Date(year, month, d.day).toLocaleString('tr-TR', {weekday: 'short'})}</div>
+                                            <div className="text-sm font-bold">{carriedDayLabel(d.day)}</div>
+                                        </th>
+                                    ))}
                                     {result.schedule.map(d => (
-                                        <th key={d.day} className={`w-10 text-center px-1 ${isBlackAndWhite ? 'bg-slate-950 text-white border-b border-slate-700' : ''} ${d.isWeekend ? (isBlackAndWhite ? 'bg-slate-800' : 'bg-orange-500/20 text-white') : ''}`}>
+                                        <th key={d.day} className={`w-10 text-center px-1 ${isBlackAndWhite ? 'bg-slate-950 text-white border-b border-slate-700' : ''} ${d.holiday ? (isBlackAndWhite ? 'bg-rose-900/60' : 'bg-rose-500/40 text-white') : d.isWeekend ? (isBlackAndWhite ? 'bg-slate-800' : 'bg-orange-500/20 text-white') : ''}`} title={d.holiday ? `${d.holiday.name}${d.holiday.halfDay ? ' (yarım gün)' : ''}` : undefined}>
                                             <div className="text-xs font-normal opacity-70">{new Date(year, month, d.day).toLocaleString('tr-TR', {weekday: 'short'})}</div>
                                             <div className="text-sm font-bold">{d.day}</div>
                                         </th>
@@ -654,36 +1033,59 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                         <td className={`sticky-col p-2 border-r ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-slate-200' : 'border-gray-200'}`}>
                                             <div className="font-bold text-sm truncate flex items-center gap-1" title={person.name}>
                                                 {person.name}
-                                                {person.role === 1 && <Star className="w-3 h-3 text-amber-500 fill-amber-500 shrink-0" />}
+                                                {roles.isSenior(person.role) && <Star className="w-3 h-3 text-amber-500 fill-amber-500 shrink-0" />}
                                             </div>
                                             <div className="text-[10px] opacity-60 truncate">{person.unit}</div>
+                                            {renderHours(person.id)}
                                         </td>
+                                        {carriedDays.map(day => {
+                                            const worked = day.assignments.some(a => a.staffId === person.id);
+                                            return (
+                                                <td key={`carried-${day.day}`} className={`p-1 border-r border-b text-center align-middle ${isBlackAndWhite ? 'border-slate-800 bg-slate-950/40' : 'border-gray-100 bg-gray-100/70'}`}>
+                                                    {worked && <div className={`text-[10px] font-bold ${isBlackAndWhite ? 'text-slate-500' : 'text-gray-400'}`}>N</div>}
+                                                </td>
+                                            );
+                                        })}
                                         {result.schedule.map(day => {
                                             const assignment = day.assignments.find(a => a.staffId === person.id);
-                                            const isOff = person.offDays.includes(day.day);
-                                            const isRequested = person.requestedDays.includes(day.day);
+                                            const leaveType = leaveDaysByStaff.get(person.id)?.get(day.day);
+                                            const preference = getDayPreference(person, year, month, day.day);
+                                            const preferenceTitle = preference ? `${PREFERENCE_LEVELS[preference.level].label}${preference.level === 'must' || preference.level === 'prefer' ? ` (${PRIORITY_LABELS[preference.priority ?? DEFAULT_REQUEST_PRIORITY]} öncelik)` : ''}` : undefined;
                                             const isWeekend = day.isWeekend;
 
-                                            let cellClass = isBlackAndWhite ? "hover:bg-slate-800 cursor-pointer" : "hover:bg-gray-50 cursor-pointer";
+                                            // Sabitlenen atama veya kilitli gün elle değiştirilmez
+                                            const frozen = pinIndex.lockedDays.has(day.day) || (!!assignment && isFrozen(pinIndex, day.day, assignment.serviceId, assignment.staffId));
+                                            let cellClass = frozen ? "cursor-not-allowed" : isBlackAndWhite ? "hover:bg-slate-800 cursor-pointer" : "hover:bg-gray-50 cursor-pointer";
                                             let content = null;
 
                                             if (assignment) {
                                                 const serviceName = services.find(s => s.id === assignment.serviceId)?.name || '?';
                                                 const shortName = serviceName.length > 8 ? serviceName.substring(0, 6) + '..' : serviceName;
                                                 const bgColor = isBlackAndWhite ? 'bg-indigo-900/50 text-indigo-200 border-indigo-900' : 'bg-indigo-50 text-indigo-800 border-indigo-200';
+                                                // Kaçınılmak istenen güne yazıldıysa çerçeve ile işaretlenir
+                                                const conflictRing = preference?.level === 'unavailable' ? 'ring-2 ring-rose-500' : preference?.level === 'preferNot' ? 'ring-2 ring-amber-400' : '';
                                                 content = (
-                                                    <div className={`text-[10px] font-bold text-center py-1 px-0.5 rounded border leading-tight ${bgColor}`} title={serviceName}>
+                                                    <div className={`text-[10px] font-bold text-center py-1 px-0.5 rounded border leading-tight ${bgColor} ${conflictRing} ${frozen ? 'border-dashed' : ''}`} title={`${preferenceTitle ? `${serviceName} • ${preferenceTitle}` : serviceName}${frozen ? ' • Sabitlenmiş' : ''}`}>
                                                         {shortName}
                                                     </div>
                                                 );
-                                            } else if (isOff) {
-                                                content = <div className={`text-[10px] text-center font-bold opacity-40 ${isBlackAndWhite ? 'text-gray-500' : 'text-gray-400'}`}>İZİN</div>;
+                                            } else if (leaveType) {
+                                                const badge = LEAVE_BADGE_CLASSES[leaveType];
+                                                content = <div className={`text-[10px] text-center font-bold rounded border py-0.5 ${isBlackAndWhite ? badge.dark : badge.light}`} title={LEAVE_TYPES[leaveType].label}>{LEAVE_TYPES[leaveType].short}</div>;
                                                 cellClass += isBlackAndWhite ? " bg-slate-950/30" : " bg-gray-100/50";
-                                            } else if (isRequested) {
-                                                content = <div className={`w-2 h-2 rounded-full mx-auto ${isBlackAndWhite ? 'bg-blue-500' : 'bg-blue-400'}`} title="Nöbet İsteği"></div>
+                                            } else if (preference?.level === 'must') {
+                                                content = <div className={`w-2.5 h-2.5 rounded-full mx-auto ring-2 ring-offset-1 ${isBlackAndWhite ? 'bg-blue-500 ring-blue-300 ring-offset-slate-900' : 'bg-blue-600 ring-blue-300'}`} title={preferenceTitle}></div>
+                                            } else if (preference?.level === 'prefer') {
+                                                content = <div className={`w-2 h-2 rounded-full mx-auto ${isBlackAndWhite ? 'bg-blue-500' : 'bg-blue-400'}`} title={preferenceTitle}></div>
+                                            } else if (preference?.level === 'preferNot') {
+                                                content = <div className={`text-[10px] text-center font-bold ${isBlackAndWhite ? 'text-amber-300' : 'text-amber-500'}`} title={preferenceTitle}>{PREFERENCE_LEVELS.preferNot.short}</div>
+                                            } else if (preference?.level === 'unavailable') {
+                                                content = <div className={`text-[10px] text-center font-bold opacity-50 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`} title={preferenceTitle}>{PREFERENCE_LEVELS.unavailable.short}</div>
                                             }
 
-                                            if (isWeekend) {
+                                            if (day.holiday) {
+                                                cellClass += isBlackAndWhite ? " bg-rose-900/20" : " bg-rose-50/60";
+                                            } else if (isWeekend) {
                                                 cellClass += isBlackAndWhite ? " bg-slate-800/30" : " bg-orange-50/30";
                                             }
 
@@ -691,7 +1093,7 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                                 <td 
                                                     key={day.day} 
                                                     className={`p-1 border-r border-b text-center align-middle transition-colors ${isBlackAndWhite ? 'border-slate-800' : 'border-gray-100'} ${cellClass}`}
-                                                    onClick={() => !isReadOnly && setEditingStaffSlot({ day: day.day, staffId: person.id })}
+                                                    onClick={() => !isReadOnly && !frozen && setEditingStaffSlot({ day: day.day, staffId: person.id })}
                                                 >
                                                     {content}
                                                 </td>
@@ -718,10 +1120,19 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                         {/* Header */}
                         <div className={`p-4 flex justify-between items-center shrink-0 ${dropdownHeaderClasses}`}>
                              <div>
-                                <h3 className="font-bold text-sm">Nöbet Değiştir</h3>
+                                <h3 className="font-bold text-sm">{showReplacements ? 'Acil Yedek Bul' : 'Nöbet Değiştir'}</h3>
                                 <div className="text-[11px] opacity-70 uppercase tracking-wide font-medium mt-0.5">{editingSlot.day} {new Date(year, month, editingSlot.day).toLocaleString('tr-TR', {month:'long'})}</div>
                              </div>
-                             <button onClick={() => setEditingSlot(null)} className="p-1.5 rounded-full hover:bg-black/10 transition-colors"><X className="w-4 h-4" /></button>
+                             <div className="flex items-center gap-1">
+                                 <button
+                                    onClick={() => setShowReplacements(!showReplacements)}
+                                    className={`px-2 py-1 rounded-lg text-[11px] font-bold flex items-center gap-1 transition-colors ${showReplacements ? 'bg-indigo-600 text-white' : 'hover:bg-black/10'}`}
+                                    title="Herkesi motorun puanı ve kurallarıyla sırala"
+                                 >
+                                    <UserSearch className="w-3.5 h-3.5" /> Yedek Bul
+                                 </button>
+                                 <button onClick={() => setEditingSlot(null)} className="p-1.5 rounded-full hover:bg-black/10 transition-colors"><X className="w-4 h-4" /></button>
+                             </div>
                         </div>
                         
                         {/* Search Bar */}
@@ -752,11 +1163,48 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                     </span>
                                 </button>
                                 
-                                {getAvailableStaffForEdit().length === 0 && (
+                                {showReplacements && getFilteredReplacements().length === 0 && (
+                                    <div className="text-gray-500 text-xs text-center py-6">Personel bulunamadı.</div>
+                                )}
+
+                                {showReplacements && getFilteredReplacements().map(c => {
+                                    const person = staff.find(s => s.id === c.staffId);
+                                    const warnings = c.ruleIds.filter(id => !(c.overtime && id === 'quota'));
+                                    return (
+                                        <button
+                                            key={c.staffId}
+                                            onClick={() => handleUpdateAssignment(c.staffId)}
+                                            className={`w-full px-3 py-2.5 text-left rounded-lg flex justify-between items-start gap-2 transition-all group ${dropdownItemClasses(false)}`}
+                                        >
+                                            <div className="flex flex-col min-w-0">
+                                                <span className={`text-sm font-semibold flex items-center gap-1 ${isBlackAndWhite ? 'text-slate-200' : 'text-gray-700'}`}>
+                                                    {person?.name || c.staffId}
+                                                    {person && roles.isSenior(person.role) && <Star className="w-3 h-3 text-amber-500 fill-amber-500" />}
+                                                </span>
+                                                <div className="flex flex-wrap items-center gap-1 mt-1">
+                                                    {warnings.length === 0 && !c.overtime && (
+                                                        <span className="text-[10px] px-1.5 rounded bg-emerald-500/10 text-emerald-600 font-bold">Kural engeli yok</span>
+                                                    )}
+                                                    {c.overtime && (
+                                                        <span className="text-[10px] px-1.5 rounded bg-amber-500/10 text-amber-600 font-bold">Fazla mesai (gönüllü)</span>
+                                                    )}
+                                                    {warnings.map(id => (
+                                                        <span key={id} className="text-[10px] px-1.5 rounded bg-rose-500/10 text-rose-500 font-bold flex items-center gap-0.5">
+                                                            <AlertTriangle className="w-3 h-3" /> {getRuleDefinition(id)?.name || id}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            <span className={`text-[11px] font-mono shrink-0 ${isBlackAndWhite ? 'text-slate-400' : 'text-gray-500'}`} title="Motor puanı (titreşimsiz)">{c.score}</span>
+                                        </button>
+                                    );
+                                })}
+
+                                {!showReplacements && getAvailableStaffForEdit().length === 0 && (
                                     <div className="text-gray-500 text-xs text-center py-6">Uygun personel bulunamadı.</div>
                                 )}
 
-                                {getAvailableStaffForEdit().map(s => {
+                                {!showReplacements && getAvailableStaffForEdit().map(s => {
                                     const isActive = s.id === editingSlot.currentStaffId;
                                     return (
                                         <button 
@@ -767,10 +1215,10 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                             <div className="flex flex-col">
                                                 <span className={`text-sm font-semibold flex items-center gap-1 ${isActive ? (isBlackAndWhite ? 'text-indigo-100' : 'text-indigo-800') : (isBlackAndWhite ? 'text-slate-200' : 'text-gray-700')}`}>
                                                     {s.name}
-                                                    {s.role === 1 && <Star className="w-3 h-3 text-amber-500 fill-amber-500" />}
+                                                    {roles.isSenior(s.role) && <Star className="w-3 h-3 text-amber-500 fill-amber-500" />}
                                                 </span>
                                                 <div className="flex items-center gap-2 mt-0.5">
-                                                     <span className={`text-[10px] px-1.5 rounded border ${isBlackAndWhite ? 'border-slate-600 text-slate-400' : 'border-gray-200 text-gray-500'}`}>KD: {s.role}</span>
+                                                     <span className={`text-[10px] px-1.5 rounded border ${isBlackAndWhite ? 'border-slate-600 text-slate-400' : 'border-gray-200 text-gray-500'}`}>KD: {roles.getName(s.role)}</span>
                                                 </div>
                                             </div>
                                             <div className="flex items-center gap-3">
@@ -856,7 +1304,7 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                                     <div key={s.id} className={`flex justify-between items-center p-3 border rounded-xl transition-colors ${isBlackAndWhite ? 'border-slate-700 hover:bg-slate-800' : 'border-gray-200 hover:bg-gray-50'}`}>
                                         <div className="font-bold text-sm truncate mr-2 flex items-center gap-1">
                                             {s.name}
-                                            {s.role === 1 && <Star className="w-3 h-3 text-amber-500 fill-amber-500" />}
+                                            {roles.isSenior(s.role) && <Star className="w-3 h-3 text-amber-500 fill-amber-500" />}
                                         </div>
                                         <div className="flex gap-2">
                                             {/* Button bileşeni 'title' prop'unu desteklemediği için kapsayıcı div'e 'title' verildi */}
@@ -878,6 +1326,20 @@ export const ScheduleViewer: React.FC<ScheduleViewerProps> = ({ result, setResul
                     </div>
                 </div>
             )}
+
+            {/* EXPLAIN-WHY MODAL */}
+            {traceSlot && (
+                <AssignmentTraceModal
+                    slot={traceSlot}
+                    trace={result.traces?.find(t => t.day === traceSlot.day && t.serviceId === traceSlot.serviceId && t.staffId === traceSlot.staffId)}
+                    services={services}
+                    staff={staff}
+                    year={year}
+                    month={month}
+                    isBlackAndWhite={isBlackAndWhite}
+                    onClose={() => setTraceSlot(null)}
+                />
+            )}
         </div>
     );
 };
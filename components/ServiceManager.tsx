@@ -1,10 +1,15 @@
 
 
 import React, { useState, useMemo } from 'react';
-import { Service, Staff, UnitConstraint } from '../types';
+import { RoleCompositionRule, RoleConfig, Service, Staff, StaffingLevel, StaffingPlan, UnitConstraint } from '../types';
 import { Card, Button, Badge, MultiSelect } from './ui';
 import { ICONS } from '../constants';
-import { GripVertical, Calendar, Check, X, Target, Pencil } from 'lucide-react';
+import { createCompositionRuleId, describeCompositionRule } from '../services/composition';
+import { hasPlanEntries } from '../services/staffing';
+import { getRoleHierarchy } from '../services/roles';
+import { DEFAULT_SHIFT_HOURS, formatHours } from '../services/hours';
+import { StaffingPlanEditor } from './StaffingPlanEditor';
+import { GripVertical, Calendar, Check, X, Target, Pencil, Plus, Trash2 } from 'lucide-react';
 
 interface ServiceManagerProps {
     services: Service[];
@@ -15,6 +20,9 @@ interface ServiceManagerProps {
     setUnitConstraints?: React.Dispatch<React.SetStateAction<UnitConstraint[]>>;
     dailyTotalTarget?: number;
     setDailyTotalTarget?: React.Dispatch<React.SetStateAction<number>>;
+    dailyTotalTargetPlan?: StaffingPlan<number>;
+    setDailyTotalTargetPlan?: (plan: StaffingPlan<number> | undefined) => void;
+    roleConfigs?: Record<number, RoleConfig>;
     customSpecialties: string[];
 }
 
@@ -22,6 +30,8 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
     services, setServices, staff, isBlackAndWhite,
     unitConstraints = [], setUnitConstraints,
     dailyTotalTarget, setDailyTotalTarget,
+    dailyTotalTargetPlan, setDailyTotalTargetPlan,
+    roleConfigs,
     customSpecialties
 }) => {
     const [newService, setNewService] = useState<Partial<Service>>({ 
@@ -29,6 +39,7 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
     });
 
     const [editingService, setEditingService] = useState<Service | null>(null);
+    const roleHierarchy = getRoleHierarchy(roleConfigs);
 
     const [draggedServiceId, setDraggedServiceId] = useState<string | null>(null);
     
@@ -52,9 +63,30 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
         setNewService({ name: '', minDailyCount: 1, maxDailyCount: 1, allowedUnits: [] });
     };
 
+    const updateCompositionRule = (ruleId: string, patch: Partial<RoleCompositionRule>) => {
+        if (!editingService) return;
+        setEditingService({ ...editingService, composition: (editingService.composition || []).map(r => r.id === ruleId ? { ...r, ...patch } : r) });
+    };
+
+    const parseLimit = (raw: string) => raw === '' ? undefined : Math.max(0, parseInt(raw) || 0);
+
+    // Kart özeti: "Paz 1-1, Bayram 0-0, +2 tarih"
+    const describeStaffing = (service: Service): string => {
+        const plan = service.staffing || {};
+        const parts = [1, 2, 3, 4, 5, 6, 0]
+            .filter(d => plan.weekdays?.[d] !== undefined)
+            .map(d => `${days[d]} ${plan.weekdays![d]!.min}-${plan.weekdays![d]!.max}`);
+        if (plan.holiday) parts.push(`Bayram ${plan.holiday.min}-${plan.holiday.max}`);
+        const dateCount = Object.keys(plan.dates || {}).length;
+        if (dateCount > 0) parts.push(`+${dateCount} tarih`);
+        return parts.join(', ');
+    };
+
     const handleUpdateService = () => {
         if (!editingService || !editingService.name) return;
-        setServices(services.map(s => s.id === editingService.id ? editingService : s));
+        const composition = (editingService.composition || []).filter(r => r.roles.length > 0 && (r.min !== undefined || r.max !== undefined));
+        const updated = { ...editingService, composition: composition.length > 0 ? composition : undefined };
+        setServices(services.map(s => s.id === editingService.id ? updated : s));
         setEditingService(null);
     };
 
@@ -145,6 +177,36 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
     
     const days = ['Paz', 'Pzt', 'Sal', 'Çar', 'Per', 'Cum', 'Cmt'];
 
+    const planInputClass = `w-12 p-1 border rounded text-center text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500 ${
+        isBlackAndWhite ? '!bg-slate-900 !border-slate-700 text-white placeholder-slate-600' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-300'
+    }`;
+    const parseCount = (raw: string) => raw === '' ? undefined : Math.max(0, parseInt(raw) || 0);
+
+    const renderCountInput = (value: number | undefined, setValue: (v: number | undefined) => void, placeholder: number) => (
+        <input type="number" min={0} value={value ?? ''} placeholder={String(placeholder)} onChange={e => setValue(parseCount(e.target.value))} className={planInputClass} />
+    );
+
+    // Min veya max boşaltılırsa o günün değeri kaldırılır
+    const renderLevelInputs = (value: StaffingLevel | undefined, setValue: (v: StaffingLevel | undefined) => void, placeholder: StaffingLevel) => (
+        <div className="flex flex-col gap-0.5">
+            {(['min', 'max'] as (keyof StaffingLevel)[]).map(field => (
+                <input
+                    key={field}
+                    type="number"
+                    min={0}
+                    value={value?.[field] ?? ''}
+                    placeholder={String(placeholder[field])}
+                    title={field === 'min' ? 'Min' : 'Max'}
+                    onChange={e => {
+                        const n = parseCount(e.target.value);
+                        setValue(n === undefined ? undefined : { ...(value ?? placeholder), [field]: n });
+                    }}
+                    className={planInputClass}
+                />
+            ))}
+        </div>
+    );
+
     return (
         <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
              <div className={`flex justify-between items-end p-6 rounded-xl border shadow-sm transition-colors ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800' : 'bg-white border-gray-200'}`}>
@@ -182,6 +244,17 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
                             <div className={`text-[10px] ${isBlackAndWhite ? 'text-gray-500' : 'text-gray-400'}`}>Örn: 6 kişi</div>
                         </div>
                     </div>
+                    {setDailyTotalTargetPlan && (
+                        <div className={`mt-4 pt-4 border-t ${isBlackAndWhite ? 'border-slate-800' : 'border-gray-100'}`}>
+                            <StaffingPlanEditor
+                                plan={dailyTotalTargetPlan}
+                                onChange={setDailyTotalTargetPlan}
+                                fallback={dailyTotalTarget ?? 0}
+                                renderInputs={renderCountInput}
+                                isBlackAndWhite={isBlackAndWhite}
+                            />
+                        </div>
+                    )}
                 </Card>
             )}
             
@@ -295,9 +368,18 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
                       </div>
                       <div className={`space-y-2 text-sm mt-4 p-3 rounded-lg ml-6 ${isBlackAndWhite ? '!bg-slate-800 text-gray-300' : 'bg-gray-50 text-gray-600'}`}>
                          <div className="flex justify-between items-center"><span className={`text-xs font-semibold uppercase tracking-wide ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-400'}`}>Kişi Sayısı</span><span className={`font-bold px-2 py-0.5 rounded shadow-sm border ${isBlackAndWhite ? 'bg-slate-700 border-slate-600 text-white' : 'bg-white text-gray-900 border-gray-200'}`}>{s.minDailyCount}-{s.maxDailyCount}</span></div>
+                         {s.shiftHours !== undefined && s.shiftHours !== DEFAULT_SHIFT_HOURS && (
+                            <div className="flex justify-between items-center"><span className={`text-xs font-semibold uppercase tracking-wide ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-400'}`}>Nöbet Süresi</span><span className="font-bold text-xs">{formatHours(s.shiftHours)}</span></div>
+                         )}
                          {s.allowedUnits && s.allowedUnits.length > 0 && (
                             <div className="flex justify-between items-start"><span className={`text-xs font-semibold uppercase tracking-wide mt-0.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-400'}`}>Branşlar</span><span className="font-mono text-xs text-right max-w-[120px]">{s.allowedUnits.join(', ')}</span></div>
                          )}
+                         {hasPlanEntries(s.staffing) && (
+                            <div className="flex justify-between items-start"><span className={`text-xs font-semibold uppercase tracking-wide mt-0.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-400'}`}>Gün Bazlı</span><span className="text-xs text-right max-w-[150px]">{describeStaffing(s)}</span></div>
+                         )}
+                         {s.composition && s.composition.length > 0 && (
+                            <div className="flex justify-between items-start"><span className={`text-xs font-semibold uppercase tracking-wide mt-0.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-400'}`}>Kıdem</span><span className="text-xs text-right max-w-[150px] space-y-0.5">{s.composition.map(r => <div key={r.id}>{describeCompositionRule(r)}</div>)}</span></div>
+                         )}
                       </div>
                     </Card>
                 </div>
@@ -307,7 +389,7 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
             {/* EDIT SERVICE MODAL */}
             {editingService && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
-                    <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-scale-in border ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+                    <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-scale-in border ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
                         <div className={`p-4 border-b flex justify-between items-center ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
                             <h3 className="font-bold text-lg">Servis Düzenle</h3>
                             <button onClick={() => setEditingService(null)} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
@@ -327,10 +409,63 @@ export const ServiceManager: React.FC<ServiceManagerProps> = ({
                                     <input type="number" value={editingService.maxDailyCount} onChange={e => setEditingService({...editingService, maxDailyCount: parseInt(e.target.value)})} className={inputClass} />
                                 </div>
                             </div>
+                            <div>
+                                <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Nöbet Süresi (Saat)</label>
+                                <input type="number" min="1" max="24" value={editingService.shiftHours ?? ''} onChange={e => setEditingService({...editingService, shiftHours: e.target.value === '' ? undefined : Math.min(24, Math.max(1, parseFloat(e.target.value) || DEFAULT_SHIFT_HOURS))})} className={inputClass} placeholder={`${DEFAULT_SHIFT_HOURS}`} />
+                            </div>
                             <div className="space-y-1">
                                 <label className={`block text-xs font-bold uppercase tracking-wide ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Zorunlu Branşlar</label>
                                 <MultiSelect label="Tüm Branşlar" options={uniqueStaffUnits} selected={editingService.allowedUnits || []} onChange={(vals) => setEditingService({...editingService, allowedUnits: vals})} />
                             </div>
+                            <div className="space-y-2">
+                                <label className={`block text-xs font-bold uppercase tracking-wide ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Gün Bazlı Kişi Sayısı (Min / Max)</label>
+                                <StaffingPlanEditor
+                                    plan={editingService.staffing}
+                                    onChange={staffing => setEditingService({ ...editingService, staffing })}
+                                    fallback={{ min: editingService.minDailyCount, max: editingService.maxDailyCount }}
+                                    renderInputs={renderLevelInputs}
+                                    isBlackAndWhite={isBlackAndWhite}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <label className={`block text-xs font-bold uppercase tracking-wide ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Kıdem Kompozisyonu</label>
+                                    <button
+                                        onClick={() => setEditingService({ ...editingService, composition: [...(editingService.composition || []), { id: createCompositionRuleId(), roles: roleHierarchy.roles.filter(r => !roleHierarchy.isJunior(r.role)).map(r => r.role), min: 1 }] })}
+                                        className="text-xs font-bold text-indigo-500 hover:text-indigo-400 flex items-center gap-1"
+                                    >
+                                        <Plus className="w-3.5 h-3.5" /> Kural Ekle
+                                    </button>
+                                </div>
+                                <p className={`text-xs ${isBlackAndWhite ? 'text-gray-500' : 'text-gray-400'}`}>Seçilen rollerden servisin günlük ekibinde en az / en fazla kaç kişi olacağı. Boş bırakılan sınır yoktur.</p>
+                                {(editingService.composition || []).map(rule => (
+                                    <div key={rule.id} className={`flex items-center gap-2 p-2 rounded-lg border ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-gray-50'}`}>
+                                        <div className="flex gap-1">
+                                            {roleHierarchy.roles.map(({ role }) => {
+                                                const active = rule.roles.includes(role);
+                                                return (
+                                                    <button
+                                                        key={role}
+                                                        onClick={() => updateCompositionRule(rule.id, { roles: active ? rule.roles.filter(r => r !== role) : [...rule.roles, role] })}
+                                                        className={`w-8 h-8 rounded-md text-xs font-bold border ${active ? 'bg-indigo-600 text-white border-indigo-700' : (isBlackAndWhite ? 'border-slate-600 text-gray-400' : 'border-gray-300 text-gray-500 bg-white')}`}
+                                                        title={roleHierarchy.getName(role)}
+                                                    >
+                                                        R{role}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                        <input type="number" min={0} value={rule.min ?? ''} onChange={e => updateCompositionRule(rule.id, { min: parseLimit(e.target.value) })} className={`w-20 ${smallInputClass}`} placeholder="En az" />
+                                        <input type="number" min={0} value={rule.max ?? ''} onChange={e => updateCompositionRule(rule.id, { max: parseLimit(e.target.value) })} className={`w-20 ${smallInputClass}`} placeholder="En fazla" />
+                                        <button
+                                            onClick={() => setEditingService({ ...editingService, composition: (editingService.composition || []).filter(r => r.id !== rule.id) })}
+                                            className="p-1 ml-auto rounded hover:bg-rose-500/10 text-rose-500"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
                         </div>
                         <div className={`p-4 border-t flex justify-end gap-3 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
                             <Button variant="ghost" onClick={() => setEditingService(null)} className={isBlackAndWhite ? 'text-gray-400 hover:text-white' : ''}>İptal</Button>
@@ -1,7 +1,14 @@
 
 import React, { useState, useRef, useMemo } from 'react';
-import { Staff, RoleConfig, Specialty, Preset } from '../types';
+import { Staff, RoleConfig, Specialty, Preset, LeaveRecord, DayPreference, PairConstraint } from '../types';
 import { Card, Button, DateSelectModal } from './ui';
+import { LeaveRecordsModal } from './LeaveRecordsModal';
+import { PairConstraintsPanel } from './PairConstraintsPanel';
+import { RoleHierarchyPanel } from './RoleHierarchyPanel';
+import { formatRoleLabel, getRoleHierarchy } from '../services/roles';
+import { formatHours, getTargetHours, hasHoursContract } from '../services/hours';
+import { getMonthLeaveDays, LEAVE_TYPES } from '../services/leave';
+import { getMonthPreferences, replaceMonthPreferences } from '../services/preferences';
 import { RefreshCw, FileJson, Upload, CheckCircle2, Circle, Stethoscope, DoorOpen, Layers, X, UserPlus, Trash2, Users, AlertCircle, Star, Pencil, Settings2, Plus, LayoutTemplate, Save } from 'lucide-react';
 import { importFromJSON } from '../services/backupService';
 
@@ -17,11 +24,15 @@ interface StaffManagerProps {
     handleExportBackup: () => void;
     isBlackAndWhite: boolean;
     daysInMonth: number;
+    year: number;
+    month: number;
     // Dynamic Metadata
     customUnits: string[];
     setCustomUnits: React.Dispatch<React.SetStateAction<string[]>>;
     customSpecialties: string[];
     setCustomSpecialties: React.Dispatch<React.SetStateAction<string[]>>;
+    pairConstraints: PairConstraint[];
+    setPairConstraints: React.Dispatch<React.SetStateAction<PairConstraint[]>>;
     
     // Preset Management
     onLoadPreset: (preset: Preset) => void;
@@ -33,8 +44,9 @@ interface StaffManagerProps {
 export const StaffManager: React.FC<StaffManagerProps> = ({
     staff, setStaff, roleConfigs, setRoleConfigs,
     handleResetData, handleFileUpload, generateTemplate,
-    handleImportBackup, handleExportBackup, isBlackAndWhite, daysInMonth,
+    handleImportBackup, handleExportBackup, isBlackAndWhite, daysInMonth, year, month,
     customUnits, setCustomUnits, customSpecialties, setCustomSpecialties,
+    pairConstraints, setPairConstraints,
     onLoadPreset, savedPresets, onAddPreset, onDeletePreset
 }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -42,10 +54,14 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
     const presetFileInputRef = useRef<HTMLInputElement>(null);
     
     const [newStaff, setNewStaff] = useState<Partial<Staff>>({ 
-        name: '', role: 2, unit: customUnits[0] || 'Genel Cerrahi', specialty: 'none', room: '', quotaService: 2, weekendLimit: 1, offDays: [], requestedDays: [], isActive: true
+        name: '', role: 2, unit: customUnits[0] || 'Genel Cerrahi', specialty: 'none', room: '', quotaService: 2, weekendLimit: 1, leaves: [], dayPreferences: [], isActive: true
     });
 
     const [dateModal, setDateModal] = useState<{ isOpen: boolean, staffId: string, type: 'off' | 'request' } | null>(null);
+    const leavePerson = dateModal?.type === 'off' ? staff.find(s => s.id === dateModal.staffId) : undefined;
+    const requestPerson = dateModal?.type === 'request' ? staff.find(s => s.id === dateModal.staffId) : undefined;
+    // Modal kendi taslağını bu dizi değişince sıfırlar: her render'da yeni dizi üretilmemeli
+    const requestPreferences = useMemo(() => requestPerson ? getMonthPreferences(requestPerson, year, month) : [], [requestPerson, year, month]);
 
     // Editing State
     const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
@@ -54,6 +70,9 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
     const [showBulkModal, setShowBulkModal] = useState(false);
     const [bulkUnit, setBulkUnit] = useState<string>('ALL'); // Default to ALL
     const [bulkRole, setBulkRole] = useState<string>('ALL'); // Default to ALL
+
+    const roleHierarchy = getRoleHierarchy(roleConfigs);
+    const roleOptions = roleHierarchy.roles;
     const [bulkQuota, setBulkQuota] = useState<string>('2'); 
     const [bulkWeekend, setBulkWeekend] = useState<string>('1'); 
     
@@ -84,7 +103,7 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
     const handleAddStaff = () => {
         if (!newStaff.name) return;
         setStaff(prev => [...prev, { ...newStaff, id: Date.now().toString(), isActive: true } as Staff]);
-        setNewStaff({ name: '', role: 2, unit: customUnits[0] || 'Genel Cerrahi', specialty: 'none', room: '', quotaService: 2, weekendLimit: 1, offDays: [], requestedDays: [], isActive: true });
+        setNewStaff({ name: '', role: 2, unit: customUnits[0] || 'Genel Cerrahi', specialty: 'none', room: '', quotaService: 2, weekendLimit: 1, leaves: [], dayPreferences: [], isActive: true });
     };
 
     const handleDeleteStaff = (e: React.MouseEvent, id: string) => {
@@ -92,6 +111,7 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
         e.stopPropagation();
         if(window.confirm("Bu personeli silmek istediğinize emin misiniz?")) {
             setStaff(prev => prev.filter(s => s.id !== id));
+            setPairConstraints(prev => prev.filter(c => c.staffA !== id && c.staffB !== id));
         }
     };
     
@@ -116,14 +136,14 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
         setDateModal({ isOpen: true, staffId, type });
     };
 
-    const handleDateSave = (days: number[]) => {
+    const handleDateSave = (dayPreferences: DayPreference[]) => {
         if (!dateModal) return;
-        setStaff(prev => prev.map(s => {
-            if (s.id === dateModal.staffId) {
-                return dateModal.type === 'off' ? { ...s, offDays: days } : { ...s, requestedDays: days };
-            }
-            return s;
-        }));
+        setStaff(prev => prev.map(s => s.id === dateModal.staffId ? { ...s, dayPreferences: replaceMonthPreferences(s, year, month, dayPreferences) } : s));
+    };
+
+    const handleLeavesChange = (leaves: LeaveRecord[]) => {
+        if (!dateModal) return;
+        setStaff(prev => prev.map(s => s.id === dateModal.staffId ? { ...s, leaves } : s));
     };
     
     // Metadata Management Handlers
@@ -232,7 +252,12 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
                     customUnits: data.customUnits || [],
                     customSpecialties: data.customSpecialties || [],
                     dailyTotalTarget: data.config.dailyTotalTarget || 6,
-                    unitConstraints: data.unitConstraints || []
+                    dailyTotalTargetPlan: data.config.dailyTotalTargetPlan,
+                    unitConstraints: data.unitConstraints || [],
+                    weightProfile: data.weightProfile,
+                    ruleSettings: data.ruleSettings,
+                    pairConstraints: data.pairConstraints,
+                    restRules: data.restRules
                 };
 
                 onAddPreset(newPreset);
@@ -323,9 +348,7 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
                     <div className="md:col-span-2">
                          <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>KIDEM</label>
                          <select value={newStaff.role} onChange={e => setNewStaff({...newStaff, role: parseInt(e.target.value)})} className={inputClass}>
-                            <option value={1}>1 - Kıdemli</option>
-                            <option value={2}>2 - Tecrübeli</option>
-                            <option value={3}>3 - Yeni/Çömez</option>
+                            {roleOptions.map(r => <option key={r.role} value={r.role}>{formatRoleLabel(roleHierarchy, r.role)}</option>)}
                         </select>
                     </div>
                     <div className="md:col-span-2">
@@ -434,30 +457,77 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
                                  <div className={`font-bold ${person.isActive !== false ? 'text-rose-500' : 'text-gray-400'}`}>{person.weekendLimit}</div>
                                  <div className="opacity-60">HS Limit</div>
                              </div>
+                             {person.holidayLimit !== undefined && (
+                                 <div className="col-span-2 opacity-70">Bayram Limit: <span className="font-bold">{person.holidayLimit}</span></div>
+                             )}
+                             {(person.quotaMin !== undefined || person.quotaMax !== undefined) && (
+                                 <div className="col-span-2 opacity-70">Min-Max: <span className="font-bold">{person.quotaMin ?? '-'} / {person.quotaMax ?? '-'}</span></div>
+                             )}
+                             {person.overtimeVolunteer && (
+                                 <div className="col-span-2 opacity-70">Fazla mesaiye gönüllü</div>
+                             )}
+                             {hasHoursContract(person) && (
+                                 <div className="col-span-2 opacity-70">
+                                     Saat Hedefi: <span className="font-bold">{formatHours(getTargetHours(person))}</span>
+                                     {person.contractHours === undefined && person.fte !== undefined && <span> (%{Math.round(person.fte * 100)})</span>}
+                                 </div>
+                             )}
                         </div>
 
                         <div className="flex gap-2">
                              <Button variant="secondary" onClick={() => openDateModal(person.id, 'off')} disabled={person.isActive === false} className={`flex-1 text-xs h-8 ${isBlackAndWhite ? '!bg-slate-700 !border-slate-600 text-white hover:!bg-slate-600' : ''}`}>
-                                 İzin ({person.offDays.length})
+                                 İzin ({getMonthLeaveDays(person, year, month).size})
                              </Button>
                              <Button variant="secondary" onClick={() => openDateModal(person.id, 'request')} disabled={person.isActive === false} className={`flex-1 text-xs h-8 ${isBlackAndWhite ? '!bg-slate-700 !border-slate-600 text-white hover:!bg-slate-600' : ''}`}>
-                                 İstek ({person.requestedDays.length})
+                                 Tercih ({getMonthPreferences(person, year, month).length})
                              </Button>
                         </div>
                     </Card>
                 ))}
             </div>
 
+            {/* Role Hierarchy */}
+            <RoleHierarchyPanel
+                staff={staff}
+                roleConfigs={roleConfigs}
+                setRoleConfigs={setRoleConfigs}
+                isBlackAndWhite={isBlackAndWhite}
+            />
+
+            {/* Pair Constraints */}
+            {staff.length > 1 && (
+                <PairConstraintsPanel
+                    staff={staff}
+                    pairConstraints={pairConstraints}
+                    setPairConstraints={setPairConstraints}
+                    isBlackAndWhite={isBlackAndWhite}
+                />
+            )}
+
             {/* Date Select Modal */}
-            {dateModal && (
+            {requestPerson && (
                 <DateSelectModal
-                    isOpen={dateModal.isOpen}
+                    isOpen={dateModal!.isOpen}
                     onClose={() => setDateModal(null)}
-                    title={dateModal.type === 'off' ? 'İzinli Günleri Seçin' : 'Nöbet İsteği Seçin'}
-                    selectedDays={staff.find(s => s.id === dateModal.staffId)?.[dateModal.type === 'off' ? 'offDays' : 'requestedDays'] || []}
+                    title={`${requestPerson.name} - Gün Tercihleri`}
+                    preferences={requestPreferences}
                     onSave={handleDateSave}
+                    year={year}
+                    month={month}
                     daysInMonth={daysInMonth}
-                    color={dateModal.type === 'off' ? 'red' : 'green'}
+                    lockedDays={new Map(Array.from(getMonthLeaveDays(requestPerson, year, month)).map(([day, type]) => [day, LEAVE_TYPES[type].short]))}
+                />
+            )}
+
+            {/* Leave Records Modal */}
+            {leavePerson && (
+                <LeaveRecordsModal
+                    person={leavePerson}
+                    year={year}
+                    month={month}
+                    isBlackAndWhite={isBlackAndWhite}
+                    onClose={() => setDateModal(null)}
+                    onChange={handleLeavesChange}
                 />
             )}
 
@@ -643,9 +713,7 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
                                 <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Hangi Kıdem?</label>
                                 <select value={bulkRole} onChange={e => setBulkRole(e.target.value)} className={inputClass}>
                                     <option value="ALL">TÜM KIDEMLER</option>
-                                    <option value="1">1 - Kıdemli</option>
-                                    <option value="2">2 - Tecrübeli</option>
-                                    <option value="3">3 - Yeni/Çömez</option>
+                                    {roleOptions.map(r => <option key={r.role} value={String(r.role)}>{formatRoleLabel(roleHierarchy, r.role)}</option>)}
                                 </select>
                                 <div className={`text-xs mt-2 p-2 rounded ${isBlackAndWhite ? 'bg-blue-900/30 text-blue-200' : 'bg-blue-50 text-blue-700'}`}>
                                     Bu seçim <b>{affectedCount}</b> personeli etkileyecek.
@@ -695,9 +763,7 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
                                 <div>
                                     <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Kıdem</label>
                                     <select value={editingStaff.role} onChange={e => setEditingStaff({...editingStaff, role: parseInt(e.target.value)})} className={inputClass}>
-                                        <option value={1}>1 - Kıdemli</option>
-                                        <option value={2}>2 - Tecrübeli</option>
-                                        <option value={3}>3 - Yeni/Çömez</option>
+                                        {roleOptions.map(r => <option key={r.role} value={r.role}>{formatRoleLabel(roleHierarchy, r.role)}</option>)}
                                     </select>
                                 </div>
                                 <div className="col-span-2">
@@ -715,6 +781,33 @@ export const StaffManager: React.FC<StaffManagerProps> = ({
                                     <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Haftasonu Limit</label>
                                     <input type="number" value={editingStaff.weekendLimit} onChange={e => setEditingStaff({...editingStaff, weekendLimit: parseInt(e.target.value) || 0})} className={inputClass} />
                                 </div>
+                                <div className="col-span-2">
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Bayram/Tatil Limiti</label>
+                                    <input type="number" min="0" value={editingStaff.holidayLimit ?? ''} onChange={e => setEditingStaff({...editingStaff, holidayLimit: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)})} className={inputClass} placeholder="Sınırsız" />
+                                </div>
+                                <div>
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>En Az Nöbet</label>
+                                    <input type="number" min="0" value={editingStaff.quotaMin ?? ''} onChange={e => setEditingStaff({...editingStaff, quotaMin: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)})} className={inputClass} placeholder={roleHierarchy.byRole.get(editingStaff.role)?.quotaMin !== undefined ? `Rol: ${roleHierarchy.byRole.get(editingStaff.role)!.quotaMin}` : 'Yok'} />
+                                </div>
+                                <div>
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>En Fazla Nöbet</label>
+                                    <input type="number" min="0" value={editingStaff.quotaMax ?? ''} onChange={e => setEditingStaff({...editingStaff, quotaMax: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)})} className={inputClass} placeholder={roleHierarchy.byRole.get(editingStaff.role)?.quotaMax !== undefined ? `Rol: ${roleHierarchy.byRole.get(editingStaff.role)!.quotaMax}` : 'Hedef'} />
+                                </div>
+                                <div>
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Sözleşme Saati (Aylık)</label>
+                                    <input type="number" min="0" value={editingStaff.contractHours ?? ''} onChange={e => setEditingStaff({...editingStaff, contractHours: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)})} className={inputClass} placeholder={`${getTargetHours({ ...editingStaff, contractHours: undefined })}`} />
+                                </div>
+                                <div>
+                                    <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Çalışma Oranı (FTE)</label>
+                                    <input type="number" min="0" max="1" step="0.1" value={editingStaff.fte ?? ''} onChange={e => setEditingStaff({...editingStaff, fte: e.target.value === '' ? undefined : Math.min(1, Math.max(0, parseFloat(e.target.value) || 0))})} className={inputClass} placeholder="1 (tam zamanlı)" />
+                                </div>
+                                <label className={`col-span-2 flex items-center gap-2 text-xs font-bold cursor-pointer ${isBlackAndWhite ? 'text-gray-300' : 'text-gray-600'}`}>
+                                    <input type="checkbox" checked={!!editingStaff.overtimeVolunteer} onChange={e => setEditingStaff({...editingStaff, overtimeVolunteer: e.target.checked || undefined})} className="w-4 h-4 accent-indigo-600" />
+                                    Fazla mesaiye gönüllü (kotası dolsa da acil yedek listesinde önerilir)
+                                </label>
+                                <p className={`col-span-2 text-[10px] ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                                    Hedef saat: sözleşme saati girilmişse odur; yoksa çalışma oranı × nöbet hedefi × 24 saat. Motor nöbet sayısı yerine saatleri dengeler. En az nöbet karşılanması gereken yükümlülüktür; en fazla nöbet boşsa hedef tavandır.
+                                </p>
                             </div>
                         </div>
                         <div className={`p-4 border-t flex justify-end gap-3 ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
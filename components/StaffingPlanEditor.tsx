@@ -0,0 +1,99 @@
+
+import React, { useState } from 'react';
+import { StaffingPlan } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface StaffingPlanEditorProps<T> {
+    plan: StaffingPlan<T> | undefined;
+    onChange: (plan: StaffingPlan<T> | undefined) => void;
+    fallback: T; // Planda değer yoksa kullanılan varsayılan (yer tutucu olarak gösterilir)
+    renderInputs: (value: T | undefined, setValue: (value: T | undefined) => void, placeholder: T) => React.ReactNode;
+    isBlackAndWhite: boolean;
+}
+
+// Haftanın günleri Pazartesi ile başlar; index = JS getDay()
+const WEEKDAY_COLUMNS: { day: number; label: string }[] = [
+    { day: 1, label: 'Pzt' }, { day: 2, label: 'Sal' }, { day: 3, label: 'Çar' }, { day: 4, label: 'Per' },
+    { day: 5, label: 'Cum' }, { day: 6, label: 'Cmt' }, { day: 0, label: 'Paz' }
+];
+
+// Düzenleme sırasında silinen değerler undefined olarak gelir
+type DraftPlan<T> = Omit<StaffingPlan<T>, 'dates'> & { dates?: Record<string, T | undefined> };
+
+// Boş kalan plan alanlarını temizler; hiç değer kalmazsa plan kaldırılır
+const normalizePlan = <T,>(plan: DraftPlan<T>): StaffingPlan<T> | undefined => {
+    const weekdays = Object.fromEntries(Object.entries(plan.weekdays || {}).filter(([, v]) => v !== undefined)) as Partial<Record<number, T>>;
+    const dates = Object.fromEntries(Object.entries(plan.dates || {}).filter(([, v]) => v !== undefined)) as Record<string, T>;
+    const next: StaffingPlan<T> = {};
+    if (Object.keys(weekdays).length > 0) next.weekdays = weekdays;
+    if (plan.holiday !== undefined) next.holiday = plan.holiday;
+    if (Object.keys(dates).length > 0) next.dates = dates;
+    return Object.keys(next).length > 0 ? next : undefined;
+};
+
+export const StaffingPlanEditor = <T,>({ plan, onChange, fallback, renderInputs, isBlackAndWhite }: StaffingPlanEditorProps<T>) => {
+    const [newDate, setNewDate] = useState('');
+    const current = plan || {};
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+    const cellClass = `flex flex-col items-center gap-1 p-1.5 rounded-lg border ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-gray-50'}`;
+
+    const update = (patch: DraftPlan<T>) => onChange(normalizePlan({ ...current, ...patch }));
+    const setWeekday = (day: number, value: T | undefined) => update({ weekdays: { ...current.weekdays, [day]: value } });
+    const setDate = (date: string, value: T | undefined) => update({ dates: { ...current.dates, [date]: value } });
+
+    const handleAddDate = () => {
+        if (!newDate || current.dates?.[newDate] !== undefined) return;
+        setDate(newDate, fallback);
+        setNewDate('');
+    };
+
+    const dateEntries = Object.entries(current.dates || {}).sort(([a], [b]) => a.localeCompare(b));
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-4 sm:grid-cols-8 gap-1.5">
+                {WEEKDAY_COLUMNS.map(col => (
+                    <div key={col.day} className={cellClass}>
+                        <span className={`text-[10px] font-bold uppercase ${mutedText}`}>{col.label}</span>
+                        {renderInputs(current.weekdays?.[col.day], v => setWeekday(col.day, v), fallback)}
+                    </div>
+                ))}
+                <div className={`${cellClass} ${isBlackAndWhite ? '!border-amber-700' : '!border-amber-300 !bg-amber-50'}`}>
+                    <span className="text-[10px] font-bold uppercase text-amber-600">Bayram</span>
+                    {renderInputs(current.holiday, v => update({ holiday: v }), fallback)}
+                </div>
+            </div>
+
+            <div>
+                <div className={`text-[10px] font-bold uppercase mb-1.5 ${mutedText}`}>Tarihe Özel</div>
+                <div className="flex items-center gap-2 mb-2">
+                    <input
+                        type="date"
+                        value={newDate}
+                        onChange={e => setNewDate(e.target.value)}
+                        className={`rounded-lg p-1.5 border text-sm outline-none ${isBlackAndWhite ? '!bg-slate-800 !border-slate-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                    />
+                    <button onClick={handleAddDate} disabled={!newDate} className="text-xs font-bold text-indigo-500 hover:text-indigo-400 disabled:opacity-40 flex items-center gap-1">
+                        <Plus className="w-3.5 h-3.5" /> Tarih Ekle
+                    </button>
+                </div>
+                {dateEntries.length === 0 ? (
+                    <p className={`text-xs ${mutedText}`}>Tarihe özel değer yok.</p>
+                ) : (
+                    <div className="space-y-1.5">
+                        {dateEntries.map(([date, value]) => (
+                            <div key={date} className={`flex items-center gap-3 px-2 py-1.5 rounded-lg border text-sm ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'}`}>
+                                <span className="font-mono text-xs w-24">{date.split('-').reverse().join('.')}</span>
+                                {renderInputs(value, v => { if (v !== undefined) setDate(date, v); }, fallback)}
+                                <button onClick={() => setDate(date, undefined)} className="p-1 ml-auto rounded hover:bg-rose-500/10 text-rose-500">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <p className={`text-[10px] ${mutedText}`}>Boş bırakılan gün varsayılan değeri kullanır. Öncelik: tarih &gt; bayram &gt; haftanın günü.</p>
+        </div>
+    );
+};
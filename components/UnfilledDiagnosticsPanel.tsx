@@ -0,0 +1,77 @@
+
+import React from 'react';
+import { DaySchedule, Service, SlotDiagnostic, Staff } from '../types';
+import { Card } from './ui';
+import { getRuleDefinition } from '../services/rules';
+import { Lightbulb, SearchX, X } from 'lucide-react';
+
+interface UnfilledDiagnosticsPanelProps {
+    diagnostics: SlotDiagnostic[];
+    schedule: DaySchedule[];
+    services: Service[];
+    staff: Staff[];
+    year: number;
+    month: number;
+    isBlackAndWhite: boolean;
+    onClose: () => void;
+}
+
+export const UnfilledDiagnosticsPanel: React.FC<UnfilledDiagnosticsPanelProps> = ({ diagnostics, schedule, services, staff, year, month, isBlackAndWhite, onClose }) => {
+    const staffName = (id: string) => staff.find(s => s.id === id)?.name || id;
+    const ruleName = (id: string) => getRuleDefinition(id)?.name || id;
+    const mutedText = isBlackAndWhite ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <Card className={`border shadow-sm ${isBlackAndWhite ? 'bg-slate-900 border-slate-700 text-white' : 'border-rose-200'}`}>
+            <div className={`p-4 border-b font-bold flex items-center justify-between gap-2 ${isBlackAndWhite ? 'border-slate-700' : 'border-rose-100 text-rose-800'}`}>
+                <span className="flex items-center gap-2"><SearchX className="w-5 h-5" /> Boş Kalan Slotların Teşhisi</span>
+                <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-4 h-4" /></button>
+            </div>
+
+            <div className="p-4 max-h-[420px] overflow-y-auto custom-scrollbar space-y-4">
+                {diagnostics.length === 0 && <p className={`text-sm ${mutedText}`}>Boş slot yok.</p>}
+
+                {diagnostics.map(diag => {
+                    const service = services.find(s => s.id === diag.serviceId);
+                    const emptyCount = schedule.find(d => d.day === diag.day)?.assignments.filter(a => a.serviceId === diag.serviceId && a.staffId === 'EMPTY').length || 0;
+                    return (
+                        <div key={`${diag.day}-${diag.serviceId}`} className={`rounded-xl border p-3 ${isBlackAndWhite ? 'border-slate-700 bg-slate-800' : 'border-gray-200 bg-white'}`}>
+                            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                                <h4 className="font-bold text-sm">
+                                    {new Date(year, month, diag.day).toLocaleDateString('tr-TR', { day: 'numeric', month: 'long', weekday: 'short' })} • {service?.name}
+                                </h4>
+                                <span className="text-xs font-bold text-rose-500">{emptyCount} boş</span>
+                            </div>
+
+                            {diag.suggestions.length > 0 && (
+                                <div className={`mb-3 p-2 rounded-lg text-xs space-y-1 ${isBlackAndWhite ? 'bg-emerald-900/20 text-emerald-200' : 'bg-emerald-50 text-emerald-800'}`}>
+                                    {diag.suggestions.map(sug => (
+                                        <div key={sug.staffId} className="flex gap-1.5">
+                                            <Lightbulb className="w-3.5 h-3.5 shrink-0 mt-px" />
+                                            <span>
+                                                <b>{staffName(sug.staffId)}</b>: {sug.actions.length === 0 ? 'Engel yok, doğrudan yazılabilir' : sug.actions.join(' + ')}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {diag.blockers.length === 0 ? (
+                                <p className={`text-xs ${mutedText}`}>Bu servise branşı uyan personel yok.</p>
+                            ) : (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                                    {diag.blockers.map(b => (
+                                        <div key={b.staffId} className="flex gap-1.5 min-w-0">
+                                            <span className="font-semibold shrink-0">{staffName(b.staffId)}:</span>
+                                            <span className={`truncate ${mutedText}`} title={b.ruleIds.map(ruleName).join(', ')}>{b.ruleIds.map(ruleName).join(', ')}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </Card>
+    );
+};
@@ -0,0 +1,145 @@
+
+import React, { useState } from 'react';
+import { ScoringWeights, WeightProfile } from '../types';
+import { Button } from './ui';
+import { WEIGHT_PRESETS, WEIGHT_LABELS, DEFAULT_WEIGHTS } from '../services/weights';
+import { X, SlidersHorizontal, Save, Trash2, Lock } from 'lucide-react';
+
+interface WeightProfileModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    isBlackAndWhite: boolean;
+    activeProfile: WeightProfile;
+    setActiveProfile: (profile: WeightProfile) => void;
+    savedProfiles: WeightProfile[];
+    onSaveProfile: (profile: WeightProfile) => void;
+    onDeleteProfile: (id: string) => void;
+}
+
+export const WeightProfileModal: React.FC<WeightProfileModalProps> = ({
+    isOpen, onClose, isBlackAndWhite,
+    activeProfile, setActiveProfile,
+    savedProfiles, onSaveProfile, onDeleteProfile
+}) => {
+    const [newProfileName, setNewProfileName] = useState('');
+
+    if (!isOpen) return null;
+
+    const allProfiles = [...WEIGHT_PRESETS, ...savedProfiles];
+    const isSavedCustom = savedProfiles.some(p => p.id === activeProfile.id);
+
+    const updateWeight = (key: keyof ScoringWeights, value: number) => {
+        setActiveProfile({ ...activeProfile, weights: { ...activeProfile.weights, [key]: value } });
+    };
+
+    const handleSaveAsNew = () => {
+        if (!newProfileName.trim()) return;
+        const profile: WeightProfile = {
+            id: `weights_${Date.now()}`,
+            name: newProfileName.trim(),
+            description: `Kaynak: ${activeProfile.name}`,
+            weights: { ...activeProfile.weights }
+        };
+        onSaveProfile(profile);
+        setActiveProfile(profile);
+        setNewProfileName('');
+    };
+
+    const inputClass = `w-full rounded-lg shadow-sm p-2 border focus:ring-2 focus:ring-indigo-500 outline-none transition-colors text-sm ${
+        isBlackAndWhite
+        ? '!bg-slate-800 !border-slate-700 text-white placeholder-slate-400'
+        : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+    }`;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+            <div className={`bg-white rounded-2xl shadow-2xl w-full max-w-4xl overflow-hidden animate-scale-in border flex flex-col md:flex-row h-[75vh] ${isBlackAndWhite ? '!bg-slate-900 !border-slate-800 text-white' : 'border-gray-200'}`}>
+
+                {/* LEFT: PROFILE LIST */}
+                <div className={`w-full md:w-1/3 flex flex-col border-r ${isBlackAndWhite ? 'border-slate-700' : 'border-gray-200'}`}>
+                    <div className={`p-4 border-b shrink-0 ${isBlackAndWhite ? 'bg-slate-950 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                        <h3 className="font-bold text-lg flex items-center gap-2">
+                            <SlidersHorizontal className="w-5 h-5 text-indigo-500" /> Puanlama Profilleri
+                        </h3>
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+                        {allProfiles.map(profile => {
+                            const isActive = profile.id === activeProfile.id;
+                            return (
+                                <div
+                                    key={profile.id}
+                                    onClick={() => setActiveProfile({ ...profile, weights: { ...profile.weights } })}
+                                    className={`p-3 rounded-xl border cursor-pointer transition-all ${isActive
+                                        ? (isBlackAndWhite ? 'border-indigo-500 bg-indigo-900/30' : 'border-indigo-300 bg-indigo-50')
+                                        : (isBlackAndWhite ? 'border-slate-700 bg-slate-800 hover:border-slate-500' : 'border-gray-200 bg-white hover:border-indigo-200')}`}
+                                >
+                                    <div className="flex justify-between items-start">
+                                        <h4 className="font-bold text-sm flex items-center gap-1">
+                                            {profile.builtIn && <Lock className="w-3 h-3 opacity-50" />}
+                                            {profile.name}
+                                        </h4>
+                                        {!profile.builtIn && (
+                                            <button onClick={(e) => { e.stopPropagation(); onDeleteProfile(profile.id); }} className="text-gray-400 hover:text-red-500 transition-colors">
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                    {profile.description && <p className="text-[11px] opacity-60 mt-1">{profile.description}</p>}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* RIGHT: WEIGHT EDITOR */}
+                <div className="w-full md:w-2/3 flex flex-col">
+                    <div className={`p-4 border-b flex justify-between items-center shrink-0 ${isBlackAndWhite ? 'bg-slate-950 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                        <div>
+                            <h3 className="font-bold text-lg">{activeProfile.name}</h3>
+                            <p className={`text-xs ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>Değerler yüksekse o kural daha baskın olur. Cezalar puandan düşülür.</p>
+                        </div>
+                        <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10"><X className="w-5 h-5" /></button>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 sm:grid-cols-2 gap-4 custom-scrollbar content-start">
+                        {(Object.keys(WEIGHT_LABELS) as (keyof ScoringWeights)[]).map(key => (
+                            <div key={key}>
+                                <label className={`block text-xs font-bold uppercase tracking-wide mb-1.5 ${isBlackAndWhite ? 'text-gray-400' : 'text-gray-500'}`}>
+                                    {WEIGHT_LABELS[key].label}
+                                    {WEIGHT_LABELS[key].penalty && <span className="ml-1 text-rose-500">(Ceza)</span>}
+                                </label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="500"
+                                    value={activeProfile.weights[key] ?? DEFAULT_WEIGHTS[key]}
+                                    onChange={e => updateWeight(key, Math.max(0, parseInt(e.target.value) || 0))}
+                                    className={inputClass}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className={`p-4 border-t flex flex-col sm:flex-row gap-3 items-center ${isBlackAndWhite ? 'bg-slate-800 border-slate-700' : 'bg-gray-50 border-gray-100'}`}>
+                        <input
+                            type="text"
+                            value={newProfileName}
+                            onChange={e => setNewProfileName(e.target.value)}
+                            placeholder="Yeni profil adı..."
+                            className={inputClass}
+                        />
+                        <Button variant="secondary" onClick={handleSaveAsNew} disabled={!newProfileName.trim()} className="text-xs whitespace-nowrap">
+                            <Save className="w-4 h-4" /> Yeni Profil Olarak Kaydet
+                        </Button>
+                        {isSavedCustom && (
+                            <Button variant="secondary" onClick={() => onSaveProfile(activeProfile)} className="text-xs whitespace-nowrap">
+                                <Save className="w-4 h-4" /> Güncelle
+                            </Button>
+                        )}
+                        <Button onClick={onClose} className="text-xs">Tamam</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Check, ChevronDown, X } from 'lucide-react';
+import { DayPreference, DayPreferenceLevel, RequestPriority } from '../types';
+import { DEFAULT_REQUEST_PRIORITY, isRequestLevel, PREFERENCE_LEVELS, PREFERENCE_LEVEL_ORDER, PRIORITY_LABELS } from '../services/preferences';
 
 // overflow-hidden kaldırıldı ki dropdownlar kesilmesin.
 export const Card: React.FC<{ children: React.ReactNode; className?: string; onClick?: () => void; id?: string }> = ({ children, className = "", onClick, id }) => (
@@ -135,33 +137,41 @@ interface DateSelectModalProps {
     isOpen: boolean;
     onClose: () => void;
     title: string;
-    selectedDays: number[];
-    onSave: (days: number[]) => void;
+    preferences: DayPreference[];
+    onSave: (preferences: DayPreference[]) => void;
+    year: number;
+    month: number;
     daysInMonth: number;
-    color: 'red' | 'green';
+    lockedDays?: Map<number, string>; // Seçilemeyen günler (gün -> kısa açıklama, ör. izin türü)
 }
 
-export const DateSelectModal: React.FC<DateSelectModalProps> = ({ isOpen, onClose, title, selectedDays, onSave, daysInMonth, color }) => {
+const PREFERENCE_BRUSH_CLASSES: Record<DayPreferenceLevel, string> = {
+    must: 'bg-blue-600 text-white border-blue-700 shadow-md',
+    prefer: 'bg-emerald-500 text-white border-emerald-600 shadow-md',
+    preferNot: 'bg-amber-400 text-white border-amber-500 shadow-md',
+    unavailable: 'bg-red-500 text-white border-red-600 shadow-md'
+};
+
+// Gün tercihleri: seçili düzey (ve istekse öncelik) tıklanan güne uygulanır; aynı tercihe tekrar tıklamak kaldırır
+export const DateSelectModal: React.FC<DateSelectModalProps> = ({ isOpen, onClose, title, preferences, onSave, year, month, daysInMonth, lockedDays }) => {
     if (!isOpen) return null;
 
-    const [tempSelected, setTempSelected] = useState<number[]>(selectedDays);
+    const [tempPreferences, setTempPreferences] = useState<DayPreference[]>(preferences);
+    const [brush, setBrush] = useState<DayPreferenceLevel>('prefer');
+    const [priority, setPriority] = useState<RequestPriority>(DEFAULT_REQUEST_PRIORITY);
 
     useEffect(() => {
-        setTempSelected(selectedDays);
-    }, [selectedDays]);
+        setTempPreferences(preferences);
+    }, [preferences]);
 
     const toggleDay = (day: number) => {
-        if (tempSelected.includes(day)) {
-            setTempSelected(tempSelected.filter(d => d !== day));
-        } else {
-            setTempSelected([...tempSelected, day].sort((a, b) => a - b));
-        }
+        const existing = tempPreferences.find(p => p.day === day);
+        const next: DayPreference = isRequestLevel(brush) ? { year, month, day, level: brush, priority } : { year, month, day, level: brush };
+        const others = tempPreferences.filter(p => p.day !== day);
+        const isSame = existing && existing.level === next.level && (existing.priority ?? DEFAULT_REQUEST_PRIORITY) === (next.priority ?? DEFAULT_REQUEST_PRIORITY);
+        setTempPreferences(isSame ? others : [...others, next].sort((a, b) => a.day - b.day));
     };
 
-    const activeClass = color === 'red' 
-        ? 'bg-red-500 text-white border-red-600 shadow-md transform scale-105' 
-        : 'bg-emerald-500 text-white border-emerald-600 shadow-md transform scale-105';
-
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in date-select-modal-overlay">
             <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-scale-in border border-gray-100 date-select-modal-content">
@@ -170,27 +180,63 @@ export const DateSelectModal: React.FC<DateSelectModalProps> = ({ isOpen, onClos
                     <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 close-btn"><X className="w-5 h-5 text-gray-500" /></button>
                 </div>
                 <div className="p-6">
-                    <div className="grid grid-cols-7 gap-2 mb-4">
-                        {['Pzt', 'Sal', 'Çar', 'Per', 'Cum', 'Cmt', 'Paz'].map(d => (
-                            <div key={d} className="text-center text-xs font-bold text-gray-400 uppercase">{d}</div>
-                        ))}
-                        {Array.from({ length: daysInMonth }, (_, i) => i + 1).map(day => (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        {PREFERENCE_LEVEL_ORDER.map(level => (
                             <button
-                                key={day}
-                                onClick={() => toggleDay(day)}
-                                className={`h-10 rounded-lg text-sm font-bold border transition-all duration-200 ${
-                                    tempSelected.includes(day) 
-                                    ? activeClass 
-                                    : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300 hover:shadow-sm day-btn'
-                                }`}
+                                key={level}
+                                onClick={() => setBrush(level)}
+                                className={`px-2.5 py-1.5 rounded-lg text-xs font-bold border transition-all ${brush === level ? PREFERENCE_BRUSH_CLASSES[level] : 'bg-white border-gray-200 text-gray-600 hover:border-indigo-300 day-btn'}`}
                             >
-                                {day}
+                                {PREFERENCE_LEVELS[level].label}
                             </button>
                         ))}
                     </div>
+                    {isRequestLevel(brush) && (
+                        <div className="flex items-center gap-2 mb-4 text-xs font-bold text-gray-500">
+                            Öncelik:
+                            {([1, 2, 3] as RequestPriority[]).map(p => (
+                                <button
+                                    key={p}
+                                    onClick={() => setPriority(p)}
+                                    className={`px-2 py-1 rounded-md border ${priority === p ? 'bg-indigo-600 text-white border-indigo-700' : 'bg-white border-gray-200 text-gray-600 day-btn'}`}
+                                >
+                                    {PRIORITY_LABELS[p]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="grid grid-cols-7 gap-2 mb-4">
+                        {['Pzt', 'Sal', 'Çar', 'Per', 'Cum', 'Cmt', 'Paz'].map(d => (
+                            <div key={d} className="text-center text-xs font-bold text-gray-400 uppercase">{d}</div>
+                        ))}
+                        {Array.from({ length: daysInMonth }, (_, i) => i + 1).map(day => {
+                            const locked = lockedDays?.get(day);
+                            const preference = tempPreferences.find(p => p.day === day);
+                            const showPriority = preference && isRequestLevel(preference.level) && (preference.priority ?? DEFAULT_REQUEST_PRIORITY) !== DEFAULT_REQUEST_PRIORITY;
+                            return (
+                                <button
+                                    key={day}
+                                    onClick={() => toggleDay(day)}
+                                    disabled={locked !== undefined}
+                                    title={preference ? PREFERENCE_LEVELS[preference.level].label : undefined}
+                                    className={`h-10 rounded-lg text-sm font-bold border transition-all duration-200 flex flex-col items-center justify-center leading-tight ${
+                                        locked !== undefined
+                                        ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                                        : preference
+                                        ? `${PREFERENCE_BRUSH_CLASSES[preference.level]} transform scale-105`
+                                        : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300 hover:shadow-sm day-btn'
+                                    }`}
+                                >
+                                    {day}
+                                    {locked && <span className="text-[9px]">{locked}</span>}
+                                    {showPriority && <span className="text-[9px]">{PRIORITY_LABELS[preference!.priority!]}</span>}
+                                </button>
+                            );
+                        })}
+                    </div>
                     <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-100 footer">
                         <Button variant="ghost" onClick={onClose} className="cancel-btn">İptal</Button>
-                        <Button variant="primary" onClick={() => { onSave(tempSelected); onClose(); }}>Kaydet</Button>
+                        <Button variant="primary" onClick={() => { onSave(tempPreferences); onClose(); }}>Kaydet</Button>
                     </div>
                 </div>
             </div>
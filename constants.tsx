@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Users, Calendar, Settings, ShieldCheck, Download, Trash2, Plus, UserPlus, FileSpreadsheet, AlertTriangle, CheckSquare, Heart, Upload, FileDown, Info, Stethoscope, DoorOpen, Star, Layout, Save, FileJson } from 'lucide-react';
-import { UnitConstraint, Preset, Staff, Service } from './types';
+import { UnitConstraint, Preset, Staff, Service, LeaveType } from './types';
 
 export const ICONS = {
     Users: <Users className="w-5 h-5" />,
@@ -27,6 +27,14 @@ export const ICONS = {
     FileJson: <FileJson className="w-4 h-4" />
 };
 
+// İzin türü rozetleri (personel matrisi ve izin listesi)
+export const LEAVE_BADGE_CLASSES: Record<LeaveType, { light: string; dark: string }> = {
+    annual: { light: 'bg-sky-100 text-sky-700 border-sky-200', dark: 'bg-sky-900/40 text-sky-200 border-sky-800' },
+    sick: { light: 'bg-orange-100 text-orange-700 border-orange-200', dark: 'bg-orange-900/40 text-orange-200 border-orange-800' },
+    training: { light: 'bg-emerald-100 text-emerald-700 border-emerald-200', dark: 'bg-emerald-900/40 text-emerald-200 border-emerald-800' },
+    maternity: { light: 'bg-purple-100 text-purple-700 border-purple-200', dark: 'bg-purple-900/40 text-purple-200 border-purple-800' }
+};
+
 export const MOCK_STAFF = [] as const;
 
 export const MOCK_SERVICES = [
@@ -1,5 +1,5 @@
 
-import { Staff, Service, RoleConfig, UnitConstraint } from '../types';
+import { Staff, Service, RoleConfig, UnitConstraint, WeightProfile, RuleSetting, LocalSearchConfig, SchedulerEngine, SavedSchedule, LedgerMonth, Holiday, PairConstraint, RestRulesConfig, StaffingPlan, SchedulePins, CarryOverHistory } from '../types';
 
 export interface AppData {
     version: string;
@@ -10,12 +10,30 @@ export interface AppData {
     unitConstraints?: UnitConstraint[];
     customUnits?: string[];
     customSpecialties?: string[];
+    weightProfile?: WeightProfile;
+    ruleSettings?: RuleSetting[];
+    savedSchedules?: SavedSchedule[]; // Arşivlenmiş önceki aylar
+    fairnessLedger?: LedgerMonth[]; // Çok aylı adalet defteri
+    customHolidays?: Holiday[]; // Hastaneye özel tatil günleri
+    pairConstraints?: PairConstraint[]; // Birlikte olmasın / birlikte olsun çiftleri
+    restRules?: RestRulesConfig; // Yoksa eski preventEveryOther ve kural ayarlarından kurulur
+    pins?: SchedulePins; // Sabitlenen atamalar ve kilitli günler
+    carryOver?: CarryOverHistory | null; // Önceki ayın son günleri; null = temizlenmiş
     config: {
         month: number;
         year: number;
         randomizeDays: boolean;
-        preventEveryOther: boolean;
+        preventEveryOther?: boolean; // Eski yedekler (yerini restRules aldı)
         dailyTotalTarget?: number;
+        dailyTotalTargetPlan?: StaffingPlan<number>; // Haftanın günü / bayram / tarih bazlı hedef
+        maxRetries?: number;
+        seed?: number; // Aynı tohum + aynı deneme sayısı ile çizelge birebir yeniden üretilir (kazanan deneme de aynı çıkar)
+        localSearch?: LocalSearchConfig;
+        engine?: SchedulerEngine;
+        exactTimeLimitMs?: number;
+        useBuiltInHolidays?: boolean;
+        alternatives?: number;
+        ledgerMonths?: number; // Adalet defterinde dikkate alınan ay sayısı
     }
 }
 
@@ -23,10 +41,19 @@ export const exportToJSON = (
     staff: Staff[],
     services: Service[],
     roleConfigs: Record<number, RoleConfig>,
-    config: { month: number; year: number; randomizeDays: boolean; preventEveryOther: boolean; dailyTotalTarget: number },
+    config: AppData['config'],
     unitConstraints: UnitConstraint[] = [],
     customUnits: string[] = [],
-    customSpecialties: string[] = []
+    customSpecialties: string[] = [],
+    weightProfile?: WeightProfile,
+    ruleSettings?: RuleSetting[],
+    savedSchedules?: SavedSchedule[],
+    fairnessLedger?: LedgerMonth[],
+    customHolidays?: Holiday[],
+    pairConstraints?: PairConstraint[],
+    restRules?: RestRulesConfig,
+    pins?: SchedulePins,
+    carryOver?: CarryOverHistory | null
 ) => {
     const data: AppData = {
         version: "2.1",
@@ -37,6 +64,15 @@ export const exportToJSON = (
         unitConstraints,
         customUnits,
         customSpecialties,
+        weightProfile,
+        ruleSettings,
+        savedSchedules,
+        fairnessLedger,
+        customHolidays,
+        pairConstraints,
+        restRules,
+        pins,
+        carryOver,
         config
     };
 
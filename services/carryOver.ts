@@ -0,0 +1,47 @@
+import { CarryOverHistory, DaySchedule } from '../types';
+
+// Month-boundary continuity.
+// Önceki ayın son günleri, içinde bulunulan ayın gün numaralarına göre 0 ve negatif günler olarak
+// eklenir: ayın son günü 0, bir önceki -1 ... Böylece `day - 1`, `day - 2` gibi kural kontrolleri
+// ay sınırında ek bir durum gerektirmeden çalışır (new Date(yıl, ay, 0) önceki ayın son günüdür).
+
+export const CARRY_OVER_DAYS = 7; // Kurallar en fazla bir hafta geriye bakar
+
+export const getPreviousMonth = (year: number, month: number): { year: number; month: number } => {
+    return month === 0 ? { year: year - 1, month: 11 } : { year, month: month - 1 };
+};
+
+export const isPreviousMonthOf = (history: { year: number; month: number }, year: number, month: number): boolean => {
+    const prev = getPreviousMonth(year, month);
+    return history.year === prev.year && history.month === prev.month;
+};
+
+// Bir ayın tam çizelgesinden sadece son günleri alır
+export const buildCarryOver = (
+    schedule: DaySchedule[],
+    year: number,
+    month: number,
+    source: CarryOverHistory['source']
+): CarryOverHistory => {
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const firstKept = daysInMonth - CARRY_OVER_DAYS + 1;
+    return {
+        year,
+        month,
+        source,
+        days: schedule
+            .filter(d => d.day >= firstKept && d.day <= daysInMonth)
+            .map(d => ({ ...d, assignments: d.assignments.filter(a => a.staffId !== 'EMPTY') }))
+    };
+};
+
+// Geçmişi seçili ayın göreli gün numaralarına (<= 0) çevirir.
+// Geçmiş seçili ayın hemen öncesine ait değilse hiçbir gün taşınmaz.
+export const getCarriedDays = (history: CarryOverHistory | undefined, year: number, month: number): DaySchedule[] => {
+    if (!history || !isPreviousMonthOf(history, year, month)) return [];
+    const daysInPrevMonth = new Date(history.year, history.month + 1, 0).getDate();
+    return history.days
+        .map(d => ({ ...d, day: d.day - daysInPrevMonth }))
+        .filter(d => d.day > -CARRY_OVER_DAYS)
+        .sort((a, b) => a.day - b.day);
+};
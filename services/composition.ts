@@ -0,0 +1,72 @@
+import { DaySchedule, RoleCompositionRule, RuleViolation, Service, ShiftAssignment, Staff } from '../types';
+
+// Per-service role composition.
+// "En fazla" sınırı aday seçiminde kural kayıt defterinden (compositionMax) engellenir.
+// "En az" şartı için servisin kalan zorunlu yerleri eksik kıdemlere ayrılır (compositionMin);
+// tamamlanmış çizelgede servis-gün bazında validateComposition denetler.
+
+export const createCompositionRuleId = () => `cmp_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+export const describeCompositionRule = (rule: RoleCompositionRule): string => {
+    const roles = `Rol ${[...rule.roles].sort((a, b) => a - b).join('/')}`;
+    const limits: string[] = [];
+    if (rule.min !== undefined) limits.push(`en az ${rule.min}`);
+    if (rule.max !== undefined) limits.push(`en fazla ${rule.max}`);
+    return `${roles}: ${limits.join(', ') || 'sınır yok'}`;
+};
+
+const countMatching = (rule: RoleCompositionRule, roles: number[]) => roles.filter(r => rule.roles.includes(r)).length;
+
+// `otherRoles`: aynı gün aynı servise yazılmış diğer kişilerin rolleri (bu atama hariç)
+export const exceedsCompositionMax = (service: Service, person: Staff, otherRoles: number[]): boolean =>
+    (service.composition || []).some(rule =>
+        rule.max !== undefined && rule.roles.includes(person.role) && countMatching(rule, otherRoles) >= rule.max
+    );
+
+// Şartı karşılamayan kişi, yazıldıktan sonra servisin zorunlu yerleri eksikleri kapatamayacaksa engellenir
+export const blocksCompositionMin = (service: Service, person: Staff, otherRoles: number[]): boolean =>
+    (service.composition || []).some(rule => {
+        if (rule.min === undefined || rule.roles.includes(person.role)) return false;
+        const missing = rule.min - countMatching(rule, otherRoles);
+        const requiredSlots = Math.max(service.minDailyCount, rule.min);
+        return missing > Math.max(0, requiredSlots - otherRoles.length - 1);
+    });
+
+// Servisin o günkü ekibinde "en az" şartı karşılanmayan kurallar (hiç yazılmamış servis sayılmaz)
+export const getCompositionShortfalls = (
+    service: Service,
+    assignments: ShiftAssignment[],
+    staffById: Map<string, Staff>
+): RoleCompositionRule[] => {
+    const roles = assignments
+        .filter(a => a.serviceId === service.id)
+        .map(a => staffById.get(a.staffId)?.role)
+        .filter((r): r is number => r !== undefined);
+    if (roles.length === 0) return [];
+    return (service.composition || []).filter(rule => rule.min !== undefined && countMatching(rule, roles) < rule.min);
+};
+
+export const countCompositionShortfalls = (
+    services: Service[],
+    assignments: ShiftAssignment[],
+    staffById: Map<string, Staff>
+): number => services.reduce((acc, s) => acc + getCompositionShortfalls(s, assignments, staffById).length, 0);
+
+// Tamamlanmış çizelgede "en az" şartı eksik kalan servislerin tüm atamaları işaretlenir
+export const validateComposition = (schedule: DaySchedule[], staff: Staff[], services: Service[]): RuleViolation[] => {
+    const withRules = services.filter(s => (s.composition || []).some(r => r.min !== undefined));
+    if (withRules.length === 0) return [];
+    const staffById = new Map(staff.map(s => [s.id, s]));
+    const violations: RuleViolation[] = [];
+    schedule.forEach(d => {
+        withRules.forEach(service => {
+            if (getCompositionShortfalls(service, d.assignments, staffById).length === 0) return;
+            d.assignments.forEach(a => {
+                if (a.serviceId === service.id && staffById.has(a.staffId)) {
+                    violations.push({ day: d.day, serviceId: a.serviceId, staffId: a.staffId, ruleId: 'compositionMin' });
+                }
+            });
+        });
+    });
+    return violations;
+};
@@ -0,0 +1,87 @@
+import { DaySchedule, Service, Staff, SchedulerConfig, SlotDiagnostic } from '../types';
+import { RuleDefinition, createScheduleInspector, resolveRules, collectViolatedRules } from './rules';
+import { formatHours } from './hours';
+
+// En fazla bu kadar engel kaldırılarak doldurulabilen slotlar için öneri üretilir
+const MAX_SUGGESTION_ACTIONS = 2;
+
+// Tek bir engeli kaldıracak somut adım. null = önerilebilir bir ayar yok (ör. aynı gün başka serviste).
+const describeFix = (rule: RuleDefinition, person: Staff, day: number): string | null => {
+    switch (rule.id) {
+        case 'quota':
+            if (person.quotaMax !== undefined) return `En fazla nöbet sınırını 1 artır (${person.quotaMax} → ${person.quotaMax + 1})`;
+            if (person.contractHours !== undefined) return `Sözleşme saatini artır (${formatHours(person.contractHours)})`;
+            return `Aylık hedefini 1 artır (${person.quotaService} → ${person.quotaService + 1})`;
+        case 'weekendLimit':
+            return `Haftasonu limitini 1 artır (${person.weekendLimit} → ${person.weekendLimit + 1})`;
+        case 'holidayLimit':
+            return `Bayram limitini 1 artır (${person.holidayLimit} → ${(person.holidayLimit ?? 0) + 1})`;
+        case 'offDay':
+            return `${day}. gün iznini kaldır`;
+        case 'unavailableDay':
+            return `${day}. gün "Nöbet Alamaz" işaretini kaldır`;
+        case 'minRestDays':
+        case 'weeklyLimit':
+        case 'consecutiveLimit':
+        case 'dayPairExclusion':
+            return `Dinlenme kurallarında "${rule.name}" kesin değerini esnet`;
+        case 'pairNever':
+            return `${person.name} için kesin "birlikte olmasın" kuralını esnet`;
+        case 'compositionMax':
+            return `Servisin Rol ${person.role} için "en fazla" kıdem sınırını artır`;
+        default:
+            return rule.configurable ? `"${rule.name}" kuralını kapat` : null;
+    }
+};
+
+// Her BOŞ slot için: servise branşı uyan herkes ve onu engelleyen kurallar + doldurma önerileri
+export const diagnoseUnfilledSlots = (
+    schedule: DaySchedule[],
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig
+): SlotDiagnostic[] => {
+    const activeStaff = staff.filter(s => s.isActive !== false);
+    const rules = resolveRules(config.rules, false);
+    const unitRule = rules.filter(r => r.rule.id === 'unitMatch');
+    const { buildContext } = createScheduleInspector(schedule, activeStaff, services, config);
+
+    const diagnostics: SlotDiagnostic[] = [];
+    schedule.forEach(d => {
+        // Aynı servisteki birden fazla boşluk aynı teşhisi paylaşır
+        const emptyServiceIds = new Set(d.assignments.filter(a => a.staffId === 'EMPTY').map(a => a.serviceId));
+
+        emptyServiceIds.forEach(serviceId => {
+            const service = services.find(s => s.id === serviceId);
+            if (!service) return;
+
+            const diagnostic: SlotDiagnostic = { day: d.day, serviceId, blockers: [], suggestions: [] };
+
+            activeStaff.forEach(person => {
+                const ctx = buildContext(person, service, d.day);
+                // Branşı bu servise hiç uymayanlar aday sayılmaz
+                if (collectViolatedRules(unitRule, ctx).length > 0) return;
+
+                const violated = collectViolatedRules(rules, ctx);
+                if (violated.length === 0) {
+                    // Hiçbir engel yok (ör. elle düzenleme sonrası): doğrudan yazılabilir
+                    diagnostic.suggestions.push({ staffId: person.id, actions: [] });
+                    return;
+                }
+                diagnostic.blockers.push({ staffId: person.id, ruleIds: violated.map(r => r.id) });
+
+                if (violated.length > MAX_SUGGESTION_ACTIONS) return;
+                const actions = violated.map(rule => describeFix(rule, person, d.day));
+                if (actions.every((a): a is string => a !== null)) {
+                    diagnostic.suggestions.push({ staffId: person.id, actions });
+                }
+            });
+
+            // Tek adımlık öneriler önce
+            diagnostic.suggestions.sort((a, b) => a.actions.length - b.actions.length);
+            diagnostics.push(diagnostic);
+        });
+    });
+
+    return diagnostics;
+};
@@ -0,0 +1,476 @@
+import { Staff, Service, DaySchedule, Holiday, SchedulerConfig, ScheduleResult, ShiftAssignment, SchedulerProgress, ScheduleObjective, OptimalityReport, SchedulePins } from '../types';
+import { Scheduler } from './scheduler';
+import { ActiveRule, RuleContext, StaffStat, resolveRules, findViolatedRule, buildRoommatesMap } from './rules';
+import { getCarriedDays } from './carryOver';
+import { getPastWeekendCounts } from './fairnessLedger';
+import { getMonthHolidays } from './holidays';
+import { buildLeaveMap } from './leave';
+import { findSplitPairs } from './pairConstraints';
+import { countCompositionShortfalls } from './composition';
+import { resolveDailyTarget, resolveDayServices } from './staffing';
+import { getDayPreference, isRequestLevel, preferencePenalty, requestObjectiveWeight } from './preferences';
+import { DEFAULT_SHIFT_HOURS, buildShiftHoursMap, getQuotaBounds, getShiftHours, getTargetHours, toShiftEquivalents } from './hours';
+import { evaluateObjective, computeStats, getDayCoverage, coversRoleMinimums, OBJECTIVE_WEIGHTS } from './localSearch';
+import { RoleHierarchy, getRoleHierarchy } from './roles';
+import { getMonthPins } from './pins';
+
+// Exact engine for small departments: depth-first branch-and-bound over every slot.
+// Aynı girdi (Staff[], Service[], SchedulerConfig) ve aynı çıktı (ScheduleResult) ile Scheduler'ın alternatifi.
+//
+// Model:
+// - Her gün, her servis için o günün minDailyCount değeri kadar ZORUNLU slot (boş kalırsa unfilled sayılır)
+// - O günün toplam hedefine ulaşmak için servis kapasitesi dahilinde EK slotlar (boş kalabilir, cezasız)
+// - Kesin kurallar registry'den (mutlak sınırlar, desperate=true)
+// - Amaç: localSearch.evaluateObjective ile aynı ağırlıklı toplam
+// - Sezgisel çözüm üst sınırdır; onun sağladığı günlük kıdemli, rol minimumu ve özel birim kapsaması korunur
+// - Sabitlenen atamalar aramadan önce yerleştirilir; kilitli günler için slot üretilmez
+
+export const DEFAULT_EXACT_TIME_LIMIT_MS = 10000;
+export const EXACT_RECOMMENDED_MAX_STAFF = 30;
+
+const INCUMBENT_RETRIES = 50; // Başlangıç çözümü için sezgisel deneme sayısı tavanı
+const TIME_CHECK_INTERVAL = 1024; // Düğüm
+const PROGRESS_INTERVAL_MS = 250;
+
+interface Slot {
+    day: number;
+    serviceId: string | null; // null = ek slot, servis dallanmada seçilir
+    group: string; // Aynı gruptaki slotlar birbirinin yerine geçer (simetri kırma)
+    required: boolean;
+    lastOfDay: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class ExactScheduler {
+    private staff: Staff[];
+    private services: Service[];
+    private config: SchedulerConfig;
+    private rules: ActiveRule[];
+    private staffById: Map<string, Staff>;
+    private roommatesMap: Map<string, string[]>;
+    private specialties: Set<string>;
+    private daysInMonth: number;
+    private holidays: Map<number, Holiday>;
+    private leaveMap: Map<string, Set<number>>;
+    private dayServices: Map<number, Service[]>;
+    private roles: RoleHierarchy;
+    private pins: SchedulePins | undefined;
+
+    constructor(staff: Staff[], services: Service[], config: SchedulerConfig) {
+        this.staff = staff.filter(s => s.isActive !== false);
+        this.staffById = new Map(this.staff.map(s => [s.id, s]));
+        this.services = services;
+        this.config = config;
+        this.rules = resolveRules(config.rules, false);
+        this.roommatesMap = buildRoommatesMap(this.staff);
+        this.specialties = new Set(config.unitConstraints.map(c => c.unit.trim()));
+        this.daysInMonth = new Date(config.year, config.month + 1, 0).getDate();
+        this.holidays = getMonthHolidays(config.holidays, config.year, config.month);
+        this.leaveMap = buildLeaveMap(this.staff, config.year, config.month);
+        this.roles = getRoleHierarchy(config.roles);
+        this.pins = getMonthPins(config.pins, config.year, config.month);
+        this.dayServices = new Map();
+        for (let day = 1; day <= this.daysInMonth; day++) {
+            this.dayServices.set(day, resolveDayServices(services, config, day, this.holidays.get(day)));
+        }
+    }
+
+    private getDayServices(day: number): Service[] {
+        return this.dayServices.get(day) ?? this.services;
+    }
+
+    private isOnLeave(staffId: string, day: number): boolean {
+        return this.leaveMap.get(staffId)?.has(day) ?? false;
+    }
+
+    private getDayOfWeek(day: number): number {
+        return new Date(this.config.year, this.config.month, day).getDay();
+    }
+
+    // Sabitlemeler Scheduler ile aynı şekilde süzülür: aktif personel, o gün açık servis, günde tek nöbet
+    private getPinnedShifts(): { day: number; service: Service; person: Staff }[] {
+        const taken = new Set<string>();
+        const pinned: { day: number; service: Service; person: Staff }[] = [];
+        (this.pins?.assignments || []).forEach(pin => {
+            const person = this.staffById.get(pin.staffId);
+            const service = pin.day >= 1 && pin.day <= this.daysInMonth ? this.getDayServices(pin.day).find(s => s.id === pin.serviceId) : undefined;
+            if (!person || !service || taken.has(`${pin.day}-${person.id}`)) return;
+            taken.add(`${pin.day}-${person.id}`);
+            pinned.push({ day: pin.day, service, person });
+        });
+        return pinned;
+    }
+
+    // Haftasonları önce: haftasonu dengesizliği erken kesinleşir, sınır güçlenir
+    private buildSlots(pinned: { day: number; service: Service }[]): Slot[] {
+        const days = Array.from({ length: this.daysInMonth }, (_, i) => i + 1);
+        const isWeekend = (d: number) => { const dow = this.getDayOfWeek(d); return dow === 0 || dow === 6; };
+        const orderedDays = [...days.filter(isWeekend), ...days.filter(d => !isWeekend(d))];
+
+        // Az kişinin tutabildiği servis önce
+        const eligibleCount = (service: Service) => this.staff.filter(s =>
+            this.roles.isFloat(s.role) || !service.allowedUnits || service.allowedUnits.length === 0 || service.allowedUnits.includes(s.unit)
+        ).length;
+        const byEligibility = (a: Service, b: Service) => eligibleCount(a) - eligibleCount(b);
+
+        const lockedDays = new Set(this.pins?.lockedDays || []);
+        const pinnedCount = (day: number, service: Service) => pinned.filter(p => p.day === day && p.service.id === service.id).length;
+
+        const slots: Slot[] = [];
+        orderedDays.filter(day => !lockedDays.has(day)).forEach(day => {
+            const dayServices = this.getDayServices(day);
+            const dailyTarget = resolveDailyTarget(this.config, day, this.holidays.get(day));
+            // Sabitlenen atamalar önce zorunlu slotları, taşan kısmı ek slotları doldurmuş sayılır
+            const presetTotal = dayServices.reduce((acc, s) => acc + Math.max(s.minDailyCount, pinnedCount(day, s)), 0);
+            const flexCapacity = dayServices.reduce((acc, s) => acc + Math.max(0, s.maxDailyCount - Math.max(s.minDailyCount, pinnedCount(day, s))), 0);
+            const extraPerDay = dailyTarget > 0 ? Math.max(0, Math.min(dailyTarget - presetTotal, flexCapacity)) : 0;
+
+            const daySlots: Slot[] = [];
+            [...dayServices].sort(byEligibility).forEach(service => {
+                for (let i = pinnedCount(day, service); i < service.minDailyCount; i++) {
+                    daySlots.push({ day, serviceId: service.id, group: `${day}-${service.id}`, required: true, lastOfDay: false });
+                }
+            });
+            for (let i = 0; i < extraPerDay; i++) {
+                daySlots.push({ day, serviceId: null, group: `${day}-extra`, required: false, lastOfDay: false });
+            }
+            if (daySlots.length > 0) daySlots[daySlots.length - 1].lastOfDay = true;
+            slots.push(...daySlots);
+        });
+        return slots;
+    }
+
+    public generate(onProgress?: (progress: SchedulerProgress) => void): ScheduleResult {
+        // 1. Üst sınır: sezgisel motorun çözümü
+        const heuristic = new Scheduler(this.staff, this.services, {
+            ...this.config,
+            maxRetries: Math.min(this.config.maxRetries, INCUMBENT_RETRIES),
+            alternatives: undefined // Kesin çözücü tek çözüm döndürür
+        }).generate();
+
+        const startTime = Date.now();
+        const timeLimit = this.config.exactTimeLimitMs ?? DEFAULT_EXACT_TIME_LIMIT_MS;
+
+        let bestObjective: ScheduleObjective = evaluateObjective(heuristic.schedule, this.staff, this.services, this.config);
+        let bestSchedule: DaySchedule[] | null = null;
+
+        // Sezgisel çözümün sağladığı kapsama korunur (Faz 0 / Faz 1 garantileri).
+        // Arama yalnızca bu kapsamayı sağlayan çizelgeleri dolaşır; optimallik de buna göredir.
+        const requiredCoverage = new Map<number, { coverage: ReturnType<typeof getDayCoverage>; compositionShortfalls: number }>();
+        heuristic.schedule.forEach(d => {
+            requiredCoverage.set(d.day, {
+                coverage: getDayCoverage(d.assignments, this.staffById, this.specialties, this.roles),
+                compositionShortfalls: countCompositionShortfalls(this.services, d.assignments, this.staffById)
+            });
+        });
+
+        const pinned = this.getPinnedShifts();
+        const slots = this.buildSlots(pinned);
+        const serviceOnDay = (day: number, serviceId: string) => this.getDayServices(day).find(s => s.id === serviceId)!;
+        const weekendDays = new Set(slots.map(s => s.day).filter(d => { const dow = this.getDayOfWeek(d); return dow === 0 || dow === 6; }));
+        const lastWeekendDay = [...slots].reverse().find(s => weekendDays.has(s.day))?.day;
+        const pastWeekends = getPastWeekendCounts(this.config); // evaluateObjective ile aynı (defter dahil)
+
+        // Her pozisyondan itibaren kalan günler (kişi başı ek nöbet üst sınırı için)
+        const remainingDaysFrom: number[][] = [];
+        for (let pos = slots.length - 1; pos >= 0; pos--) {
+            const next = remainingDaysFrom[pos + 1] || [];
+            remainingDaysFrom[pos] = next.includes(slots[pos].day) ? next : [slots[pos].day, ...next];
+        }
+
+        // Henüz başlanmamış günlerde, istek sayısı slot sayısını aşıyorsa fazlası mutlaka karşılanmaz
+        // (en az ağırlıklı istekler karşılanmayan sayılır)
+        const slotsPerDay = new Map<number, number>();
+        slots.forEach(s => slotsPerDay.set(s.day, (slotsPerDay.get(s.day) || 0) + 1));
+        const unavoidableUnmet = (day: number) => {
+            const weights = this.staff
+                .map(s => getDayPreference(s, this.config.year, this.config.month, day))
+                .filter((p): p is NonNullable<typeof p> => !!p && isRequestLevel(p.level))
+                .map(requestObjectiveWeight)
+                .sort((a, b) => a - b);
+            const excess = Math.max(0, weights.length - (slotsPerDay.get(day) || 0));
+            return weights.slice(0, excess).reduce((acc, w) => acc + w, 0);
+        };
+        const futureUnmetFrom: number[] = [];
+        for (let pos = slots.length - 1; pos >= 0; pos--) {
+            const startsNewDay = pos === 0 || slots[pos - 1].day !== slots[pos].day;
+            const later = futureUnmetFrom[pos + 1] || 0;
+            // pos'taki gün henüz başlamadıysa (günün ilk slotu) o günü de say
+            futureUnmetFrom[pos] = startsNewDay ? later + unavoidableUnmet(slots[pos].day) : later;
+        }
+
+        // --- ARAMA DURUMU ---
+        const assignmentsByDay = new Map<number, ShiftAssignment[]>();
+        const idsByDay = new Map<number, Set<string>>();
+        for (let d = 1; d <= this.daysInMonth; d++) { assignmentsByDay.set(d, []); idsByDay.set(d, new Set()); }
+        getCarriedDays(this.config.carryOver, this.config.year, this.config.month).forEach(d => {
+            idsByDay.set(d.day, new Set(d.assignments.map(a => a.staffId)));
+        });
+        const stats = new Map<string, StaffStat>();
+        this.staff.forEach(s => stats.set(s.id, { total: 0, weekend: 0, saturday: 0, sunday: 0, holiday: 0, hours: 0 }));
+        const shiftHours = buildShiftHoursMap(this.services);
+        const maxShiftHours = Math.max(DEFAULT_SHIFT_HOURS, ...shiftHours.values());
+        const bounds = new Map(this.staff.map(s => [s.id, getQuotaBounds(s, this.roles)]));
+        const groupLast = new Map<string, number>(); // Gruptaki son seçilen personel sırası
+        let unfilled = 0;
+        let fixedUnmet = 0;
+        const unmetByDay = new Map<number, number>();
+        let weekendSpread: number | null = null;
+
+        const hasShiftOnDay = (day: number, staffId: string) => idsByDay.get(day)?.has(staffId) ?? false;
+
+        const buildContext = (person: Staff, service: Service, day: number): RuleContext => {
+            const dayOfWeek = this.getDayOfWeek(day);
+            const isSat = dayOfWeek === 6;
+            const isSun = dayOfWeek === 0;
+            return {
+                person, service, day, dayOfWeek,
+                isWeekend: isSat || isSun, isSat, isSun,
+                isHoliday: this.holidays.has(day),
+                stats: stats.get(person.id)!,
+                assignedTodayIds: idsByDay.get(day)!,
+                todayAssignments: assignmentsByDay.get(day)!,
+                seniorCountOnDay: assignmentsByDay.get(day)!.filter(a => this.roles.isSenior(this.staffById.get(a.staffId)?.role)).length,
+                desperate: true,
+                config: this.config,
+                roommates: this.roommatesMap.get(person.id) || [],
+                getStaff: (id) => this.staffById.get(id),
+                isOnLeave: (staffId, d) => this.isOnLeave(staffId, d),
+                hasShiftOnDay
+            };
+        };
+
+        const place = (day: number, service: Service, person: Staff | null) => {
+            assignmentsByDay.get(day)!.push(person ? {
+                serviceId: service.id, staffId: person.id, staffName: person.name, role: person.role, unit: person.unit
+            } : {
+                serviceId: service.id, staffId: 'EMPTY', staffName: `BOŞ (Min:${service.minDailyCount})`, role: 0, unit: '-'
+            });
+            if (!person) { unfilled++; return; }
+            idsByDay.get(day)!.add(person.id);
+            const dow = this.getDayOfWeek(day);
+            const stat = stats.get(person.id)!;
+            stat.total++;
+            stat.hours += getShiftHours(service);
+            if (dow === 0 || dow === 6) stat.weekend++;
+            if (dow === 6) stat.saturday++;
+            if (dow === 0) stat.sunday++;
+            if (this.holidays.has(day)) stat.holiday++;
+        };
+
+        const unplace = (day: number) => {
+            const removed = assignmentsByDay.get(day)!.pop()!;
+            if (removed.staffId === 'EMPTY') { unfilled--; return; }
+            idsByDay.get(day)!.delete(removed.staffId);
+            const dow = this.getDayOfWeek(day);
+            const stat = stats.get(removed.staffId)!;
+            stat.total--;
+            stat.hours -= shiftHours.get(removed.serviceId) ?? DEFAULT_SHIFT_HOURS;
+            if (dow === 0 || dow === 6) stat.weekend--;
+            if (dow === 6) stat.saturday--;
+            if (dow === 0) stat.sunday--;
+            if (this.holidays.has(day)) stat.holiday--;
+        };
+
+        // Gün tamamlandığında: kapsama kontrolü, karşılanmayan istekler ve haftasonu dengesi kesinleşir
+        const closeDay = (day: number): boolean => {
+            const required = requiredCoverage.get(day);
+            if (required) {
+                const coverage = getDayCoverage(assignmentsByDay.get(day)!, this.staffById, this.specialties, this.roles);
+                if (!coversRoleMinimums(required.coverage, coverage, this.roles)) return false;
+                for (const specialty of required.coverage.covered) if (!coverage.covered.has(specialty)) return false;
+                if (countCompositionShortfalls(this.services, assignmentsByDay.get(day)!, this.staffById) > required.compositionShortfalls) return false;
+            }
+            if (findSplitPairs(this.config.pairConstraints, idsByDay.get(day)!, this.staffById).length > 0) return false;
+
+            const unmet = this.staff.reduce((acc, s) => acc + preferencePenalty(getDayPreference(s, this.config.year, this.config.month, day), idsByDay.get(day)!.has(s.id)), 0);
+            unmetByDay.set(day, unmet);
+            fixedUnmet += unmet;
+
+            if (day === lastWeekendDay) {
+                const weekendCounts = this.staff.map(s => stats.get(s.id)!.weekend + (pastWeekends.get(s.id) || 0));
+                const mean = weekendCounts.reduce((a, b) => a + b, 0) / Math.max(1, weekendCounts.length);
+                weekendSpread = round2(weekendCounts.reduce((acc, w) => acc + Math.pow(w - mean, 2), 0));
+            }
+            return true;
+        };
+
+        const reopenDay = (day: number) => {
+            fixedUnmet -= unmetByDay.get(day) || 0;
+            unmetByDay.delete(day);
+            if (day === lastWeekendDay) weekendSpread = null;
+        };
+
+        const lowerBound = (pos: number): number => {
+            const remainingSlots = slots.length - pos;
+            const remainingDays = remainingDaysFrom[pos] || [];
+            let over = 0;
+            let deficitTotal = 0;
+            let personalDeficit = 0;
+            let minimumDeficit = 0;
+
+            // Saat farkları nöbet eşdeğerine çevrilir; kalan her slot en fazla en uzun nöbet kadar açık kapatır
+            this.staff.forEach(person => {
+                const hours = stats.get(person.id)!.hours;
+                const target = getTargetHours(person);
+                if (hours >= target) {
+                    over += toShiftEquivalents(hours - target);
+                    return;
+                }
+                deficitTotal += toShiftEquivalents(target - hours);
+                let reachable = 0;
+                remainingDays.forEach(d => { if (!idsByDay.get(d)!.has(person.id) && !this.isOnLeave(person.id, d)) reachable++; });
+                personalDeficit += toShiftEquivalents(Math.max(0, target - hours - reachable * maxShiftHours));
+                minimumDeficit += toShiftEquivalents(Math.max(0, bounds.get(person.id)!.min - hours - reachable * maxShiftHours));
+            });
+
+            const quotaBound = over + Math.max(personalDeficit, deficitTotal - toShiftEquivalents(remainingSlots * maxShiftHours), 0);
+            return round2(
+                unfilled * OBJECTIVE_WEIGHTS.unfilledSlots +
+                minimumDeficit * OBJECTIVE_WEIGHTS.minimumShortfall +
+                quotaBound * OBJECTIVE_WEIGHTS.quotaDeviation +
+                (weekendSpread ?? 0) * OBJECTIVE_WEIGHTS.weekendSpread +
+                (fixedUnmet + (futureUnmetFrom[pos] || 0)) * OBJECTIVE_WEIGHTS.unmetRequests
+            );
+        };
+
+        const snapshot = (): DaySchedule[] => {
+            const schedule: DaySchedule[] = [];
+            for (let d = 1; d <= this.daysInMonth; d++) {
+                const dow = this.getDayOfWeek(d);
+                schedule.push({ day: d, assignments: [...assignmentsByDay.get(d)!], isWeekend: dow === 0 || dow === 6, holiday: this.holidays.get(d) });
+            }
+            return schedule;
+        };
+
+        let nodes = 0;
+        let timedOut = false;
+        let lastReport = 0;
+
+        const dfs = (pos: number) => {
+            if (timedOut) return;
+            nodes++;
+            if (nodes % TIME_CHECK_INTERVAL === 0) {
+                const elapsed = Date.now() - startTime;
+                if (elapsed >= timeLimit) { timedOut = true; return; }
+                if (onProgress && elapsed - lastReport >= PROGRESS_INTERVAL_MS) {
+                    lastReport = elapsed;
+                    onProgress({
+                        attempt: elapsed,
+                        totalAttempts: timeLimit,
+                        bestUnfilledSlots: bestObjective.unfilledSlots,
+                        bestDeviation: bestObjective.quotaDeviation,
+                        stage: 'exact'
+                    });
+                }
+            }
+
+            if (pos === slots.length) {
+                const schedule = snapshot();
+                const objective = evaluateObjective(schedule, this.staff, this.services, this.config);
+                if (objective.total < bestObjective.total) {
+                    bestObjective = objective;
+                    bestSchedule = schedule;
+                }
+                return;
+            }
+
+            if (lowerBound(pos) >= bestObjective.total) return;
+
+            const slot = slots[pos];
+            const previousLast = groupLast.get(slot.group) ?? -1;
+
+            const descend = () => {
+                if (!slot.lastOfDay) { dfs(pos + 1); return; }
+                if (closeDay(slot.day)) {
+                    dfs(pos + 1);
+                    reopenDay(slot.day);
+                }
+            };
+
+            // Değer sıralaması: isteği olan, hedefe en uzak ve (haftasonu ise) en az haftasonu tutan önce
+            const candidateIndexes: number[] = [];
+            for (let i = previousLast + 1; i < this.staff.length; i++) candidateIndexes.push(i);
+            const slotIsWeekend = weekendDays.has(slot.day);
+            const priority = (i: number) => {
+                const person = this.staff[i];
+                const stat = stats.get(person.id)!;
+                const preference = getDayPreference(person, this.config.year, this.config.month, slot.day);
+                const requested = preference && isRequestLevel(preference.level) ? 1000 * requestObjectiveWeight(preference) : preference?.level === 'preferNot' ? -1000 : 0;
+                const weekendLoad = slotIsWeekend ? (stat.weekend + (pastWeekends.get(person.id) || 0)) * 100 : 0;
+                const minimumGap = Math.max(0, bounds.get(person.id)!.min - stat.hours);
+                return requested - weekendLoad + toShiftEquivalents(getTargetHours(person) - stat.hours + 10 * minimumGap);
+            };
+            candidateIndexes.sort((a, b) => priority(b) - priority(a));
+
+            for (const index of candidateIndexes) {
+                const person = this.staff[index];
+                const options = slot.serviceId
+                    ? [serviceOnDay(slot.day, slot.serviceId)]
+                    : this.getDayServices(slot.day).filter(s => assignmentsByDay.get(slot.day)!.filter(a => a.serviceId === s.id).length < s.maxDailyCount);
+
+                for (const service of options) {
+                    if (findViolatedRule(this.rules, buildContext(person, service, slot.day))) continue;
+                    place(slot.day, service, person);
+                    groupLast.set(slot.group, index);
+                    descend();
+                    unplace(slot.day);
+                    if (timedOut) { groupLast.set(slot.group, previousLast); return; }
+                }
+            }
+
+            // Boş bırak: gruptaki kalan slotlar da boş kalır (simetri kırma)
+            groupLast.set(slot.group, this.staff.length);
+            if (slot.required) {
+                place(slot.day, serviceOnDay(slot.day, slot.serviceId!), null);
+                descend();
+                unplace(slot.day);
+            } else {
+                descend();
+            }
+            groupLast.set(slot.group, previousLast);
+        };
+
+        // Sabitlenenler ve kilitli günlerin eksikleri arama boyunca değişmez
+        pinned.forEach(p => place(p.day, p.service, p.person));
+        (this.pins?.lockedDays || []).filter(day => day >= 1 && day <= this.daysInMonth).forEach(day => {
+            this.getDayServices(day).forEach(service => {
+                const count = assignmentsByDay.get(day)!.filter(a => a.serviceId === service.id).length;
+                for (let i = count; i < service.minDailyCount; i++) place(day, service, null);
+            });
+        });
+
+        const rootBound = lowerBound(0);
+        dfs(0);
+
+        const improved = bestSchedule !== null;
+        const finalSchedule: DaySchedule[] = bestSchedule ?? heuristic.schedule;
+        const elapsedMs = Date.now() - startTime;
+
+        const optimality: OptimalityReport = {
+            optimalForHeuristicCoverage: !timedOut,
+            objective: bestObjective.total,
+            lowerBound: timedOut ? Math.min(rootBound, bestObjective.total) : bestObjective.total,
+            nodes,
+            elapsedMs,
+            improvedOnHeuristic: improved
+        };
+
+        const logs = [
+            ...heuristic.logs,
+            `Kesin çözücü: amaç ${bestObjective.total}, alt sınır ${optimality.lowerBound}, ${nodes} düğüm, ${elapsedMs} ms${optimality.optimalForHeuristicCoverage ? ' (sezgisel kapsamaya göre optimal)' : ' (süre doldu)'}`
+        ];
+
+        if (!improved) return { ...heuristic, logs, optimality };
+
+        return {
+            schedule: finalSchedule,
+            unfilledSlots: bestObjective.unfilledSlots,
+            logs,
+            stats: computeStats(finalSchedule, this.staff, this.services, this.config),
+            seed: heuristic.seed,
+            optimality
+        };
+    }
+}
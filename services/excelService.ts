@@ -1,6 +1,10 @@
 
 import * as XLSX from 'xlsx';
-import { ScheduleResult, Service, Staff } from '../types';
+import { DayPreference, DayPreferenceLevel, DaySchedule, LeaveRecord, LeaveType, RequestPriority, RoleConfig, ScheduleResult, Service, ShiftAssignment, Staff } from '../types';
+import { daysToLeaveRecords, getMonthLeaveDays, LEAVE_TYPE_ORDER, LEAVE_TYPES } from './leave';
+import { DEFAULT_REQUEST_PRIORITY } from './preferences';
+import { getRoleHierarchy } from './roles';
+import { DEFAULT_SHIFT_HOURS } from './hours';
 
 const formatDate = (day: number, month: number, year: number): string => {
     const date = new Date(year, month, day);
@@ -8,8 +12,9 @@ const formatDate = (day: number, month: number, year: number): string => {
     return date.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric', weekday: 'long' });
 };
 
-export const exportToExcel = (result: ScheduleResult, services: Service[], year: number, month: number, staffList: Staff[]) => {
+export const exportToExcel = (result: ScheduleResult, services: Service[], year: number, month: number, staffList: Staff[], roleConfigs?: Record<number, RoleConfig>) => {
   const wb = XLSX.utils.book_new();
+  const roles = getRoleHierarchy(roleConfigs);
   const monthName = new Date(year, month).toLocaleString('tr-TR', { month: 'long' });
   const daysInMonth = new Date(year, month + 1, 0).getDate();
 
@@ -39,24 +44,23 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
   const dataMain: any[] = [];
 
   result.schedule.forEach((daySchedule) => {
-    const isWeekend = daySchedule.isWeekend;
-    
-    // Satır Verisi
+    // Satır Verisi (tatil günlerinde adı tarihin yanına yazılır)
+    const holidayLabel = daySchedule.holiday ? ` - ${daySchedule.holiday.name}` : '';
     const row: any = {
-      'Tarih': formatDate(daySchedule.day, month, year),
+      'Tarih': formatDate(daySchedule.day, month, year) + holidayLabel,
     };
 
     services.forEach(service => {
       // O günkü, o servise ait atamaları al
       let assignments = daySchedule.assignments.filter(a => a.serviceId === service.id);
       
-      // SORGU: Kıdeme Göre Sırala (1: Kıdemli, 2: Tecrübeli, 3: Çömez)
+      // SORGU: Kıdem sırasına göre sırala (rol tanımlarındaki sıra)
       // Role 0 (EMPTY) genelde en sona kalsın veya boş olarak işlensin.
       assignments.sort((a, b) => {
           // Eğer biri boşsa onu sona at
           if (a.staffId === 'EMPTY') return 1;
           if (b.staffId === 'EMPTY') return -1;
-          return a.role - b.role;
+          return roles.getOrder(a.role) - roles.getOrder(b.role);
       });
 
       const maxCols = serviceMaxCounts[service.id];
@@ -71,7 +75,7 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
                   row[colName] = ''; 
               } else {
                   let displayName = a.staffName;
-                  if (a.role === 1) {
+                  if (roles.isSenior(a.role)) {
                       displayName += ' (K)'; // Kıdemli işareti
                   }
                   row[colName] = displayName;
@@ -89,19 +93,22 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
   const wsMain = XLSX.utils.json_to_sheet(dataMain, { header: headersMain });
   
   // Sütun Genişlikleri
-  const cols = [{ wch: 25 }]; // Tarih sütunu biraz geniş
+  const cols = [{ wch: result.schedule.some(d => d.holiday) ? 45 : 25 }]; // Tarih sütunu biraz geniş
   services.forEach(s => {
       const count = serviceMaxCounts[s.id];
       for(let i=0; i<count; i++) cols.push({ wch: 20 });
   });
   wsMain['!cols'] = cols;
 
-  // Haftasonu Renklendirme Mantığı
+  // Haftasonu ve Tatil Renklendirme Mantığı
   if (result.schedule.length > 0) {
       const range = XLSX.utils.decode_range(wsMain['!ref'] || "A1:A1");
       for (let R = range.s.r + 1; R <= range.e.r; ++R) {
           const dayIndex = R - 1; 
-          if (result.schedule[dayIndex] && result.schedule[dayIndex].isWeekend) {
+          const daySchedule = result.schedule[dayIndex];
+          if (daySchedule && (daySchedule.isWeekend || daySchedule.holiday)) {
+              // Tatil rengi haftasonundan önceliklidir
+              const rgb = daySchedule.holiday ? "F8CBAD" : "FFF2CC"; // Açık Kırmızı / Açık Sarı
               for (let C = range.s.c; C <= range.e.c; ++C) {
                   const cell_address = { c: C, r: R };
                   const cell_ref = XLSX.utils.encode_cell(cell_address);
@@ -109,7 +116,7 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
                   
                   // Hücre stili
                   wsMain[cell_ref].s = {
-                      fill: { patternType: "solid", fgColor: { rgb: "FFF2CC" } }, // Açık Sarı
+                      fill: { patternType: "solid", fgColor: { rgb } },
                       font: { bold: true }
                   };
               }
@@ -127,22 +134,27 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
   }
 
   // İSTEK: Branş sütununu kaldır
-  const headersPerson = ['Ad Soyad', 'Kıdem', 'Toplam', ...daysInMonthList];
+  const headersPerson = ['Ad Soyad', 'Kıdem', 'Toplam', 'Saat', 'Bayram', ...daysInMonthList];
   
   const dataPerson: any[] = [];
+  const leaveCells: { row: number; day: number; type: LeaveType }[] = []; // Boyanacak izin hücreleri
   
-  // SIRALAMA: Önce Kıdem (Role ASC), Sonra İsim
+  // SIRALAMA: Önce Kıdem (rol sırası), Sonra İsim
   const sortedStaff = [...staffList].sort((a, b) => {
-      if (a.role !== b.role) return a.role - b.role; // 1 (Kıdemli) önce gelir
+      if (a.role !== b.role) return roles.getOrder(a.role) - roles.getOrder(b.role); // En kıdemli önce gelir
       return a.name.localeCompare(b.name);
   });
 
-  sortedStaff.forEach(person => {
+  sortedStaff.forEach((person, personIndex) => {
       const stats = result.stats.find(s => s.staffId === person.id);
+      const leaveDays = getMonthLeaveDays(person, year, month);
       const row: any = {
-          'Ad Soyad': person.role === 1 ? `${person.name} (K)` : person.name,
+          'Ad Soyad': roles.isSenior(person.role) ? `${person.name} (K)` : person.name,
           'Kıdem': person.role,
-          'Toplam': stats?.totalShifts || 0
+          'Toplam': stats?.totalShifts || 0,
+          // Eski kayıtlı çizelgelerde saat yoksa nöbet sayısından türetilir
+          'Saat': stats?.hoursWorked ?? (stats?.totalShifts || 0) * DEFAULT_SHIFT_HOURS,
+          'Bayram': stats?.holidayShifts || 0
       };
 
       for (let d = 1; d <= daysInMonth; d++) {
@@ -162,6 +174,11 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
               else if (val.includes('Acil')) val = 'ACİL';
               
               row[headerKey] = val;
+          } else if (leaveDays.has(d)) {
+              // İzin türü kısaltması (Yİ, R, E, D)
+              const type = leaveDays.get(d)!;
+              row[headerKey] = LEAVE_TYPES[type].short;
+              leaveCells.push({ row: personIndex + 1, day: d, type });
           } else {
               row[headerKey] = '';
           }
@@ -175,31 +192,44 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
       { wch: 20 }, // Ad Soyad
       { wch: 6 },  // Kıdem
       { wch: 8 },  // Toplam
+      { wch: 8 },  // Saat
+      { wch: 8 },  // Bayram
       ...daysInMonthList.map(() => ({ wch: 4 })) // Günler dar olsun
   ];
   
-  // Personel listesinde de haftasonu sütunlarını boyayalım
+  // Personel listesinde de haftasonu ve tatil sütunlarını boyayalım
   const rangeP = XLSX.utils.decode_range(wsPerson['!ref'] || "A1:A1");
   // Kolon bazlı boyama (Gün sütunları için)
   for (let d = 1; d <= daysInMonth; d++) {
       const date = new Date(year, month, d);
       const isWeekend = date.getDay() === 0 || date.getDay() === 6;
-      if (isWeekend) {
+      const isHoliday = !!result.schedule.find(s => s.day === d)?.holiday;
+      if (isWeekend || isHoliday) {
           // Header row (0) + Data rows
-          // İndeksler değişti: 0:Ad, 1:Kıdem, 2:Toplam -> Günler 3. indeksten başlar
-          const colIndex = 3 + (d - 1); 
+          // İndeksler değişti: 0:Ad, 1:Kıdem, 2:Toplam, 3:Saat, 4:Bayram -> Günler 5. indeksten başlar
+          const colIndex = 5 + (d - 1); 
           for (let R = rangeP.s.r; R <= rangeP.e.r; ++R) {
                const cell_address = { c: colIndex, r: R };
                const cell_ref = XLSX.utils.encode_cell(cell_address);
                if (!wsPerson[cell_ref]) wsPerson[cell_ref] = { t: 's', v: '' };
 
                wsPerson[cell_ref].s = {
-                   fill: { patternType: "solid", fgColor: { rgb: "E2EFDA" } } // Açık Yeşil/Gri
+                   fill: { patternType: "solid", fgColor: { rgb: isHoliday ? "F8CBAD" : "E2EFDA" } } // Açık Kırmızı / Açık Yeşil
                };
           }
       }
   }
 
+  // İzin hücreleri türüne göre boyanır (haftasonu/tatil renginin üzerine)
+  leaveCells.forEach(({ row, day, type }) => {
+      const cell_ref = XLSX.utils.encode_cell({ c: 5 + (day - 1), r: row });
+      if (!wsPerson[cell_ref]) return;
+      wsPerson[cell_ref].s = {
+          fill: { patternType: "solid", fgColor: { rgb: LEAVE_TYPES[type].excelColor } },
+          font: { bold: true }
+      };
+  });
+
   XLSX.utils.book_append_sheet(wb, wsPerson, "Personel Bazlı");
 
   XLSX.writeFile(wb, `Nobet_Listesi_${monthName}_${year}.xlsx`);
@@ -207,7 +237,9 @@ export const exportToExcel = (result: ScheduleResult, services: Service[], year:
 
 export const generateTemplate = () => {
     const wb = XLSX.utils.book_new();
-    const headers = ['Ad Soyad', 'Branş', 'Salon', 'Kıdem', 'Hedef', 'Haftasonu Limit', 'İzinler', 'İstekler'];
+    // İstek sütunlarında "gün:öncelik" yazılabilir (1 Yüksek, 2 Normal, 3 Düşük), ör. 15:1
+    // İzinler sütununda "gün" veya "başlangıç-bitiş", isteğe bağlı ":tür" ile (Yİ, R, E, D), ör. 1-3,12:R
+    const headers = ['Ad Soyad', 'Branş', 'Salon', 'Kıdem', 'Hedef', 'Haftasonu Limit', 'Bayram Limit', 'İzinler', 'İstekler', 'Zorunlu İstekler', 'Tercihen Olmasın', 'Nöbet Alamaz'];
     const exampleData = [
         { 
             'Ad Soyad': 'Hem. Örnek Kişi', 
@@ -216,17 +248,77 @@ export const generateTemplate = () => {
             'Kıdem': 2, 
             'Hedef': 2, 
             'Haftasonu Limit': 1,
-            'İzinler': '1,2,3',
-            'İstekler': '15,20'
+            'Bayram Limit': '',
+            'İzinler': '1-3,12:R',
+            'İstekler': '15:1,20',
+            'Zorunlu İstekler': '',
+            'Tercihen Olmasın': '24',
+            'Nöbet Alamaz': '10'
         }
     ];
 
     const ws = XLSX.utils.json_to_sheet(exampleData, { header: headers });
-    ws['!cols'] = [{wch:20}, {wch:15}, {wch:8}, {wch:8}, {wch:8}, {wch:15}, {wch:15}, {wch:15}];
+    ws['!cols'] = [{wch:20}, {wch:15}, {wch:8}, {wch:8}, {wch:8}, {wch:15}, {wch:12}, {wch:15}, {wch:15}, {wch:16}, {wch:16}, {wch:14}];
+    XLSX.utils.book_append_sheet(wb, ws, "Personel");
     XLSX.writeFile(wb, "Personel_Yukleme_Taslagi.xlsx");
 };
 
-export const readStaffFromExcel = async (file: File): Promise<Staff[]> => {
+// Gün tercih sütunları: sonra okunan düzey aynı gündeki öncekinin yerine geçer (zorunlu istek en son)
+const PREFERENCE_COLUMNS: { column: string; level: DayPreferenceLevel }[] = [
+    { column: 'Nöbet Alamaz', level: 'unavailable' },
+    { column: 'Tercihen Olmasın', level: 'preferNot' },
+    { column: 'İstekler', level: 'prefer' },
+    { column: 'Zorunlu İstekler', level: 'must' }
+];
+
+// Gün numaraları seçili aya ait tercih olarak okunur
+const parsePreferences = (row: any, year: number, month: number): DayPreference[] => {
+    const byDay = new Map<number, DayPreference>();
+    PREFERENCE_COLUMNS.forEach(({ column, level }) => {
+        const raw = row[column];
+        if (raw === undefined || raw === '') return;
+        raw.toString().split(',').forEach((token: string) => {
+            const [dayPart, priorityPart] = token.split(':').map(p => parseInt(p.trim()));
+            if (isNaN(dayPart)) return;
+            const isRequest = level === 'prefer' || level === 'must';
+            const priority = [1, 2, 3].includes(priorityPart) ? priorityPart as RequestPriority : DEFAULT_REQUEST_PRIORITY;
+            byDay.set(dayPart, isRequest ? { year, month, day: dayPart, level, priority } : { year, month, day: dayPart, level });
+        });
+    });
+    return Array.from(byDay.values()).sort((a, b) => a.day - b.day);
+};
+
+// Tür anahtarı (sick), kısaltması (R) ya da adı (Sağlık Raporu) kabul edilir
+const parseLeaveType = (text: string): LeaveType | undefined => {
+    const normalized = text.trim().toLocaleUpperCase('tr-TR');
+    return LEAVE_TYPE_ORDER.find(type =>
+        [type, LEAVE_TYPES[type].short, LEAVE_TYPES[type].label].some(name => name.toLocaleUpperCase('tr-TR') === normalized)
+    );
+};
+
+// İzinler sütunu: "gün" ya da "başlangıç-bitiş", ardından isteğe bağlı ":tür". Tür yazılmazsa yıllık izin sayılır.
+const parseLeaves = (raw: any, year: number, month: number, rowLabel: string): LeaveRecord[] => {
+    if (raw === undefined || raw === '') return [];
+    const daysByType = new Map<LeaveType, number[]>();
+    raw.toString().split(',').forEach((token: string) => {
+        const [rangePart, typePart] = token.split(':');
+        const [from, to] = rangePart.split('-').map(p => parseInt(p.trim()));
+        if (isNaN(from)) return;
+        let type: LeaveType = 'annual';
+        if (typePart !== undefined && typePart.trim() !== '') {
+            const parsed = parseLeaveType(typePart);
+            if (!parsed) throw new Error(`${rowLabel}: bilinmeyen izin türü "${typePart.trim()}" (Yİ, R, E veya D yazın).`);
+            type = parsed;
+        }
+        const days = daysByType.get(type) ?? [];
+        for (let d = from; d <= (isNaN(to) ? from : to); d++) days.push(d);
+        daysByType.set(type, days);
+    });
+    return LEAVE_TYPE_ORDER.flatMap(type => daysToLeaveRecords(daysByType.get(type) ?? [], year, month, type));
+};
+
+// İzinler sütunundaki günler seçili aya ait izin kaydı olarak okunur
+export const readStaffFromExcel = async (file: File, year: number, month: number): Promise<Staff[]> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = (e) => {
@@ -238,12 +330,6 @@ export const readStaffFromExcel = async (file: File): Promise<Staff[]> => {
                 const json = XLSX.utils.sheet_to_json(worksheet);
 
                 const staffList: Staff[] = json.map((row: any, index) => {
-                    const parseList = (str: any) => {
-                        if (typeof str === 'number') return [str];
-                        if (!str) return [];
-                        return str.toString().split(',').map((s: string) => parseInt(s.trim())).filter((n: number) => !isNaN(n));
-                    };
-
                     return {
                         id: `imp_${Date.now()}_${index}`,
                         name: row['Ad Soyad'] || 'İsimsiz',
@@ -252,8 +338,10 @@ export const readStaffFromExcel = async (file: File): Promise<Staff[]> => {
                         role: parseInt(row['Kıdem'] || '2'),
                         quotaService: parseInt(row['Hedef'] || '2'),
                         weekendLimit: parseInt(row['Haftasonu Limit'] || '1'),
-                        offDays: parseList(row['İzinler']),
-                        requestedDays: parseList(row['İstekler']),
+                        // Boş bırakılırsa sınırsız
+                        holidayLimit: row['Bayram Limit'] !== undefined && row['Bayram Limit'] !== '' ? parseInt(row['Bayram Limit']) : undefined,
+                        leaves: parseLeaves(row['İzinler'], year, month, row['Ad Soyad'] || `Satır ${index + 2}`),
+                        dayPreferences: parsePreferences(row, year, month),
                         isActive: true
                     };
                 });
@@ -265,3 +353,66 @@ export const readStaffFromExcel = async (file: File): Promise<Staff[]> => {
         reader.readAsBinaryString(file);
     });
 };
+
+// Daha önce bu uygulamadan indirilmiş bir listenin "Genel Liste" sayfasını geri okur.
+// Ay sınırı kuralları için önceki ayın geçmişi olarak kullanılır; isimler mevcut personelle eşleştirilir.
+export const readScheduleFromExcel = async (file: File, staffList: Staff[], services: Service[]): Promise<{ year: number; month: number; schedule: DaySchedule[]; unmatchedNames: string[] }> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const data = e.target?.result;
+                const wb = XLSX.read(data, { type: 'binary' });
+                const worksheet = wb.Sheets['Genel Liste'] || wb.Sheets[wb.SheetNames[0]];
+                const json = XLSX.utils.sheet_to_json(worksheet);
+
+                const normalize = (name: string) => name.replace(/\s*\(K\)\s*$/, '').trim().toLocaleLowerCase('tr-TR');
+                const staffByName = new Map(staffList.map(s => [normalize(s.name), s]));
+                const unmatched = new Set<string>();
+                const schedule: DaySchedule[] = [];
+                let year = -1;
+                let month = -1;
+
+                json.forEach((row: any) => {
+                    // Tarih formatı: 01.01.2024 Pazartesi
+                    const match = (row['Tarih'] || '').toString().match(/(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+                    if (!match) return;
+                    const day = parseInt(match[1]);
+                    month = parseInt(match[2]) - 1;
+                    year = parseInt(match[3]);
+
+                    const assignments: ShiftAssignment[] = [];
+                    Object.keys(row).forEach(column => {
+                        if (column === 'Tarih') return;
+                        const value = (row[column] || '').toString().trim();
+                        if (!value) return;
+                        const person = staffByName.get(normalize(value));
+                        if (!person) { unmatched.add(value); return; }
+                        // Sütun adı: "Servis Adı 2"
+                        const serviceName = column.replace(/\s+\d+$/, '');
+                        const service = services.find(s => s.name === serviceName);
+                        assignments.push({
+                            serviceId: service ? service.id : '',
+                            staffId: person.id,
+                            staffName: person.name,
+                            role: person.role,
+                            unit: person.unit
+                        });
+                    });
+
+                    const dow = new Date(year, month, day).getDay();
+                    schedule.push({ day, assignments, isWeekend: dow === 0 || dow === 6 });
+                });
+
+                if (schedule.length === 0) {
+                    reject(new Error('Dosyada tarih satırı bulunamadı.'));
+                    return;
+                }
+                resolve({ year, month, schedule, unmatchedNames: Array.from(unmatched) });
+            } catch (error) {
+                reject(error);
+            }
+        };
+        reader.readAsBinaryString(file);
+    });
+};
@@ -0,0 +1,107 @@
+import { DaySchedule, Holiday, LedgerBalance, LedgerCounts, LedgerMonth, SchedulerConfig, Service, Staff } from '../types';
+import { getMonthHolidays } from './holidays';
+import { DEFAULT_SHIFT_HOURS, buildShiftHoursMap, getTargetHours, toShiftEquivalents } from './hours';
+
+// Cumulative multi-month fairness ledger.
+// Arşivlenen her ay için kişi bazlı yük kaydı tutulur. Hedef o ayın hedefiyle kaydedilir,
+// böylece sonradan değişen kotalar geçmiş sapmayı bozmaz.
+
+export const DEFAULT_LEDGER_MONTHS = 6;
+
+const emptyCounts = (): LedgerCounts => ({ total: 0, weekend: 0, saturday: 0, sunday: 0, holiday: 0, quotaDeviation: 0 });
+
+// Ayları karşılaştırmak için tek sayı (yıl * 12 + ay)
+const monthIndex = (year: number, month: number) => year * 12 + month;
+
+export const buildLedgerMonth = (schedule: DaySchedule[], staff: Staff[], services: Service[], year: number, month: number, holidayCalendar?: Holiday[]): LedgerMonth => {
+    const holidays = getMonthHolidays(holidayCalendar, year, month);
+    const shiftHours = buildShiftHoursMap(services);
+    const entries: Record<string, LedgerCounts> = {};
+    const hours = new Map<string, number>();
+    staff.filter(s => s.isActive !== false).forEach(s => { entries[s.id] = emptyCounts(); });
+
+    schedule.forEach(d => {
+        const dow = new Date(year, month, d.day).getDay();
+        d.assignments.forEach(a => {
+            const counts = entries[a.staffId];
+            if (!counts) return;
+            counts.total++;
+            hours.set(a.staffId, (hours.get(a.staffId) || 0) + (shiftHours.get(a.serviceId) ?? DEFAULT_SHIFT_HOURS));
+            if (dow === 0 || dow === 6) counts.weekend++;
+            if (dow === 6) counts.saturday++;
+            if (dow === 0) counts.sunday++;
+            if (holidays.has(d.day)) counts.holiday++;
+        });
+    });
+
+    // Sapma saat hedefine göre, nöbet eşdeğeri olarak
+    staff.forEach(s => {
+        if (!entries[s.id]) return;
+        entries[s.id].quotaDeviation = Math.round(toShiftEquivalents((hours.get(s.id) || 0) - getTargetHours(s)) * 100) / 100;
+    });
+
+    return { year, month, entries };
+};
+
+// Aynı ay tekrar arşivlenirse eski kayıt değiştirilir
+export const upsertLedgerMonth = (ledger: LedgerMonth[], entry: LedgerMonth): LedgerMonth[] => {
+    return [...ledger.filter(m => !(m.year === entry.year && m.month === entry.month)), entry]
+        .sort((a, b) => monthIndex(a.year, a.month) - monthIndex(b.year, b.month));
+};
+
+const sumMonths = (months: LedgerMonth[]): LedgerBalance[] => {
+    const totals = new Map<string, LedgerBalance>();
+    months.forEach(m => {
+        Object.entries(m.entries).forEach(([staffId, c]) => {
+            const t = totals.get(staffId) || { staffId, months: 0, ...emptyCounts() };
+            t.months++;
+            t.total += c.total;
+            t.weekend += c.weekend;
+            t.saturday += c.saturday;
+            t.sunday += c.sunday;
+            t.holiday += c.holiday;
+            t.quotaDeviation += c.quotaDeviation;
+            totals.set(staffId, t);
+        });
+    });
+    return Array.from(totals.values());
+};
+
+// Seçili aydan ÖNCEKİ son `months` ay (seçili ayın kendisi dahil değil)
+export const summarizeLedger = (ledger: LedgerMonth[], year: number, month: number, months: number): LedgerBalance[] => {
+    const current = monthIndex(year, month);
+    return sumMonths(ledger.filter(m => {
+        const index = monthIndex(m.year, m.month);
+        return index < current && index >= current - months;
+    }));
+};
+
+// Yıl başından seçili aya kadar (seçili ay arşivlendiyse dahil)
+export const summarizeYearToDate = (ledger: LedgerMonth[], year: number, month: number): LedgerBalance[] => {
+    return sumMonths(ledger.filter(m => m.year === year && m.month <= month));
+};
+
+export interface LedgerPressure {
+    weekendExcess: number; // Geçmiş HS - aktif personelin geçmiş HS ortalaması
+    overQuota: number; // Geçmiş toplam hedef sapması (+: fazla nöbet)
+}
+
+// Puanlamada kullanılan geçmiş yük: sadece defterde yer alan aktif personel karşılaştırılır
+export const computeLedgerPressure = (balances: LedgerBalance[] = [], staff: Staff[]): Map<string, LedgerPressure> => {
+    const activeIds = new Set(staff.filter(s => s.isActive !== false).map(s => s.id));
+    const relevant = balances.filter(b => activeIds.has(b.staffId));
+    const pressure = new Map<string, LedgerPressure>();
+    if (relevant.length === 0) return pressure;
+
+    const meanWeekend = relevant.reduce((acc, b) => acc + b.weekend, 0) / relevant.length;
+    relevant.forEach(b => pressure.set(b.staffId, {
+        weekendExcess: b.weekend - meanWeekend,
+        overQuota: b.quotaDeviation
+    }));
+    return pressure;
+};
+
+// Amaç fonksiyonundaki haftasonu dengesizliği geçmiş aylarla birlikte hesaplanır
+export const getPastWeekendCounts = (config: SchedulerConfig): Map<string, number> => {
+    return new Map((config.fairnessLedger || []).map(b => [b.staffId, b.weekend]));
+};
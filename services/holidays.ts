@@ -0,0 +1,74 @@
+import { Holiday } from '../types';
+
+// Public holiday calendar.
+// Resmi tatiller sabit tarihlidir. Dini bayramlar Hicri takvime göre her yıl kayar; Diyanet takvimindeki
+// ilk bayram günleri aşağıdaki tabloda tutulur. Tabloda olmayan yıllar için özel tarih eklenmelidir.
+
+const RELIGIOUS_HOLIDAY_STARTS: Record<number, { ramazan: string; kurban: string }> = {
+    2024: { ramazan: '2024-04-10', kurban: '2024-06-16' },
+    2025: { ramazan: '2025-03-30', kurban: '2025-06-06' },
+    2026: { ramazan: '2026-03-20', kurban: '2026-05-27' },
+    2027: { ramazan: '2027-03-09', kurban: '2027-05-16' },
+    2028: { ramazan: '2028-02-26', kurban: '2028-05-05' }
+};
+
+const NATIONAL_HOLIDAYS: { monthDay: string; name: string; halfDay?: boolean }[] = [
+    { monthDay: '01-01', name: 'Yılbaşı' },
+    { monthDay: '04-23', name: 'Ulusal Egemenlik ve Çocuk Bayramı' },
+    { monthDay: '05-01', name: 'Emek ve Dayanışma Günü' },
+    { monthDay: '05-19', name: 'Atatürk\'ü Anma, Gençlik ve Spor Bayramı' },
+    { monthDay: '07-15', name: 'Demokrasi ve Milli Birlik Günü' },
+    { monthDay: '08-30', name: 'Zafer Bayramı' },
+    { monthDay: '10-28', name: 'Cumhuriyet Bayramı Arifesi', halfDay: true },
+    { monthDay: '10-29', name: 'Cumhuriyet Bayramı' }
+];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toDateKey = (year: number, month: number, day: number): string => `${year}-${pad(month + 1)}-${pad(day)}`;
+
+// YYYY-MM-DD'den `offset` gün sonrası (yerel saat, yaz saati kaymasından etkilenmez)
+const shiftDate = (date: string, offset: number): string => {
+    const [y, m, d] = date.split('-').map(Number);
+    const shifted = new Date(y, m - 1, d + offset);
+    return toDateKey(shifted.getFullYear(), shifted.getMonth(), shifted.getDate());
+};
+
+export const hasReligiousCalendar = (year: number): boolean => year in RELIGIOUS_HOLIDAY_STARTS;
+
+export const getBuiltInHolidays = (year: number): Holiday[] => {
+    const holidays: Holiday[] = NATIONAL_HOLIDAYS.map(h => ({
+        date: `${year}-${h.monthDay}`,
+        name: h.name,
+        halfDay: h.halfDay,
+        kind: 'national'
+    }));
+
+    const religious = RELIGIOUS_HOLIDAY_STARTS[year];
+    if (religious) {
+        const addBayram = (start: string, name: string, days: number) => {
+            holidays.push({ date: shiftDate(start, -1), name: `${name} Arifesi`, halfDay: true, kind: 'religious' });
+            for (let i = 0; i < days; i++) {
+                holidays.push({ date: shiftDate(start, i), name: `${name} ${i + 1}. Gün`, kind: 'religious' });
+            }
+        };
+        addBayram(religious.ramazan, 'Ramazan Bayramı', 3);
+        addBayram(religious.kurban, 'Kurban Bayramı', 4);
+    }
+
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Seçili ayın tatil günleri (gün -> tatil). Aynı tarihte birden fazla kayıt varsa özel tarih önceliklidir.
+export const getMonthHolidays = (holidays: Holiday[] | undefined, year: number, month: number): Map<number, Holiday> => {
+    const prefix = `${year}-${pad(month + 1)}-`;
+    const byDay = new Map<number, Holiday>();
+    (holidays || [])
+        .filter(h => h.date.startsWith(prefix))
+        .forEach(h => {
+            const day = parseInt(h.date.slice(prefix.length));
+            const existing = byDay.get(day);
+            if (!existing || h.kind === 'custom') byDay.set(day, h);
+        });
+    return byDay;
+};
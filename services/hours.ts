@@ -0,0 +1,52 @@
+import { Service, Staff } from '../types';
+import { RoleHierarchy } from './roles';
+
+// Hours-based quotas.
+// Nöbet süresi servis bazındadır (varsayılan 24 saat). Kişinin aylık hedefi saat olarak çözülür:
+// sözleşme saati > çalışma oranı × nöbet hedefi × 24 > nöbet hedefi × 24.
+// Alanlar boşken saat hesapları eski sayı bazlı davranışla birebir aynıdır.
+
+export const DEFAULT_SHIFT_HOURS = 24;
+
+export const getShiftHours = (service: Service | undefined): number => service?.shiftHours ?? DEFAULT_SHIFT_HOURS;
+
+export const getTargetHours = (person: Staff): number => {
+    if (person.contractHours !== undefined) return person.contractHours;
+    return (person.fte ?? 1) * person.quotaService * DEFAULT_SHIFT_HOURS;
+};
+
+// Kişinin saat olarak alt sınırı, hedefi ve tavanı.
+// Kişi kaydındaki en az / en fazla nöbet doğrudan, rol tanımındaki değerler çalışma oranıyla ölçeklenerek kullanılır.
+export interface QuotaBounds {
+    min: number;
+    target: number;
+    max: number;
+}
+
+export const getQuotaBounds = (person: Staff, roles: RoleHierarchy): QuotaBounds => {
+    const role = roles.byRole.get(person.role);
+    const fte = person.fte ?? 1;
+    const toHours = (own: number | undefined, fromRole: number | undefined): number | undefined => {
+        if (own !== undefined) return own * DEFAULT_SHIFT_HOURS;
+        return fromRole !== undefined ? fromRole * fte * DEFAULT_SHIFT_HOURS : undefined;
+    };
+    const target = getTargetHours(person);
+    const max = toHours(person.quotaMax, role?.quotaMax) ?? target;
+    const min = Math.min(toHours(person.quotaMin, role?.quotaMin) ?? 0, max);
+    return { min, target, max };
+};
+
+// Alt sınırın altında kalan toplam, nöbet eşdeğeri olarak
+export const sumMinimumShortfall = (staff: Staff[], hoursOf: (staffId: string) => number, roles: RoleHierarchy): number =>
+    staff.reduce((acc, s) => acc + toShiftEquivalents(Math.max(0, getQuotaBounds(s, roles).min - hoursOf(s.id))), 0);
+
+// Kişi sözleşme saati veya çalışma oranıyla mı tanımlı (arayüzde saat gösterimi için)
+export const hasHoursContract = (person: Staff): boolean => person.contractHours !== undefined || person.fte !== undefined;
+
+// Saat farklarını puanlama ve amaç fonksiyonunda "nöbet" ölçeğine çevirir
+export const toShiftEquivalents = (hours: number): number => hours / DEFAULT_SHIFT_HOURS;
+
+export const buildShiftHoursMap = (services: Service[]): Map<string, number> =>
+    new Map(services.map(s => [s.id, getShiftHours(s)]));
+
+export const formatHours = (hours: number): string => `${Math.round(hours * 10) / 10} sa`;
@@ -0,0 +1,64 @@
+import { LeaveRecord, LeaveType, Staff } from '../types';
+import { toDateKey } from './holidays';
+
+// Date-range leave records.
+// İzinler gerçek başlangıç/bitiş tarihleriyle (YYYY-MM-DD, iki uç dahil) tutulur; ay değişince kaybolmaz.
+// Seçili ayın izinli günleri her seferinde kayıtlardan türetilir.
+
+export const LEAVE_TYPES: Record<LeaveType, { label: string; short: string; excelColor: string }> = {
+    annual: { label: 'Yıllık İzin', short: 'Yİ', excelColor: 'DDEBF7' },
+    sick: { label: 'Sağlık Raporu', short: 'R', excelColor: 'FCE4D6' },
+    training: { label: 'Eğitim / Kurs', short: 'E', excelColor: 'E2EFDA' },
+    maternity: { label: 'Doğum İzni', short: 'D', excelColor: 'EDE1F5' }
+};
+
+export const LEAVE_TYPE_ORDER: LeaveType[] = ['annual', 'sick', 'training', 'maternity'];
+
+export const createLeaveId = () => `lv_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Seçili ayın izinli günleri (gün -> izin türü). Çakışan kayıtlarda sonra eklenen geçerlidir.
+export const getMonthLeaveDays = (person: Staff, year: number, month: number): Map<number, LeaveType> => {
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const first = toDateKey(year, month, 1);
+    const last = toDateKey(year, month, daysInMonth);
+    const byDay = new Map<number, LeaveType>();
+    (person.leaves || []).forEach(leave => {
+        if (leave.end < first || leave.start > last) return;
+        const from = leave.start < first ? 1 : parseInt(leave.start.slice(8));
+        const to = leave.end > last ? daysInMonth : parseInt(leave.end.slice(8));
+        for (let d = from; d <= to; d++) byDay.set(d, leave.type);
+    });
+    return byDay;
+};
+
+export const getMonthOffDays = (person: Staff, year: number, month: number): number[] => {
+    return Array.from(getMonthLeaveDays(person, year, month).keys()).sort((a, b) => a - b);
+};
+
+// Kural kontrolleri için tüm personelin izinli günleri (staffId -> günler)
+export const buildLeaveMap = (staff: Staff[], year: number, month: number): Map<string, Set<number>> => {
+    return new Map(staff.map(s => [s.id, new Set(getMonthLeaveDays(s, year, month).keys())]));
+};
+
+// Ayın gün numaralarını ardışık aralıklara çevirir (ör. 3,4,5,9 -> 3-5 ve 9)
+export const daysToLeaveRecords = (days: number[], year: number, month: number, type: LeaveType): LeaveRecord[] => {
+    const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+    const records: LeaveRecord[] = [];
+    let start = -1;
+    sorted.forEach((d, i) => {
+        if (start === -1) start = d;
+        if (sorted[i + 1] !== d + 1) {
+            records.push({ id: createLeaveId(), type, start: toDateKey(year, month, start), end: toDateKey(year, month, d) });
+            start = -1;
+        }
+    });
+    return records;
+};
+
+export const formatLeaveRange = (leave: LeaveRecord): string => {
+    const fmt = (date: string) => {
+        const [y, m, d] = date.split('-').map(Number);
+        return new Date(y, m - 1, d).toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+    };
+    return leave.start === leave.end ? fmt(leave.start) : `${fmt(leave.start)} - ${fmt(leave.end)}`;
+};
@@ -0,0 +1,284 @@
+import { DaySchedule, Service, Staff, SchedulerConfig, ScheduleObjective, ScheduleImprovement, ShiftAssignment, Stats, LocalSearchConfig } from '../types';
+import { RandomFn } from './random';
+import { getPastWeekendCounts } from './fairnessLedger';
+import { getMonthHolidays } from './holidays';
+import { countUnmetRequests } from './preferences';
+import { ActiveRule, createScheduleInspector, findViolatedRule, resolveRules } from './rules';
+import { findSplitPairs } from './pairConstraints';
+import { countCompositionShortfalls } from './composition';
+import { RoleHierarchy, getRoleHierarchy } from './roles';
+import { DEFAULT_SHIFT_HOURS, buildShiftHoursMap, getTargetHours, sumMinimumShortfall, toShiftEquivalents } from './hours';
+import { buildPinIndex, getMonthPins, isFrozen } from './pins';
+
+// Simulated annealing over the greedy result.
+// Komşuluk: boş slotu doldur, bir atamayı başka kişiye ver, iki farklı günün atamalarını takasla.
+// Her hamleden sonra değişen atamalar kural registry'si ile denetlenir; kesin kurallar asla bozulmaz.
+// Arama sabit iterasyon bütçesiyle durur (makine hızından bağımsız); süre sadece güvenlik sınırıdır.
+
+export const DEFAULT_LOCAL_SEARCH: LocalSearchConfig = {
+    enabled: true,
+    maxIterations: 10000,
+    safetyLimitMs: 60000
+};
+
+// Amaç fonksiyonu ağırlıkları: boş slot her şeyden önemli
+export const OBJECTIVE_WEIGHTS = {
+    unfilledSlots: 1000,
+    minimumShortfall: 100,
+    quotaDeviation: 10,
+    weekendSpread: 5,
+    unmetRequests: 3
+};
+
+const START_TEMPERATURE = 30;
+const PROGRESS_INTERVAL = 500;
+
+interface SlotChange {
+    day: number;
+    index: number; // O günün assignments dizisindeki sıra
+    staffId: string;
+}
+
+export const computeStats = (schedule: DaySchedule[], staff: Staff[], services: Service[], config: SchedulerConfig): Stats[] => {
+    const byId = new Map<string, Stats>();
+    staff.forEach(s => byId.set(s.id, {
+        staffId: s.id, totalShifts: 0, weekendShifts: 0, saturdayShifts: 0, sundayShifts: 0, holidayShifts: 0,
+        hoursWorked: 0, targetHours: getTargetHours(s)
+    }));
+    const shiftHours = buildShiftHoursMap(services);
+    const holidays = getMonthHolidays(config.holidays, config.year, config.month);
+
+    schedule.forEach(d => {
+        const dow = new Date(config.year, config.month, d.day).getDay();
+        d.assignments.forEach(a => {
+            const stat = byId.get(a.staffId);
+            if (!stat) return;
+            stat.totalShifts++;
+            stat.hoursWorked = (stat.hoursWorked || 0) + (shiftHours.get(a.serviceId) ?? DEFAULT_SHIFT_HOURS);
+            if (dow === 0 || dow === 6) stat.weekendShifts++;
+            if (dow === 6) stat.saturdayShifts++;
+            if (dow === 0) stat.sundayShifts++;
+            if (holidays.has(d.day)) stat.holidayShifts++;
+        });
+    });
+
+    return Array.from(byId.values());
+};
+
+export const evaluateObjective = (schedule: DaySchedule[], staff: Staff[], services: Service[], config: SchedulerConfig): ScheduleObjective => {
+    const stats = computeStats(schedule, staff, services, config);
+    const statById = new Map(stats.map(s => [s.staffId, s]));
+
+    const unfilledSlots = schedule.reduce((acc, d) => acc + d.assignments.filter(a => a.staffId === 'EMPTY').length, 0);
+
+    // Hedef sapması saat üzerinden, nöbet eşdeğeri olarak
+    let quotaDeviation = 0;
+    staff.forEach(s => { quotaDeviation += toShiftEquivalents(Math.abs(getTargetHours(s) - (statById.get(s.id)?.hoursWorked || 0))); });
+    quotaDeviation = Math.round(quotaDeviation * 100) / 100;
+    const minimumShortfall = Math.round(sumMinimumShortfall(staff, id => statById.get(id)?.hoursWorked || 0, getRoleHierarchy(config.roles)) * 100) / 100;
+
+    // Adalet defteri varsa geçmiş ayların haftasonları da sayılır: geçmişte fazla tutan bu ay az tutar
+    const pastWeekends = getPastWeekendCounts(config);
+    const weekendCounts = stats.map(s => s.weekendShifts + (pastWeekends.get(s.staffId) || 0));
+    const meanWeekend = weekendCounts.length > 0 ? weekendCounts.reduce((acc, w) => acc + w, 0) / weekendCounts.length : 0;
+    const weekendSpread = Math.round(weekendCounts.reduce((acc, w) => acc + Math.pow(w - meanWeekend, 2), 0) * 100) / 100;
+
+    // Karşılanmayan istekler düzey ve önceliğe göre ağırlıklı, tutulan "tercihen olmasın" günleri dahil
+    const unmetRequests = countUnmetRequests(schedule, staff, config.year, config.month);
+
+    const total = Math.round((
+        unfilledSlots * OBJECTIVE_WEIGHTS.unfilledSlots +
+        minimumShortfall * OBJECTIVE_WEIGHTS.minimumShortfall +
+        quotaDeviation * OBJECTIVE_WEIGHTS.quotaDeviation +
+        weekendSpread * OBJECTIVE_WEIGHTS.weekendSpread +
+        unmetRequests * OBJECTIVE_WEIGHTS.unmetRequests
+    ) * 100) / 100;
+
+    return { unfilledSlots, minimumShortfall, quotaDeviation, weekendSpread, unmetRequests, total };
+};
+
+// Faz 0 ve Faz 1 garantileri: bir gündeki kıdemli ve özel birim kapsaması hamleyle azalmamalı
+export const getDayCoverage = (assignments: ShiftAssignment[], staffById: Map<string, Staff>, specialties: Set<string>, roles: RoleHierarchy) => {
+    let seniors = 0;
+    const covered = new Set<string>();
+    const roleCounts = new Map<number, number>();
+    assignments.forEach(a => {
+        const person = staffById.get(a.staffId);
+        if (!person) return;
+        if (roles.isSenior(person.role)) seniors++;
+        roleCounts.set(person.role, (roleCounts.get(person.role) || 0) + 1);
+        const specialty = person.specialty?.trim();
+        if (specialty && specialties.has(specialty)) covered.add(specialty);
+    });
+    return { seniors, covered, roleCounts };
+};
+
+// Faz 1 garantileri: günün kıdemlisi ve rol günlük minimumları hamleyle azaltılamaz
+export const coversRoleMinimums = (
+    before: ReturnType<typeof getDayCoverage>,
+    after: ReturnType<typeof getDayCoverage>,
+    roles: RoleHierarchy
+): boolean => {
+    if (after.seniors < Math.min(1, before.seniors)) return false;
+    return roles.roles.every(r => {
+        if (!r.dailyMin) return true;
+        return (after.roleCounts.get(r.role) || 0) >= Math.min(r.dailyMin, before.roleCounts.get(r.role) || 0);
+    });
+};
+
+const applyChanges = (schedule: DaySchedule[], changes: SlotChange[], staffById: Map<string, Staff>): DaySchedule[] => {
+    const touched = new Set(changes.map(c => c.day));
+    return schedule.map(d => {
+        if (!touched.has(d.day)) return d;
+        const assignments = [...d.assignments];
+        changes.filter(c => c.day === d.day).forEach(c => {
+            const person = staffById.get(c.staffId)!;
+            assignments[c.index] = {
+                serviceId: assignments[c.index].serviceId,
+                staffId: person.id,
+                staffName: person.name,
+                role: person.role,
+                unit: person.unit
+            };
+        });
+        return { ...d, assignments };
+    });
+};
+
+export const improveSchedule = (
+    initial: DaySchedule[],
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig,
+    random: RandomFn,
+    onProgress?: (iteration: number, totalIterations: number, current: ScheduleObjective) => void
+): { schedule: DaySchedule[]; improvement: ScheduleImprovement } => {
+    const options = config.localSearch || DEFAULT_LOCAL_SEARCH;
+    const activeStaff = staff.filter(s => s.isActive !== false);
+    const staffById = new Map(activeStaff.map(s => [s.id, s]));
+    const serviceById = new Map(services.map(s => [s.id, s]));
+    const rules: ActiveRule[] = resolveRules(config.rules, false);
+    const specialties = new Set(config.unitConstraints.map(c => c.unit.trim()));
+    const roles = getRoleHierarchy(config.roles);
+    const pins = buildPinIndex(getMonthPins(config.pins, config.year, config.month));
+
+    const isFeasible = (candidate: DaySchedule[], previous: DaySchedule[], changes: SlotChange[]): boolean => {
+        // Kapsama garantileri
+        for (const day of new Set(changes.map(c => c.day))) {
+            const before = getDayCoverage(previous.find(d => d.day === day)!.assignments, staffById, specialties, roles);
+            const after = getDayCoverage(candidate.find(d => d.day === day)!.assignments, staffById, specialties, roles);
+            if (!coversRoleMinimums(before, after, roles)) return false;
+            for (const specialty of before.covered) if (!after.covered.has(specialty)) return false;
+
+            // Kesin "birlikte olsun" çiftleri: hamle yeni bir bölünmüş çift oluşturamaz
+            const beforeSplit = findSplitPairs(config.pairConstraints, new Set(previous.find(d => d.day === day)!.assignments.map(a => a.staffId)), staffById);
+            const afterSplit = findSplitPairs(config.pairConstraints, new Set(candidate.find(d => d.day === day)!.assignments.map(a => a.staffId)), staffById);
+            if (afterSplit.some(c => !beforeSplit.includes(c))) return false;
+
+            // Servis kıdem şartları: eksik kalan "en az" şartı sayısı artamaz
+            const beforeShort = countCompositionShortfalls(services, previous.find(d => d.day === day)!.assignments, staffById);
+            const afterShort = countCompositionShortfalls(services, candidate.find(d => d.day === day)!.assignments, staffById);
+            if (afterShort > beforeShort) return false;
+        }
+
+        // Kesin kurallar: sadece yeni yerleşimler denetlenir. Atama kaldırmak hiçbir kuralı bozamaz.
+        const { buildContext } = createScheduleInspector(candidate, activeStaff, services, config);
+        return changes.every(c => {
+            const person = staffById.get(c.staffId)!;
+            const service = serviceById.get(candidate.find(d => d.day === c.day)!.assignments[c.index].serviceId);
+            if (!service) return false;
+            return findViolatedRule(rules, buildContext(person, service, c.day, c.index)) === null;
+        });
+    };
+
+    // Rastgele komşu hamle üretir (null = bu turda uygun hamle bulunamadı)
+    const proposeMove = (schedule: DaySchedule[]): SlotChange[] | null => {
+        const slots: { day: number; index: number; staffId: string }[] = [];
+        // Sabitlenen atamalar ve kilitli günler hamlelere katılmaz
+        schedule.forEach(d => d.assignments.forEach((a, index) => {
+            if (!isFrozen(pins, d.day, a.serviceId, a.staffId)) slots.push({ day: d.day, index, staffId: a.staffId });
+        }));
+        if (slots.length === 0 || activeStaff.length === 0) return null;
+
+        const emptySlots = slots.filter(s => s.staffId === 'EMPTY');
+        const roll = random();
+
+        if (emptySlots.length > 0 && roll < 0.3) {
+            const slot = emptySlots[Math.floor(random() * emptySlots.length)];
+            const person = activeStaff[Math.floor(random() * activeStaff.length)];
+            return [{ day: slot.day, index: slot.index, staffId: person.id }];
+        }
+
+        const filled = slots.filter(s => s.staffId !== 'EMPTY');
+        if (filled.length === 0) return null;
+        const a = filled[Math.floor(random() * filled.length)];
+
+        if (roll < 0.65) {
+            // Yeniden ata: slotu o gün çalışmayan başka birine ver
+            const person = activeStaff[Math.floor(random() * activeStaff.length)];
+            if (person.id === a.staffId) return null;
+            return [{ day: a.day, index: a.index, staffId: person.id }];
+        }
+
+        // Takas: iki farklı günün kişilerini değiştir
+        const b = filled[Math.floor(random() * filled.length)];
+        if (a.day === b.day || a.staffId === b.staffId) return null;
+        return [
+            { day: a.day, index: a.index, staffId: b.staffId },
+            { day: b.day, index: b.index, staffId: a.staffId }
+        ];
+    };
+
+    const startTime = Date.now();
+    let current = initial.map(d => ({ ...d, assignments: [...d.assignments] }));
+    let currentObjective = evaluateObjective(current, activeStaff, services, config);
+    const before = currentObjective;
+    let best = current;
+    let bestObjective = currentObjective;
+    let iterations = 0;
+    let acceptedMoves = 0;
+    let stoppedBySafetyLimit = false;
+
+    while (iterations < options.maxIterations) {
+        if (iterations % 64 === 0 && Date.now() - startTime >= options.safetyLimitMs) {
+            stoppedBySafetyLimit = true;
+            break;
+        }
+        iterations++;
+
+        const changes = proposeMove(current);
+        if (changes) {
+            const candidate = applyChanges(current, changes, staffById);
+            if (isFeasible(candidate, current, changes)) {
+                const candidateObjective = evaluateObjective(candidate, activeStaff, services, config);
+                const delta = candidateObjective.total - currentObjective.total;
+                // Sıcaklık iterasyon bütçesine göre düşer (süreye göre değil) => tekrar üretilebilir
+                const temperature = START_TEMPERATURE * (1 - iterations / options.maxIterations) + 0.01;
+
+                if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+                    current = candidate;
+                    currentObjective = candidateObjective;
+                    acceptedMoves++;
+                    if (currentObjective.total < bestObjective.total) {
+                        best = current;
+                        bestObjective = currentObjective;
+                    }
+                }
+            }
+        }
+
+        if (onProgress && iterations % PROGRESS_INTERVAL === 0) onProgress(iterations, options.maxIterations, bestObjective);
+    }
+
+    return {
+        schedule: best,
+        improvement: {
+            before,
+            after: bestObjective,
+            iterations,
+            acceptedMoves,
+            elapsedMs: Date.now() - startTime,
+            stoppedBySafetyLimit
+        }
+    };
+};
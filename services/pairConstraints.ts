@@ -0,0 +1,65 @@
+import { DaySchedule, PairConstraint, PairConstraintKind, RuleViolation, Staff } from '../types';
+
+// Personnel pair constraints.
+// Kesin "birlikte olmasın" aday seçiminde kural kayıt defterinden (pairNever) engellenir.
+// Kesin "birlikte olsun" gün bazında denetlenir: gün içinde çiftten yalnızca biri yazılmışsa ihlaldir.
+// Esnek çiftler sadece puanlamaya girer (pairApart / pairTogether ağırlıkları).
+
+export const PAIR_KIND_LABELS: Record<PairConstraintKind, string> = {
+    never: 'Birlikte Olmasın',
+    always: 'Birlikte Olsun'
+};
+
+export const createPairConstraintId = () => `pair_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Kişinin verilen türdeki eşleri (hard boşsa kesin + esnek)
+export const getPairPartners = (
+    constraints: PairConstraint[] | undefined,
+    staffId: string,
+    kind: PairConstraintKind,
+    hard?: boolean
+): string[] => {
+    const partners: string[] = [];
+    (constraints || []).forEach(c => {
+        if (c.kind !== kind || (hard !== undefined && c.hard !== hard) || c.staffA === c.staffB) return;
+        if (c.staffA === staffId) partners.push(c.staffB);
+        else if (c.staffB === staffId) partners.push(c.staffA);
+    });
+    return partners;
+};
+
+// O gün kesin "birlikte olsun" çiftinden yalnızca birinin yazıldığı kurallar (pasif personelli çiftler sayılmaz)
+export const findSplitPairs = (
+    constraints: PairConstraint[] | undefined,
+    idsOnDay: Set<string>,
+    staffById: Map<string, Staff>
+): PairConstraint[] => {
+    return (constraints || []).filter(c => {
+        if (c.kind !== 'always' || !c.hard || c.staffA === c.staffB) return false;
+        const a = staffById.get(c.staffA);
+        const b = staffById.get(c.staffB);
+        if (!a || !b || a.isActive === false || b.isActive === false) return false;
+        return idsOnDay.has(c.staffA) !== idsOnDay.has(c.staffB);
+    });
+};
+
+// Tamamlanmış çizelgedeki bölünmüş çiftler: yazılan kişinin o günkü ataması işaretlenir
+export const validatePairConstraints = (
+    schedule: DaySchedule[],
+    staff: Staff[],
+    constraints: PairConstraint[] | undefined
+): RuleViolation[] => {
+    if (!constraints || constraints.length === 0) return [];
+    const staffById = new Map(staff.map(s => [s.id, s]));
+    const violations: RuleViolation[] = [];
+    schedule.forEach(d => {
+        const ids = new Set(d.assignments.map(a => a.staffId));
+        findSplitPairs(constraints, ids, staffById).forEach(c => {
+            const present = ids.has(c.staffA) ? c.staffA : c.staffB;
+            d.assignments.forEach(a => {
+                if (a.staffId === present) violations.push({ day: d.day, serviceId: a.serviceId, staffId: present, ruleId: 'pairTogether' });
+            });
+        });
+    });
+    return violations;
+};
@@ -0,0 +1,67 @@
+import { DaySchedule, PinnedAssignment, SchedulePins } from '../types';
+
+// Pinned assignments and locked days.
+// Sabitlenen atamalar üretimde önceden yerleştirilmiş durum gibi davranır: istatistiklere sayılır,
+// diğer adayların kural kontrolleri onları görür ve hiçbir aşama (yerel arama dahil) onları değiştirmez.
+// Bir günü kilitlemek o günün sabitlenmemiş atamalarını da sabitler; kilit kalkınca sadece kilidin eklediği sabitlemeler kalkar.
+
+export const emptyPins = (year: number, month: number): SchedulePins => ({ year, month, assignments: [], lockedDays: [] });
+
+// Sadece seçili aya ait sabitlemeler geçerlidir
+export const getMonthPins = (pins: SchedulePins | null | undefined, year: number, month: number): SchedulePins | undefined => {
+    return pins && pins.year === year && pins.month === month ? pins : undefined;
+};
+
+export const pinKey = (day: number, serviceId: string, staffId: string) => `${day}-${serviceId}-${staffId}`;
+
+export interface PinIndex {
+    keys: Set<string>;
+    lockedDays: Set<number>;
+}
+
+export const buildPinIndex = (pins?: SchedulePins): PinIndex => ({
+    keys: new Set((pins?.assignments || []).map(p => pinKey(p.day, p.serviceId, p.staffId))),
+    lockedDays: new Set(pins?.lockedDays || [])
+});
+
+// Atama üretimde değiştirilemez mi (kilitli gün veya sabitlenmiş atama)
+export const isFrozen = (index: PinIndex, day: number, serviceId: string, staffId: string): boolean => {
+    return index.lockedDays.has(day) || index.keys.has(pinKey(day, serviceId, staffId));
+};
+
+const samePin = (a: PinnedAssignment, b: PinnedAssignment) => a.day === b.day && a.serviceId === b.serviceId && a.staffId === b.staffId;
+
+export const togglePinnedAssignment = (pins: SchedulePins | null | undefined, year: number, month: number, pin: PinnedAssignment): SchedulePins => {
+    const current = getMonthPins(pins, year, month) ?? emptyPins(year, month);
+    const exists = current.assignments.some(p => samePin(p, pin));
+    return {
+        ...current,
+        assignments: exists ? current.assignments.filter(p => !samePin(p, pin)) : [...current.assignments, pin],
+        lockAddedAssignments: current.lockAddedAssignments?.filter(p => !samePin(p, pin))
+    };
+};
+
+export const toggleLockedDay = (pins: SchedulePins | null | undefined, year: number, month: number, day: number, schedule: DaySchedule[]): SchedulePins => {
+    const current = getMonthPins(pins, year, month) ?? emptyPins(year, month);
+    const lockAdded = current.lockAddedAssignments || [];
+    if (current.lockedDays.includes(day)) {
+        const addedToday = lockAdded.filter(p => p.day === day);
+        return {
+            ...current,
+            assignments: current.assignments.filter(p => !addedToday.some(added => samePin(added, p))),
+            lockedDays: current.lockedDays.filter(d => d !== day),
+            lockAddedAssignments: lockAdded.filter(p => p.day !== day)
+        };
+    }
+    // Kilitten önce elle sabitlenenler kilit kalkınca da sabit kalır
+    const added = (schedule.find(d => d.day === day)?.assignments || [])
+        .filter(a => a.staffId !== 'EMPTY')
+        .map(a => ({ day, serviceId: a.serviceId, staffId: a.staffId }))
+        .filter(pin => !current.assignments.some(p => samePin(p, pin)));
+    return {
+        ...current,
+        assignments: [...current.assignments, ...added],
+        lockedDays: [...current.lockedDays, day].sort((a, b) => a - b),
+        lockAddedAssignments: [...lockAdded, ...added]
+    };
+};
@@ -0,0 +1,89 @@
+import { DayPreference, DayPreferenceLevel, DaySchedule, RequestPriority, Staff } from '../types';
+
+// Day-level availability and shift requests.
+// 'unavailable' kesin kuraldır (rules.ts). 'preferNot' puandan düşülür; 'prefer' ve 'must' istekleri
+// öncelik çarpanıyla puanlanır. Amaç fonksiyonunda zorunlu istek tercihin 3 katı sayılır.
+
+export const PREFERENCE_LEVELS: Record<DayPreferenceLevel, { label: string; short: string }> = {
+    unavailable: { label: 'Nöbet Alamaz', short: 'X' },
+    preferNot: { label: 'Tercihen Olmasın', short: '–' },
+    prefer: { label: 'İstek (Tercih)', short: 'İ' },
+    must: { label: 'İstek (Zorunlu)', short: 'Z' }
+};
+
+export const PREFERENCE_LEVEL_ORDER: DayPreferenceLevel[] = ['must', 'prefer', 'preferNot', 'unavailable'];
+
+export const DEFAULT_REQUEST_PRIORITY: RequestPriority = 2;
+
+export const PRIORITY_LABELS: Record<RequestPriority, string> = { 1: 'Yüksek', 2: 'Normal', 3: 'Düşük' };
+
+const PRIORITY_FACTORS: Record<RequestPriority, number> = { 1: 1.5, 2: 1, 3: 0.5 };
+
+const MUST_OBJECTIVE_FACTOR = 3;
+
+export const isRequestLevel = (level: DayPreferenceLevel) => level === 'prefer' || level === 'must';
+
+const isInMonth = (pref: DayPreference, year: number, month: number) => pref.year === year && pref.month === month;
+
+// Tercihler izinler gibi tarihlidir: başka aylara ait olanlar seçili ayı etkilemez
+export const getMonthPreferences = (person: Staff, year: number, month: number): DayPreference[] => {
+    return (person.dayPreferences || []).filter(p => isInMonth(p, year, month));
+};
+
+export const getDayPreference = (person: Staff, year: number, month: number, day: number): DayPreference | undefined => {
+    return (person.dayPreferences || []).find(p => p.day === day && isInMonth(p, year, month));
+};
+
+export const getRequests = (person: Staff, year: number, month: number): DayPreference[] => {
+    return getMonthPreferences(person, year, month).filter(p => isRequestLevel(p.level));
+};
+
+// Seçili ayın tercihlerini değiştirir, diğer ayları korur
+export const replaceMonthPreferences = (person: Staff, year: number, month: number, preferences: DayPreference[]): DayPreference[] => {
+    return [...(person.dayPreferences || []).filter(p => !isInMonth(p, year, month)), ...preferences];
+};
+
+export const getPriorityFactor = (pref: DayPreference): number => PRIORITY_FACTORS[pref.priority ?? DEFAULT_REQUEST_PRIORITY];
+
+// Amaç fonksiyonunda karşılanmayan bir isteğin ağırlığı
+export const requestObjectiveWeight = (pref: DayPreference): number => {
+    return (pref.level === 'must' ? MUST_OBJECTIVE_FACTOR : 1) * getPriorityFactor(pref);
+};
+
+// Bir kişinin bir gündeki istek cezası: karşılanmayan istek veya tutulan "tercihen olmasın" günü
+export const preferencePenalty = (pref: DayPreference | undefined, worked: boolean): number => {
+    if (!pref) return 0;
+    if (isRequestLevel(pref.level)) return worked ? 0 : requestObjectiveWeight(pref);
+    if (pref.level === 'preferNot') return worked ? 1 : 0;
+    return 0;
+};
+
+export const countUnmetRequests = (schedule: DaySchedule[], staff: Staff[], year: number, month: number): number => {
+    const worked = new Set<string>();
+    schedule.forEach(d => d.assignments.forEach(a => worked.add(`${a.staffId}:${d.day}`)));
+    let unmet = 0;
+    staff.forEach(s => getMonthPreferences(s, year, month).forEach(p => { unmet += preferencePenalty(p, worked.has(`${s.id}:${p.day}`)); }));
+    return Math.round(unmet * 100) / 100;
+};
+
+export interface LevelSatisfaction {
+    total: number;
+    satisfied: number; // İstekte: nöbet yazıldı; diğerlerinde: yazılmadı
+}
+
+export const summarizeRequestSatisfaction = (schedule: DaySchedule[], staff: Staff[], year: number, month: number): Record<DayPreferenceLevel, LevelSatisfaction> => {
+    const summary: Record<DayPreferenceLevel, LevelSatisfaction> = {
+        must: { total: 0, satisfied: 0 },
+        prefer: { total: 0, satisfied: 0 },
+        preferNot: { total: 0, satisfied: 0 },
+        unavailable: { total: 0, satisfied: 0 }
+    };
+    const worked = new Set<string>();
+    schedule.forEach(d => d.assignments.forEach(a => worked.add(`${a.staffId}:${d.day}`)));
+    staff.filter(s => s.isActive !== false).forEach(s => getMonthPreferences(s, year, month).forEach(p => {
+        const isWorked = worked.has(`${s.id}:${p.day}`);
+        summary[p.level].total++;
+        if (isRequestLevel(p.level) === isWorked) summary[p.level].satisfied++;
+    }));
+    return summary;
+};
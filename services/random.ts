@@ -0,0 +1,24 @@
+// Seeded PRNG helpers.
+// Scheduler içindeki TÜM rastgelelik buradan geçer, böylece aynı tohum (seed) aynı çizelgeyi üretir.
+
+export type RandomFn = () => number; // [0, 1) aralığında sayı döner (Math.random gibi)
+
+// Mulberry32: küçük, hızlı ve deterministik 32-bit üreteç
+export const createRandom = (seed: number): RandomFn => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Her deneme (attempt) kendi alt tohumunu kullanır; tek bir deneme tekrar oynatılabilir.
+export const deriveSeed = (seed: number, attemptIndex: number): number => {
+    return (seed ^ Math.imul(attemptIndex + 1, 0x9E3779B1)) >>> 0;
+};
+
+// Kullanıcı tohum vermezse yeni bir tane üret
+export const generateSeed = (): number => Math.floor(Math.random() * 0x7FFFFFFF);
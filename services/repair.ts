@@ -0,0 +1,131 @@
+import { DaySchedule, PinnedAssignment, RepairAbsence, ScheduleChange, SchedulerConfig, SchedulerProgress, ScheduleResult, Service, Staff } from '../types';
+import { Scheduler } from './scheduler';
+import { daysToLeaveRecords } from './leave';
+import { buildPinIndex, getMonthPins, pinKey } from './pins';
+import { generateSeed } from './random';
+
+// Minimal-change repair of a published schedule.
+// Yeni yokluk günlerindeki atamalar boşaltılır, geri kalan her şey sabitlenip Scheduler yeniden çalıştırılır.
+// Boşalan slotlardan doldurulamayan kalırsa komşu günlerdeki atamalar birer birer serbest bırakılır:
+// her adımda boş slotu en çok azaltan (eşitlikte en az değişiklik getiren) seçilir, boş slot azalmıyorsa durulur.
+// Elle sabitlenen atamalar hiçbir zaman serbest bırakılmaz.
+
+export const MAX_RELEASED_ASSIGNMENTS = 6;
+export const REPAIR_NEIGHBOURHOOD_DAYS = 1; // Serbest bırakılabilecek atamalar etkilenen günlere bu kadar yakın
+const TRIAL_RETRIES = 10; // Aday denemelerinde deneme sayısı (son çözüm tam ayarla üretilir)
+
+const absenceDays = (absence: RepairAbsence, daysInMonth: number): number[] => {
+    const days: number[] = [];
+    for (let d = Math.max(1, absence.startDay); d <= Math.min(daysInMonth, absence.endDay); d++) days.push(d);
+    return days;
+};
+
+// Gün + servis bazında eski ve yeni atamaları eşleştirir; eşi olmayanlar boş slottan gelir / boş slota gider
+export const diffSchedules = (before: DaySchedule[], after: DaySchedule[]): ScheduleChange[] => {
+    const changes: ScheduleChange[] = [];
+    const staffIds = (day: DaySchedule | undefined, serviceId: string) =>
+        (day?.assignments || []).filter(a => a.serviceId === serviceId && a.staffId !== 'EMPTY').map(a => a.staffId);
+
+    after.forEach(newDay => {
+        const oldDay = before.find(d => d.day === newDay.day);
+        const serviceIds = new Set([...(oldDay?.assignments || []), ...newDay.assignments].map(a => a.serviceId));
+        serviceIds.forEach(serviceId => {
+            const oldIds = staffIds(oldDay, serviceId);
+            const newIds = staffIds(newDay, serviceId);
+            const removed = oldIds.filter(id => !newIds.includes(id));
+            const added = newIds.filter(id => !oldIds.includes(id));
+            for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+                changes.push({ day: newDay.day, serviceId, fromStaffId: removed[i] ?? 'EMPTY', toStaffId: added[i] ?? 'EMPTY' });
+            }
+        });
+    });
+    return changes.sort((a, b) => a.day - b.day);
+};
+
+export const repairSchedule = (
+    published: DaySchedule[],
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig,
+    absences: RepairAbsence[],
+    onProgress?: (progress: SchedulerProgress) => void
+): ScheduleResult => {
+    const daysInMonth = new Date(config.year, config.month + 1, 0).getDate();
+    const seed = config.seed ?? generateSeed(); // Adaylar aynı tohumla karşılaştırılır
+
+    // Yokluklar izin kaydı olarak eklenir: kurallar kişiyi o günlere yazmaz
+    const absentDays = new Map<string, Set<number>>();
+    absences.forEach(a => {
+        const days = absentDays.get(a.staffId) || new Set<number>();
+        absenceDays(a, daysInMonth).forEach(d => days.add(d));
+        absentDays.set(a.staffId, days);
+    });
+    const repairStaff = staff.map(s => {
+        const own = absences.filter(a => a.staffId === s.id);
+        if (own.length === 0) return s;
+        const leaves = own.flatMap(a => daysToLeaveRecords(absenceDays(a, daysInMonth), config.year, config.month, a.type));
+        return { ...s, leaves: [...(s.leaves || []), ...leaves] };
+    });
+
+    const isVacated = (day: number, staffId: string) => absentDays.get(staffId)?.has(day) ?? false;
+    const affectedDays = published.filter(d => d.assignments.some(a => isVacated(d.day, a.staffId))).map(d => d.day);
+    const publishedUnfilled = published.reduce((acc, d) => acc + d.assignments.filter(a => a.staffId === 'EMPTY').length, 0);
+    const userPins = buildPinIndex(getMonthPins(config.pins, config.year, config.month));
+
+    const kept: PinnedAssignment[] = published.flatMap(d => d.assignments
+        .filter(a => a.staffId !== 'EMPTY' && !isVacated(d.day, a.staffId))
+        .map(a => ({ day: d.day, serviceId: a.serviceId, staffId: a.staffId })));
+
+    // Etkilenen günlere yakın, elle sabitlenmemiş atamalar serbest bırakılabilir
+    const releasable = kept.filter(p =>
+        !userPins.keys.has(pinKey(p.day, p.serviceId, p.staffId)) &&
+        affectedDays.some(day => Math.abs(day - p.day) <= REPAIR_NEIGHBOURHOOD_DAYS));
+
+    const run = (released: PinnedAssignment[], retries: number, progress?: (progress: SchedulerProgress) => void) => {
+        const releasedKeys = new Set(released.map(p => pinKey(p.day, p.serviceId, p.staffId)));
+        const openDays = new Set([...affectedDays, ...released.map(p => p.day)]);
+        const result = new Scheduler(repairStaff, services, {
+            ...config,
+            seed,
+            maxRetries: retries,
+            localSearch: retries === config.maxRetries ? config.localSearch : undefined,
+            alternatives: undefined, // Onarımda tek çözüm yeterli
+            pins: {
+                year: config.year,
+                month: config.month,
+                assignments: kept.filter(p => !releasedKeys.has(pinKey(p.day, p.serviceId, p.staffId))),
+                lockedDays: published.map(d => d.day).filter(d => !openDays.has(d))
+            }
+        }).generate(progress);
+        return { result, changes: diffSchedules(published, result.schedule) };
+    };
+    const isBetter = (a: { result: ScheduleResult; changes: ScheduleChange[] }, b: { result: ScheduleResult; changes: ScheduleChange[] }) =>
+        a.result.unfilledSlots < b.result.unfilledSlots || (a.result.unfilledSlots === b.result.unfilledSlots && a.changes.length < b.changes.length);
+
+    const trialRetries = Math.min(config.maxRetries, TRIAL_RETRIES);
+    let released: PinnedAssignment[] = [];
+    let current = run(released, trialRetries);
+
+    while (current.result.unfilledSlots > publishedUnfilled && released.length < MAX_RELEASED_ASSIGNMENTS) {
+        let best: { pin: PinnedAssignment; trial: ReturnType<typeof run> } | null = null;
+        for (const pin of releasable) {
+            if (released.includes(pin)) continue;
+            const trial = run([...released, pin], trialRetries);
+            if (trial.result.unfilledSlots >= current.result.unfilledSlots) continue;
+            if (!best || isBetter(trial, best.trial)) best = { pin, trial };
+        }
+        if (!best) break;
+        released = [...released, best.pin];
+        current = best.trial;
+    }
+
+    // Seçilen serbest bırakma kümesiyle tam ayarla son üretim
+    const final = run(released, config.maxRetries, onProgress);
+    const { result, changes } = isBetter(current, final) ? current : final;
+
+    return {
+        ...result,
+        logs: [...result.logs, `Onarım: ${changes.length} atama değişti (${released.length} komşu atama serbest bırakıldı), ${result.unfilledSlots} boş slot`],
+        repair: { absences, changes, released: released.length }
+    };
+};
@@ -0,0 +1,17 @@
+import { DaySchedule, ReplacementCandidate, SchedulerConfig, Service, Staff } from '../types';
+import { Scheduler } from './scheduler';
+
+// Emergency replacement for a single slot of an existing schedule.
+// Sıralama üretimle aynı puanlama ve kesin kurallarla yapılır; engeller elenmek yerine uyarı olarak döner.
+// staffId = 'EMPTY' ise boş slot için aday aranır.
+export const findReplacements = (
+    schedule: DaySchedule[],
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig,
+    day: number,
+    serviceId: string,
+    staffId: string
+): ReplacementCandidate[] => {
+    return new Scheduler(staff, services, config).rankReplacements(schedule, day, serviceId, staffId);
+};
@@ -0,0 +1,72 @@
+import { DayPairExclusion, RestRulesConfig, RuleSetting } from '../types';
+
+// Configurable rest rules.
+// Kesin değerler kural kayıt defterinde (minRestDays, weeklyLimit, consecutiveLimit, dayPairExclusion) aday engeller,
+// esnek değerler sadece puanlamada ceza olarak düşülür. Ay başında önceki ayın devralınan günleri de sayılır.
+
+export const WEEKDAY_NAMES = ['Pazar', 'Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi'];
+
+export const DEFAULT_REST_RULES: RestRulesConfig = {
+    minDaysBetween: { hard: 1, soft: 2 },
+    maxPerWeek: {},
+    maxConsecutive: {},
+    dayPairExclusions: [
+        { id: 'thu-sat', fromDay: 4, toDay: 6, hard: true },
+        { id: 'thu-sun', fromDay: 4, toDay: 0, hard: true }
+    ]
+};
+
+export const createDayPairId = () => `dp_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Eski ayarlardan ("24 Saat" / "Perşembe-Haftasonu" kuralları ve "Gün Aşırı Engelle" kutusu) dinlenme kurallarını kurar
+export const restRulesFromLegacy = (ruleSettings: RuleSetting[] | undefined, preventEveryOther: boolean | undefined): RestRulesConfig => {
+    const isEnabled = (id: string) => ruleSettings?.find(r => r.id === id)?.enabled !== false;
+    return {
+        ...DEFAULT_REST_RULES,
+        minDaysBetween: {
+            hard: isEnabled('rest24h') ? 1 : undefined,
+            soft: preventEveryOther === false ? undefined : 2
+        },
+        dayPairExclusions: isEnabled('thursdayWeekend') ? DEFAULT_REST_RULES.dayPairExclusions : []
+    };
+};
+
+type ShiftLookup = (day: number) => boolean;
+
+// fromDay'den izleyen ilk toDay'e kadar geçen gün (aynı gün ise bir hafta sonrası)
+export const getDayPairOffset = (exclusion: DayPairExclusion): number => ((exclusion.toDay - exclusion.fromDay + 7) % 7) || 7;
+
+// `day` çevresinde `minDays` gün içinde kalan diğer nöbetlerin sayısı
+export const countShiftsWithinGap = (day: number, minDays: number, hasShift: ShiftLookup): number => {
+    let count = 0;
+    for (let k = 1; k <= minDays; k++) {
+        if (hasShift(day - k)) count++;
+        if (hasShift(day + k)) count++;
+    }
+    return count;
+};
+
+// `day` dahil edilirse, `day`'i içeren 7 günlük pencerelerdeki en yüksek nöbet sayısı
+export const getRollingWeekLoad = (day: number, hasShift: ShiftLookup): number => {
+    let max = 0;
+    for (let start = day - 6; start <= day; start++) {
+        let count = 1;
+        for (let d = start; d < start + 7; d++) if (d !== day && hasShift(d)) count++;
+        max = Math.max(max, count);
+    }
+    return max;
+};
+
+// `day` dahil edilirse oluşan art arda nöbet zincirinin uzunluğu
+export const getConsecutiveRun = (day: number, hasShift: ShiftLookup): number => {
+    let run = 1;
+    for (let d = day - 1; hasShift(d); d--) run++;
+    for (let d = day + 1; hasShift(d); d++) run++;
+    return run;
+};
+
+export const violatesDayPair = (exclusion: DayPairExclusion, day: number, dayOfWeek: number, hasShift: ShiftLookup): boolean => {
+    const offset = getDayPairOffset(exclusion);
+    if (dayOfWeek === exclusion.fromDay && hasShift(day + offset)) return true;
+    return dayOfWeek === exclusion.toDay && hasShift(day - offset);
+};
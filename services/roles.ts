@@ -0,0 +1,93 @@
+import { RoleConfig } from '../types';
+
+// Configurable role hierarchy.
+// Motorlar ve arayüz rol numaralarının anlamını buradan okur:
+// - Kıdemli (countsAsSenior): Faz 1 günlük kıdemli garantisi, kıdemli yığılması, Excel "(K)" işareti
+// - Havuz (floatPool): servis branşı ve branş-gün kısıtlarından muaf
+// - Yeni personel: hiyerarşinin en alt sırasındaki kıdemli olmayan roller (gözetim ve dikey adalet kuralları)
+// - Ara kıdem: ne kıdemli ne yeni olan roller; en az nöbetli yeni personelin önüne geçemez
+
+export const DEFAULT_ROLE_CONFIGS: Record<number, RoleConfig> = {
+    1: { role: 1, name: 'Kıdemli', order: 1, countsAsSenior: true, floatPool: false, quotaService: 5, weekendLimit: 2 },
+    2: { role: 2, name: 'Tecrübeli', order: 2, countsAsSenior: false, floatPool: false, quotaService: 5, weekendLimit: 2 },
+    3: { role: 3, name: 'Yeni/Çömez', order: 3, countsAsSenior: false, floatPool: true, quotaService: 5, weekendLimit: 2 }
+};
+
+// Eksik alanları varsayılanlarla tamamlar (tanımsız roller için: "Rol N", sırası N, bayraksız)
+export const createRoleConfig = (role: number, existing?: Partial<RoleConfig>): RoleConfig => {
+    const base = DEFAULT_ROLE_CONFIGS[role];
+    return {
+        role,
+        quotaService: existing?.quotaService ?? base?.quotaService ?? 5,
+        weekendLimit: existing?.weekendLimit ?? base?.weekendLimit ?? 2,
+        name: existing?.name || base?.name || `Rol ${role}`,
+        order: existing?.order ?? base?.order ?? role,
+        countsAsSenior: existing?.countsAsSenior ?? base?.countsAsSenior ?? false,
+        floatPool: existing?.floatPool ?? base?.floatPool ?? false,
+        dailyMin: existing?.dailyMin,
+        dailyMax: existing?.dailyMax,
+        quotaMin: existing?.quotaMin,
+        quotaMax: existing?.quotaMax
+    };
+};
+
+export interface RoleHierarchy {
+    roles: RoleConfig[]; // Sıraya göre (en kıdemli önce)
+    byRole: Map<number, RoleConfig>;
+    seniorRoles: Set<number>;
+    floatRoles: Set<number>;
+    juniorRoles: Set<number>;
+    isSenior: (role: number | undefined) => boolean;
+    isFloat: (role: number | undefined) => boolean;
+    isJunior: (role: number | undefined) => boolean;
+    isMiddle: (role: number | undefined) => boolean;
+    getName: (role: number) => string;
+    getOrder: (role: number) => number;
+}
+
+export const buildRoleHierarchy = (configs: Record<number, RoleConfig> | undefined): RoleHierarchy => {
+    const source = configs && Object.keys(configs).length > 0 ? configs : DEFAULT_ROLE_CONFIGS;
+    const roles = Object.values(source)
+        .map(c => createRoleConfig(c.role, c))
+        .sort((a, b) => (a.order! - b.order!) || (a.role - b.role));
+    const byRole = new Map(roles.map(r => [r.role, r]));
+
+    const seniorRoles = new Set(roles.filter(r => r.countsAsSenior).map(r => r.role));
+    const floatRoles = new Set(roles.filter(r => r.floatPool).map(r => r.role));
+    const nonSenior = roles.filter(r => !r.countsAsSenior);
+    const lowestOrder = Math.max(...roles.map(r => r.order!));
+    const juniorRoles = new Set(
+        new Set(roles.map(r => r.order)).size > 1 ? nonSenior.filter(r => r.order === lowestOrder).map(r => r.role) : []
+    );
+
+    const has = (set: Set<number>) => (role: number | undefined) => role !== undefined && set.has(role);
+    return {
+        roles, byRole, seniorRoles, floatRoles, juniorRoles,
+        isSenior: has(seniorRoles),
+        isFloat: has(floatRoles),
+        isJunior: has(juniorRoles),
+        isMiddle: (role) => role !== undefined && byRole.has(role) && !seniorRoles.has(role) && !juniorRoles.has(role),
+        getName: (role) => byRole.get(role)?.name || `Rol ${role}`,
+        getOrder: (role) => byRole.get(role)?.order ?? role
+    };
+};
+
+// Kural ve puanlama her adayda çağrıldığından, aynı tanım nesnesi için hiyerarşi bir kez kurulur
+const hierarchyCache = new WeakMap<object, RoleHierarchy>();
+let defaultHierarchy: RoleHierarchy | null = null;
+
+export const getRoleHierarchy = (configs: Record<number, RoleConfig> | undefined): RoleHierarchy => {
+    if (!configs) {
+        if (!defaultHierarchy) defaultHierarchy = buildRoleHierarchy(undefined);
+        return defaultHierarchy;
+    }
+    let hierarchy = hierarchyCache.get(configs);
+    if (!hierarchy) {
+        hierarchy = buildRoleHierarchy(configs);
+        hierarchyCache.set(configs, hierarchy);
+    }
+    return hierarchy;
+};
+
+// Seçim listeleri için "1 - Kıdemli"
+export const formatRoleLabel = (hierarchy: RoleHierarchy, role: number): string => `${role} - ${hierarchy.getName(role)}`;
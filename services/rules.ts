@@ -0,0 +1,500 @@
+import { Staff, Service, DaySchedule, SchedulerConfig, RuleSetting, RuleViolation, ShiftAssignment } from '../types';
+import { getCarriedDays } from './carryOver';
+import { getMonthHolidays } from './holidays';
+import { resolveServiceForDay } from './staffing';
+import { getRoleHierarchy } from './roles';
+import { buildLeaveMap } from './leave';
+import { getDayPreference } from './preferences';
+import { getPairPartners, validatePairConstraints } from './pairConstraints';
+import { blocksCompositionMin, exceedsCompositionMax, validateComposition } from './composition';
+import { DEFAULT_SHIFT_HOURS, buildShiftHoursMap, getQuotaBounds, getShiftHours } from './hours';
+import { DEFAULT_REST_RULES, countShiftsWithinGap, getConsecutiveRun, getRollingWeekLoad, violatesDayPair } from './restRules';
+
+// Running totals per staff member during generation / validation
+export interface StaffStat {
+    total: number;
+    weekend: number;
+    saturday: number;
+    sunday: number;
+    holiday: number;
+    hours: number; // Nöbet süreleri toplamı
+}
+
+// Everything a hard rule needs to decide whether `person` may take `service` on `day`
+export interface RuleContext {
+    person: Staff;
+    service: Service;
+    day: number;
+    dayOfWeek: number; // 0=Pazar ... 6=Cmt
+    isWeekend: boolean;
+    isSat: boolean;
+    isSun: boolean;
+    isHoliday: boolean; // Tatil takvimindeki gün (arife dahil)
+    stats: StaffStat; // Bu atama HARİÇ kişinin toplamları
+    assignedTodayIds: Set<string>; // Bu atama HARİÇ o gün nöbetçi olanlar
+    todayAssignments: ShiftAssignment[]; // Bu atama HARİÇ o günün atamaları (servis bazlı kurallar için)
+    seniorCountOnDay: number;
+    desperate: boolean;
+    config: SchedulerConfig;
+    roommates: string[];
+    getStaff: (id: string) => Staff | undefined;
+    isOnLeave: (staffId: string, day: number) => boolean; // İzin kayıtlarından türetilen ay günleri
+    hasShiftOnDay: (day: number, staffId: string) => boolean;
+    // Sadece üretim sırasında dolu: kişi bu slota yazılırsa eşi aynı gün boş kapasiteli bir servise yazılabilir mi
+    canPlacePartner?: (staffId: string) => boolean;
+    // Sadece üretim sırasında dolu (Adalet kuralları için anlık durum)
+    fairness?: {
+        minHoursByRole: Record<number, number>;
+        minJuniorHours: number;
+        activeJuniorCount: number;
+    };
+}
+
+export interface RuleParamDefinition {
+    key: string;
+    label: string;
+    defaultValue: number;
+    min?: number;
+    max?: number;
+}
+
+export interface RuleDefinition {
+    id: string;
+    name: string;
+    description: string;
+    configurable: boolean; // false = Temel kural, kapatılamaz
+    generationOnly?: boolean; // Mevcut çizelge doğrulamasında anlamsız (anlık adalet durumuna bağlı)
+    params?: RuleParamDefinition[];
+    isViolated: (ctx: RuleContext, params: Record<string, number>) => boolean;
+}
+
+const getRestRules = (ctx: RuleContext) => ctx.config.restRules ?? DEFAULT_REST_RULES;
+const getRoles = (ctx: RuleContext) => getRoleHierarchy(ctx.config.roles);
+
+// Aynı gün aynı servise yazılmış diğer kişilerin rolleri (boş slotlar hariç)
+const getServiceRoles = (ctx: RuleContext): number[] => ctx.todayAssignments
+    .filter(a => a.serviceId === ctx.service.id)
+    .map(a => ctx.getStaff(a.staffId)?.role)
+    .filter((r): r is number => r !== undefined);
+
+export const RULES: RuleDefinition[] = [
+    {
+        id: 'available',
+        name: 'Aynı Gün Tek Nöbet',
+        description: 'Bir kişi aynı gün yalnızca bir servise yazılabilir.',
+        configurable: false,
+        isViolated: (ctx) => ctx.assignedTodayIds.has(ctx.person.id)
+    },
+    {
+        id: 'offDay',
+        name: 'İzin Günü',
+        description: 'İzinli olduğu gün nöbet yazılmaz.',
+        configurable: false,
+        isViolated: (ctx) => ctx.isOnLeave(ctx.person.id, ctx.day)
+    },
+    {
+        id: 'unavailableDay',
+        name: 'Nöbet Alamaz',
+        description: '"Nöbet alamaz" olarak işaretlenen gün nöbet yazılmaz.',
+        configurable: false,
+        isViolated: (ctx) => getDayPreference(ctx.person, ctx.config.year, ctx.config.month, ctx.day)?.level === 'unavailable'
+    },
+    {
+        id: 'minRestDays',
+        name: 'Nöbetler Arası Dinlenme',
+        description: 'İki nöbet arasında dinlenme ayarlarındaki kesin en az gün sayısı kadar boşluk kalır.',
+        configurable: false,
+        isViolated: (ctx) => {
+            const minDays = getRestRules(ctx).minDaysBetween.hard;
+            return !!minDays && countShiftsWithinGap(ctx.day, minDays, d => ctx.hasShiftOnDay(d, ctx.person.id)) > 0;
+        }
+    },
+    {
+        id: 'weeklyLimit',
+        name: '7 Günlük Nöbet Sınırı',
+        description: 'Herhangi 7 günlük pencerede dinlenme ayarlarındaki kesin sınırdan fazla nöbet yazılmaz.',
+        configurable: false,
+        isViolated: (ctx) => {
+            const limit = getRestRules(ctx).maxPerWeek.hard;
+            return limit !== undefined && getRollingWeekLoad(ctx.day, d => ctx.hasShiftOnDay(d, ctx.person.id)) > limit;
+        }
+    },
+    {
+        id: 'consecutiveLimit',
+        name: 'Art Arda Çalışma Sınırı',
+        description: 'Dinlenme ayarlarındaki kesin sınırdan uzun art arda nöbet zinciri oluşturulmaz.',
+        configurable: false,
+        isViolated: (ctx) => {
+            const limit = getRestRules(ctx).maxConsecutive.hard;
+            return limit !== undefined && getConsecutiveRun(ctx.day, d => ctx.hasShiftOnDay(d, ctx.person.id)) > limit;
+        }
+    },
+    {
+        id: 'unitMatch',
+        name: 'Servis Branş Uyumu',
+        description: 'Servis belirli branşlara kısıtlıysa sadece o branşlar yazılır. Havuz rolündeki personel muaftır.',
+        configurable: false,
+        isViolated: (ctx) => {
+            if (getRoles(ctx).isFloat(ctx.person.role)) return false;
+            const allowed = ctx.service.allowedUnits;
+            return !!allowed && allowed.length > 0 && !allowed.includes(ctx.person.unit);
+        }
+    },
+    {
+        id: 'unitDay',
+        name: 'Branş/Özellik Gün Kısıtı',
+        description: 'Branş veya özelliğin izin verilen günleri dışında nöbet yazılmaz. Havuz rolündeki personel muaftır.',
+        configurable: false,
+        isViolated: (ctx) => {
+            if (getRoles(ctx).isFloat(ctx.person.role)) return false;
+            const unitConstraint = ctx.config.unitConstraints.find(c => c.unit === ctx.person.unit);
+            if (unitConstraint && !unitConstraint.allowedDays.includes(ctx.dayOfWeek)) return true;
+
+            const specialty = ctx.person.specialty?.trim();
+            if (specialty && specialty !== 'none') {
+                const specConstraint = ctx.config.unitConstraints.find(c => c.unit.trim() === specialty);
+                if (specConstraint && !specConstraint.allowedDays.includes(ctx.dayOfWeek)) return true;
+            }
+            return false;
+        }
+    },
+    {
+        id: 'compositionMax',
+        name: 'Servis Kıdem Sınırı',
+        description: 'Serviste bir kıdem grubu için tanımlı "en fazla" sayısı aşılmaz.',
+        configurable: false,
+        isViolated: (ctx) => exceedsCompositionMax(ctx.service, ctx.person, getServiceRoles(ctx))
+    },
+    {
+        id: 'compositionMin',
+        name: 'Servis Kıdem Şartı',
+        description: 'Servisin "en az" kıdem şartı karşılanmadan kalan yerlere şartı karşılamayan personel yazılmaz.',
+        configurable: false,
+        generationOnly: true, // Tamamlanmış çizelgede servis-gün bazında validateComposition denetler
+        isViolated: (ctx) => blocksCompositionMin(ctx.service, ctx.person, getServiceRoles(ctx))
+    },
+    {
+        id: 'roommateConflict',
+        name: 'Oda Arkadaşı Çakışması',
+        description: 'Oda arkadaşı bugün, dün veya yarın nöbetçiyse nöbet yazılmaz.',
+        configurable: true,
+        isViolated: (ctx) => ctx.roommates.some(id =>
+            ctx.assignedTodayIds.has(id) ||
+            ctx.hasShiftOnDay(ctx.day - 1, id) ||
+            ctx.hasShiftOnDay(ctx.day + 1, id)
+        )
+    },
+    {
+        id: 'roommateOff',
+        name: 'Oda Arkadaşı İzinli',
+        description: 'Oda arkadaşı izinli (OFF) olduğu gün nöbet yazılmaz.',
+        configurable: true,
+        isViolated: (ctx) => ctx.roommates.some(id => ctx.isOnLeave(id, ctx.day))
+    },
+    {
+        id: 'pairNever',
+        name: 'Birlikte Olmasın (Kesin)',
+        description: 'Kesin "birlikte olmasın" kuralı olan iki kişi aynı gün nöbete yazılmaz.',
+        configurable: false,
+        isViolated: (ctx) => getPairPartners(ctx.config.pairConstraints, ctx.person.id, 'never', true).some(id => ctx.assignedTodayIds.has(id))
+    },
+    {
+        id: 'pairTogether',
+        name: 'Birlikte Olsun (Kesin)',
+        description: 'Kesin "birlikte olsun" kuralı olan kişi, eşinin aynı gün yazılamayacağı bir güne yazılmaz.',
+        configurable: false,
+        generationOnly: true, // Tamamlanmış çizelgede gün bazında validatePairConstraints denetler
+        isViolated: (ctx) => getPairPartners(ctx.config.pairConstraints, ctx.person.id, 'always', true).some(id => {
+            const partner = ctx.getStaff(id);
+            if (!partner || partner.isActive === false || ctx.assignedTodayIds.has(id)) return false;
+            if (ctx.canPlacePartner) return !ctx.canPlacePartner(id);
+            return ctx.isOnLeave(id, ctx.day) || getDayPreference(partner, ctx.config.year, ctx.config.month, ctx.day)?.level === 'unavailable';
+        })
+    },
+    {
+        id: 'quota',
+        name: 'Aylık Hedef Tavanı',
+        description: 'Kişinin aylık tavanı aşılmaz: en fazla nöbet sınırı (kişi veya rol), yoksa hedef saat (sözleşme saati veya nöbet hedefi × 24).',
+        configurable: false,
+        isViolated: (ctx) => ctx.stats.hours + getShiftHours(ctx.service) > getQuotaBounds(ctx.person, getRoles(ctx)).max
+    },
+    {
+        id: 'weekendLimit',
+        name: 'Haftasonu Limiti',
+        description: 'Kişinin haftasonu nöbet limiti aşılmaz.',
+        configurable: false,
+        isViolated: (ctx) => ctx.isWeekend && ctx.stats.weekend >= ctx.person.weekendLimit
+    },
+    {
+        id: 'holidayLimit',
+        name: 'Bayram Limiti',
+        description: 'Kişinin bayram / resmi tatil nöbet limiti aşılmaz (limit girilmemişse sınırsız).',
+        configurable: false,
+        isViolated: (ctx) => ctx.isHoliday && ctx.person.holidayLimit !== undefined && ctx.stats.holiday >= ctx.person.holidayLimit
+    },
+    {
+        id: 'dayPairExclusion',
+        name: 'Gün Çifti Kısıtı',
+        description: 'Kesin gün çifti kısıtlarında (ör. Perşembe → Cumartesi/Pazar) ilk gün nöbet tutan kişiye izleyen gün nöbeti yazılmaz.',
+        configurable: false,
+        isViolated: (ctx) => getRestRules(ctx).dayPairExclusions.some(ex =>
+            ex.hard && violatesDayPair(ex, ctx.day, ctx.dayOfWeek, d => ctx.hasShiftOnDay(d, ctx.person.id))
+        )
+    },
+    {
+        id: 'horizontalFairness',
+        name: 'Yatay Adalet (Su Seviyesi)',
+        description: 'Aynı kıdemdeki (özelliksiz) personelden en az saatte kalan tamamlanmadan diğerlerine nöbet yazılmaz.',
+        configurable: true,
+        generationOnly: true,
+        isViolated: (ctx) => {
+            if (!ctx.fairness) return false;
+            if (ctx.person.specialty && ctx.person.specialty !== 'none') return false;
+            return ctx.stats.hours > ctx.fairness.minHoursByRole[ctx.person.role];
+        }
+    },
+    {
+        id: 'seniorStacking',
+        name: 'Kıdemli Yığılması',
+        description: 'Bir güne yazılabilecek kıdemli sayılan personel sayısını sınırlar. Tercih edilen sayı sadece zorunlu durumda aşılır.',
+        configurable: true,
+        params: [
+            { key: 'maxPerDay', label: 'Mutlak Üst Sınır', defaultValue: 2, min: 1, max: 10 },
+            { key: 'preferredPerDay', label: 'Tercih Edilen', defaultValue: 1, min: 1, max: 10 }
+        ],
+        isViolated: (ctx, params) => {
+            if (!getRoles(ctx).isSenior(ctx.person.role)) return false;
+            if (ctx.seniorCountOnDay >= params.maxPerDay) return true;
+            return !ctx.desperate && ctx.seniorCountOnDay >= params.preferredPerDay;
+        }
+    },
+    {
+        id: 'roleDailyMax',
+        name: 'Rol Günlük Üst Sınırı',
+        description: 'Kıdem tanımında günlük en fazla sayısı verilen rolden bir güne bundan fazla kişi yazılmaz.',
+        configurable: false,
+        isViolated: (ctx) => {
+            const max = getRoles(ctx).byRole.get(ctx.person.role)?.dailyMax;
+            if (max === undefined) return false;
+            return ctx.todayAssignments.filter(a => ctx.getStaff(a.staffId)?.role === ctx.person.role).length >= max;
+        }
+    },
+    {
+        id: 'juniorSupervision',
+        name: 'Yeni Personel Gözetimi',
+        description: 'Yeni personel (en alt kıdem) yazılan günde (veya serviste) en az bir tecrübeli hemşire bulunur; tecrübeli başına yeni personel sayısı sınırlıdır.',
+        configurable: true,
+        params: [
+            { key: 'maxJuniorsPerExperienced', label: 'Tecrübeli Başına En Fazla Yeni', defaultValue: 2, min: 1, max: 10 },
+            { key: 'perService', label: 'Servis Bazında (0: Gün, 1: Servis)', defaultValue: 0, min: 0, max: 1 }
+        ],
+        isViolated: (ctx, params) => {
+            const hierarchy = getRoles(ctx);
+            if (!hierarchy.isJunior(ctx.person.role)) return false;
+            const scope = params.perService ? ctx.todayAssignments.filter(a => a.serviceId === ctx.service.id) : ctx.todayAssignments;
+            const roles = scope.map(a => ctx.getStaff(a.staffId)?.role).filter((r): r is number => r !== undefined);
+            const juniors = roles.filter(r => hierarchy.isJunior(r)).length;
+            const experienced = roles.length - juniors;
+            return juniors + 1 > experienced * params.maxJuniorsPerExperienced;
+        }
+    },
+    {
+        id: 'juniorPriority',
+        name: 'Yeni Personel Önceliği',
+        description: 'Ara kıdemdeki personel (kıdemli veya yeni olmayan), en az nöbetli yeni personelin önüne geçemez. Zorunlu durumda esnetilir.',
+        configurable: true,
+        generationOnly: true,
+        isViolated: (ctx) => {
+            if (ctx.desperate || !ctx.fairness) return false;
+            if (!getRoles(ctx).isMiddle(ctx.person.role) || ctx.fairness.activeJuniorCount === 0) return false;
+            return ctx.stats.hours >= ctx.fairness.minJuniorHours;
+        }
+    }
+];
+
+export const getRuleDefinition = (id: string): RuleDefinition | undefined => RULES.find(r => r.id === id);
+
+const defaultParams = (rule: RuleDefinition): Record<string, number> => {
+    const params: Record<string, number> = {};
+    (rule.params || []).forEach(p => { params[p.key] = p.defaultValue; });
+    return params;
+};
+
+export const DEFAULT_RULE_SETTINGS: RuleSetting[] = RULES
+    .filter(r => r.configurable)
+    .map(r => ({ id: r.id, enabled: true, params: defaultParams(r) }));
+
+// Eski kayıtlarda bulunmayan (sonradan eklenen) kuralları varsayılan ayarlarıyla tamamlar
+export const mergeRuleSettings = (settings: RuleSetting[]): RuleSetting[] => {
+    return DEFAULT_RULE_SETTINGS.map(def => {
+        const saved = settings.find(s => s.id === def.id);
+        return saved ? { ...def, ...saved, params: { ...def.params, ...saved.params } } : def;
+    });
+};
+
+export interface ActiveRule {
+    rule: RuleDefinition;
+    params: Record<string, number>;
+}
+
+// Kayıtlı ayarları registry ile birleştirir. Temel kurallar her zaman aktiftir.
+export const resolveRules = (settings: RuleSetting[] = [], includeGenerationOnly = true): ActiveRule[] => {
+    return RULES
+        .filter(rule => includeGenerationOnly || !rule.generationOnly)
+        .map(rule => {
+            const setting = settings.find(s => s.id === rule.id);
+            if (rule.configurable && setting && !setting.enabled) return null;
+            return { rule, params: { ...defaultParams(rule), ...setting?.params } };
+        })
+        .filter((r): r is ActiveRule => r !== null);
+};
+
+export const findViolatedRule = (rules: ActiveRule[], ctx: RuleContext): RuleDefinition | null => {
+    for (const { rule, params } of rules) {
+        if (rule.isViolated(ctx, params)) return rule;
+    }
+    return null;
+};
+
+export const collectViolatedRules = (rules: ActiveRule[], ctx: RuleContext): RuleDefinition[] => {
+    return rules.filter(({ rule, params }) => rule.isViolated(ctx, params)).map(r => r.rule);
+};
+
+export const buildRoommatesMap = (staff: Staff[]): Map<string, string[]> => {
+    const roomGroups = new Map<string, string[]>();
+    staff.forEach(s => {
+        // Eğer oda no boşsa (Aracı vb.), kimseyle çakışmaz.
+        if (!s.room || s.room.trim() === '') return;
+        if (!roomGroups.has(s.room)) roomGroups.set(s.room, []);
+        roomGroups.get(s.room)!.push(s.id);
+    });
+
+    const roommatesMap = new Map<string, string[]>();
+    staff.forEach(s => {
+        const hasRoom = s.room && s.room.trim() !== '';
+        roommatesMap.set(s.id, hasRoom ? roomGroups.get(s.room)!.filter(id => id !== s.id) : []);
+    });
+    return roommatesMap;
+};
+
+export interface ScheduleInspector {
+    staffById: Map<string, Staff>;
+    // ignoreIndex: o günün atamalarından biri yokmuş gibi değerlendirilir (kişinin kendi ataması)
+    buildContext: (person: Staff, service: Service, day: number, ignoreIndex?: number) => RuleContext;
+}
+
+// Bitmiş bir çizelge üzerinde kural bağlamı kurar (doğrulama, boş slot teşhisi vb. için)
+export const createScheduleInspector = (
+    schedule: DaySchedule[],
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig
+): ScheduleInspector => {
+    const staffById = new Map(staff.map(s => [s.id, s]));
+    const shiftHours = buildShiftHoursMap(services);
+    const roommatesMap = buildRoommatesMap(staff.filter(s => s.isActive !== false));
+    const dayOfWeekOf = (day: number) => new Date(config.year, config.month, day).getDay();
+    const holidays = getMonthHolidays(config.holidays, config.year, config.month);
+    const leaveMap = buildLeaveMap(staff, config.year, config.month);
+    const isOnLeave = (staffId: string, day: number) => leaveMap.get(staffId)?.has(day) ?? false;
+
+    const assignmentsByDay = new Map<number, DaySchedule['assignments']>();
+    const idsByDay = new Map<number, Set<string>>();
+    const totals = new Map<string, StaffStat>();
+    schedule.forEach(d => {
+        assignmentsByDay.set(d.day, d.assignments);
+        idsByDay.set(d.day, new Set(d.assignments.map(a => a.staffId)));
+        const dow = dayOfWeekOf(d.day);
+        const isHoliday = holidays.has(d.day);
+        d.assignments.forEach(a => {
+            if (a.staffId === 'EMPTY') return;
+            const t = totals.get(a.staffId) || { total: 0, weekend: 0, saturday: 0, sunday: 0, holiday: 0, hours: 0 };
+            t.total++;
+            t.hours += shiftHours.get(a.serviceId) ?? DEFAULT_SHIFT_HOURS;
+            if (dow === 0 || dow === 6) t.weekend++;
+            if (dow === 6) t.saturday++;
+            if (dow === 0) t.sunday++;
+            if (isHoliday) t.holiday++;
+            totals.set(a.staffId, t);
+        });
+    });
+    // Önceki ayın günleri sadece geriye bakan kurallar için (toplamlara katılmaz)
+    getCarriedDays(config.carryOver, config.year, config.month).forEach(d => {
+        idsByDay.set(d.day, new Set(d.assignments.map(a => a.staffId)));
+    });
+    const hasShiftOnDay = (day: number, staffId: string) => idsByDay.get(day)?.has(staffId) ?? false;
+    const roles = getRoleHierarchy(config.roles);
+
+    const buildContext = (person: Staff, service: Service, day: number, ignoreIndex?: number): RuleContext => {
+        const dow = dayOfWeekOf(day);
+        const isSat = dow === 6;
+        const isSun = dow === 0;
+        const isHoliday = holidays.has(day);
+        const dayAssignments = assignmentsByDay.get(day) || [];
+        const others = dayAssignments.filter((o, i) => i !== ignoreIndex && o.staffId !== 'EMPTY');
+
+        const own = totals.get(person.id) || { total: 0, weekend: 0, saturday: 0, sunday: 0, holiday: 0, hours: 0 };
+        const ignoresOwn = ignoreIndex !== undefined && dayAssignments[ignoreIndex]?.staffId === person.id;
+        const stats: StaffStat = ignoresOwn ? {
+            total: own.total - 1,
+            weekend: own.weekend - (isSat || isSun ? 1 : 0),
+            saturday: own.saturday - (isSat ? 1 : 0),
+            sunday: own.sunday - (isSun ? 1 : 0),
+            holiday: own.holiday - (isHoliday ? 1 : 0),
+            hours: own.hours - (shiftHours.get(dayAssignments[ignoreIndex].serviceId) ?? DEFAULT_SHIFT_HOURS)
+        } : { ...own };
+
+        return {
+            person, day,
+            service: resolveServiceForDay(service, config, day, holidays.get(day)),
+            dayOfWeek: dow,
+            isWeekend: isSat || isSun, isSat, isSun, isHoliday,
+            stats,
+            assignedTodayIds: new Set(others.map(o => o.staffId)),
+            todayAssignments: others,
+            seniorCountOnDay: others.filter(o => roles.isSenior(staffById.get(o.staffId)?.role)).length,
+            desperate: true, // Mevcut çizelgede sadece mutlak sınırlar denetlenir
+            config,
+            roommates: roommatesMap.get(person.id) || [],
+            getStaff: (id) => staffById.get(id),
+            isOnLeave,
+            hasShiftOnDay
+        };
+    };
+
+    return { staffById, buildContext };
+};
+
+// Mevcut (üretilmiş veya elle düzenlenmiş) bir çizelgeyi aynı kurallarla denetler.
+// Her atama için: "Bu kişi, diğer atamalar yerindeyken bu slota yazılabilir miydi?"
+export const validateSchedule = (
+    schedule: DaySchedule[],
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig
+): RuleViolation[] => {
+    const rules = resolveRules(config.rules, false);
+    const { staffById, buildContext } = createScheduleInspector(schedule, staff, services, config);
+
+    const violations: RuleViolation[] = [];
+    schedule.forEach(d => {
+        d.assignments.forEach((a, index) => {
+            if (a.staffId === 'EMPTY') return;
+            const person = staffById.get(a.staffId);
+            const service = services.find(s => s.id === a.serviceId);
+            if (!person || !service) return;
+
+            // Bu atamayı çıkarılmış kabul et
+            const ctx = buildContext(person, service, d.day, index);
+            collectViolatedRules(rules, ctx).forEach(rule => {
+                violations.push({ day: d.day, serviceId: a.serviceId, staffId: a.staffId, ruleId: rule.id });
+            });
+        });
+    });
+
+    return [
+        ...violations,
+        ...validatePairConstraints(schedule, staff, config.pairConstraints),
+        ...validateComposition(schedule, staff, services)
+    ];
+};
@@ -1,53 +1,125 @@
 
 
-import { Staff, Service, DaySchedule, SchedulerConfig, ScheduleResult, ShiftAssignment } from '../types';
+import { Staff, Service, DaySchedule, Holiday, SchedulerConfig, ScheduleResult, ShiftAssignment, SchedulerProgress, ScoringWeights, AssignmentTrace, ScoreBreakdown, RejectedCandidate, RestRulesConfig, PinnedAssignment, ReplacementCandidate, ScheduleAlternative } from '../types';
+import { RandomFn, createRandom, deriveSeed, generateSeed } from './random';
+import { DEFAULT_WEIGHTS } from './weights';
+import { improveSchedule, computeStats, evaluateObjective } from './localSearch';
+import { getCarriedDays } from './carryOver';
+import { getMonthHolidays } from './holidays';
+import { resolveDailyTarget, resolveDayServices } from './staffing';
+import { RoleHierarchy, getRoleHierarchy } from './roles';
+import { QuotaBounds, formatHours, getQuotaBounds, getShiftHours, getTargetHours, sumMinimumShortfall, toShiftEquivalents } from './hours';
+import { buildLeaveMap } from './leave';
+import { getDayPreference, getPriorityFactor, summarizeRequestSatisfaction } from './preferences';
+import { LedgerPressure, computeLedgerPressure } from './fairnessLedger';
+import { getPairPartners } from './pairConstraints';
+import { getMonthPins } from './pins';
+import { DEFAULT_REST_RULES, countShiftsWithinGap, getConsecutiveRun, getRollingWeekLoad, violatesDayPair } from './restRules';
+import { ActiveRule, RuleContext, RuleDefinition, StaffStat, resolveRules, findViolatedRule, collectViolatedRules, buildRoommatesMap } from './rules';
 
 interface CandidateOptions {
     desperate?: boolean;
-    restrictRole?: number;
+    restrictRoles?: number[];
     excludeRole?: number;
     restrictSpecialty?: string; // New: Force a specific specialty (Exact String Match)
+    restrictStaffId?: string; // Kesin "birlikte olsun" eşini yerleştirmek için
+    inspect?: boolean; // Yedek arama: tüm engeller toplanır, titreşim eklenmez
 }
 
+interface CandidateEvaluation {
+    person: Staff;
+    score: number;
+    breakdown: ScoreBreakdown;
+    violatedRule: RuleDefinition | null;
+    violatedRules: RuleDefinition[]; // inspect seçeneğiyle tüm engeller, aksi halde sadece ilki
+}
+
+interface CandidateDecision {
+    person: Staff;
+    score: number;
+    breakdown: ScoreBreakdown;
+    desperate: boolean;
+    rejected: RejectedCandidate[]; // Sadece karar kaydı açıkken dolu
+}
+
+interface RankedAttempt {
+    result: ScheduleResult;
+    key: number[]; // (boş slot, en az nöbet açığı, hedef sapması) — sözlük sırasıyla küçük olan iyi
+    signature: string;
+}
+
+const MAX_TRACED_REJECTIONS = 5;
+
+export const DEFAULT_ALTERNATIVE_COUNT = 3;
+export const MAX_ALTERNATIVE_COUNT = 5;
+
+const compareKeys = (a: number[], b: number[]): number => {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return 0;
+};
+
+// Aynı atamalara sahip denemeler tek alternatif sayılır (gün içindeki sıra önemsiz)
+const scheduleSignature = (schedule: DaySchedule[]): string =>
+    schedule.map(d => d.assignments.map(a => `${a.serviceId}:${a.staffId}`).sort().join(',')).join('|');
+
 export class Scheduler {
   private staff: Staff[];
   private services: Service[];
   private config: SchedulerConfig;
+  private weights: ScoringWeights;
+  private rules: ActiveRule[];
   private daysInMonth: number;
   private logs: string[] = [];
+  private seed: number;
+  private random: RandomFn = Math.random; // Her denemede tohumlu üreteçle değiştirilir
+  private traces: AssignmentTrace[] | null = null; // null = karar kaydı kapalı
+  private carriedDays: DaySchedule[]; // Önceki ayın son günleri (gün <= 0), değiştirilmez
+  private ledgerPressure: Map<string, LedgerPressure>; // Geçmiş ayların yükü (boşsa etkisiz)
+  private holidays: Map<number, Holiday>; // Bu ayın tatil günleri
+  private leaveMap: Map<string, Set<number>>; // StaffID -> bu ayın izinli günleri
+  private restRules: RestRulesConfig;
+  private dayServices: Map<number, Service[]>; // Gün bazında çözülmüş min-max değerleriyle servisler
+  private roles: RoleHierarchy;
+  private quotaBounds: Map<string, QuotaBounds>; // StaffID -> saat olarak en az / hedef / en fazla
+  private pins: PinnedAssignment[]; // Önceden yerleştirilir, hiçbir fazda değiştirilmez
+  private lockedDays: Set<number>; // Fazlar bu günlere yeni atama yapmaz
   
   // Cache
   private roommatesMap: Map<string, string[]> = new Map(); // StaffID -> RoommateIDs
+  private staffById: Map<string, Staff>;
 
   constructor(staff: Staff[], services: Service[], config: SchedulerConfig) {
     this.staff = staff.filter(s => s.isActive !== false); 
+    this.staffById = new Map(this.staff.map(s => [s.id, s]));
     this.services = services;
     this.config = config;
+    this.weights = { ...DEFAULT_WEIGHTS, ...config.weights };
+    this.rules = resolveRules(config.rules);
     this.daysInMonth = new Date(config.year, config.month + 1, 0).getDate();
+    this.seed = config.seed !== undefined ? config.seed >>> 0 : generateSeed();
+    this.carriedDays = getCarriedDays(config.carryOver, config.year, config.month);
+    this.ledgerPressure = computeLedgerPressure(config.fairnessLedger, this.staff);
+    this.holidays = getMonthHolidays(config.holidays, config.year, config.month);
+    this.leaveMap = buildLeaveMap(this.staff, config.year, config.month);
+    this.restRules = config.restRules ?? DEFAULT_REST_RULES;
+    this.roles = getRoleHierarchy(config.roles);
+    this.quotaBounds = new Map(this.staff.map(s => [s.id, getQuotaBounds(s, this.roles)]));
+    const pins = getMonthPins(config.pins, config.year, config.month);
+    this.pins = pins?.assignments ?? [];
+    this.lockedDays = new Set(pins?.lockedDays ?? []);
+    this.dayServices = new Map();
+    for (let day = 1; day <= this.daysInMonth; day++) {
+        this.dayServices.set(day, resolveDayServices(services, config, day, this.holidays.get(day)));
+    }
     
     this.analyzeRoommates();
   }
 
   private analyzeRoommates() {
-      // Group staff by Room
-      const roomGroups = new Map<string, string[]>();
-      this.staff.forEach(s => {
-          // Eğer oda no boşsa (Aracı vb.), kimseyle çakışmaz.
-          if (!s.room || s.room.trim() === '') return;
-          
-          if (!roomGroups.has(s.room)) roomGroups.set(s.room, []);
-          roomGroups.get(s.room)!.push(s.id);
-      });
-
-      // Map each staff to their roommates
-      this.staff.forEach(s => {
-          if (s.room && s.room.trim() !== '') {
-              const roommates = roomGroups.get(s.room)!.filter(id => id !== s.id);
-              this.roommatesMap.set(s.id, roommates);
-          } else {
-              this.roommatesMap.set(s.id, []);
-          }
-      });
+      // Map each staff to their roommates (Group staff by Room)
+      this.roommatesMap = buildRoommatesMap(this.staff);
   }
 
   private isWeekend(day: number): boolean {
@@ -56,6 +128,10 @@ export class Scheduler {
     return dayOfWeek === 0 || dayOfWeek === 6; 
   }
 
+  private getDayServices(day: number): Service[] {
+    return this.dayServices.get(day) ?? this.services;
+  }
+
   private getDayOfWeek(day: number): number {
     return new Date(this.config.year, this.config.month, day).getDay(); // 0=Sun, 6=Sat, 5=Fri, 4=Thu
   }
@@ -76,8 +152,12 @@ export class Scheduler {
       // Use dynamic checks if needed, but for now hardcoded difficulty is simple
       // We can make this dynamic later if needed
       
+      // Bayram günleri en zor gün kadar zordur; arife yarım gün olduğundan hafta içinden biraz zor
+      const holiday = this.holidays.get(day);
+      if (holiday && !holiday.halfDay) return 90;
       if (dow === 6) return 80;  // Saturday
       if (dow === 0) return 60;  // Sunday
+      if (holiday) return 40; // Weekday arife
       return 10; // Weekdays
   }
 
@@ -103,10 +183,14 @@ export class Scheduler {
       }).length;
   }
 
-  public generate(): ScheduleResult {
+  // onProgress: Her denemeden sonra çağrılır (Web Worker üzerinden UI'a akıtılır)
+  public generate(onProgress?: (progress: SchedulerProgress) => void): ScheduleResult {
     let bestResult: ScheduleResult | null = null;
     let minUnfilled = Infinity;
+    let minShortfall = Infinity;
     let bestDeviation = Infinity;
+    const alternativeCount = Math.min(MAX_ALTERNATIVE_COUNT, Math.max(1, this.config.alternatives ?? 1));
+    const ranked: RankedAttempt[] = []; // En iyi farklı denemeler (sadece alternatif isteniyorsa)
 
     // Retry loop
     for (let attempt = 0; attempt < this.config.maxRetries; attempt++) {
@@ -116,21 +200,194 @@ export class Scheduler {
       const totalDeviation = currentResult.stats.reduce((acc, s) => {
         const staffDef = this.staff.find(st => st.id === s.staffId);
         if (!staffDef) return acc;
-        return acc + Math.abs(staffDef.quotaService - s.totalShifts);
+        return acc + toShiftEquivalents(Math.abs(getTargetHours(staffDef) - (s.hoursWorked || 0)));
       }, 0);
+      // En az nöbet yükümlülüğü boş slotlardan sonra, hedef sapmasından önce gelir
+      const hoursById = new Map(currentResult.stats.map(s => [s.staffId, s.hoursWorked || 0]));
+      const shortfall = sumMinimumShortfall(this.staff, id => hoursById.get(id) || 0, this.roles);
 
-      if (currentResult.unfilledSlots < minUnfilled) {
+      const better = currentResult.unfilledSlots < minUnfilled ||
+        (currentResult.unfilledSlots === minUnfilled && (shortfall < minShortfall || (shortfall === minShortfall && totalDeviation < bestDeviation)));
+      if (better) {
         minUnfilled = currentResult.unfilledSlots;
-        bestDeviation = totalDeviation;
-        bestResult = currentResult;
-      } else if (currentResult.unfilledSlots === minUnfilled && totalDeviation < bestDeviation) {
+        minShortfall = shortfall;
         bestDeviation = totalDeviation;
         bestResult = currentResult;
       }
+      if (alternativeCount > 1) {
+        this.rankAttempt(ranked, { result: currentResult, key: [currentResult.unfilledSlots, shortfall, totalDeviation], signature: scheduleSignature(currentResult.schedule) }, alternativeCount);
+      }
+
+      if (onProgress) {
+        onProgress({
+          attempt: attempt + 1,
+          totalAttempts: this.config.maxRetries,
+          bestUnfilledSlots: minUnfilled,
+          bestDeviation
+        });
+      }
     }
 
     if (!bestResult) throw new Error("Could not generate a schedule");
-    return bestResult;
+
+    // Kazanan denemeyi karar kaydı açıkken yeniden oynat (aynı tohum => birebir aynı çizelge)
+    const replayed = this.replay(bestResult.attemptIndex!, true);
+    const finalResult = this.config.localSearch?.enabled ? this.improve(replayed, onProgress) : replayed;
+    if (alternativeCount <= 1) return finalResult;
+
+    return { ...finalResult, alternatives: this.buildAlternatives(finalResult, ranked, onProgress) };
+  }
+
+  // Sıralı listeye yerleştirir; eşit anahtarda önceki deneme önde kalır (kazanan her zaman ilk sırada)
+  private rankAttempt(ranked: RankedAttempt[], attempt: RankedAttempt, limit: number) {
+    if (ranked.some(r => r.signature === attempt.signature)) return;
+    const index = ranked.findIndex(r => compareKeys(attempt.key, r.key) < 0);
+    if (index === -1) {
+        if (ranked.length < limit) ranked.push(attempt);
+        return;
+    }
+    ranked.splice(index, 0, attempt);
+    if (ranked.length > limit) ranked.pop();
+  }
+
+  // Kazanan dışındaki denemeler de karar kaydıyla yeniden oynatılır ve (açıksa) yerel aramadan geçirilir.
+  // Yerel arama iki alternatifi aynı çizelgeye götürürse biri elenir.
+  private buildAlternatives(best: ScheduleResult, ranked: RankedAttempt[], onProgress?: (progress: SchedulerProgress) => void): ScheduleAlternative[] {
+    const results = [best, ...ranked
+        .filter(r => r.result.attemptIndex !== best.attemptIndex)
+        .map(r => {
+            const replayed = this.replay(r.result.attemptIndex!, true);
+            return this.config.localSearch?.enabled ? this.improve(replayed, onProgress) : replayed;
+        })];
+
+    const seen = new Set<string>();
+    return results
+        .filter(r => {
+            const signature = scheduleSignature(r.schedule);
+            if (seen.has(signature)) return false;
+            seen.add(signature);
+            return true;
+        })
+        .map(r => {
+            const requests = summarizeRequestSatisfaction(r.schedule, this.staff, this.config.year, this.config.month);
+            return {
+                attemptIndex: r.attemptIndex!,
+                schedule: r.schedule.map(d => ({ ...d, assignments: [...d.assignments] })), // Elle düzenleme alternatifi değiştirmesin
+                stats: r.stats,
+                unfilledSlots: r.unfilledSlots,
+                traces: r.traces,
+                improvement: r.improvement,
+                objective: evaluateObjective(r.schedule, this.staff, this.services, this.config),
+                requestsMet: requests.must.satisfied + requests.prefer.satisfied,
+                requestsTotal: requests.must.total + requests.prefer.total
+            };
+        });
+  }
+
+  // Faz 3 sonrası yerel arama. Denemelerden bağımsız kendi rastgele akışını kullanır.
+  private improve(result: ScheduleResult, onProgress?: (progress: SchedulerProgress) => void): ScheduleResult {
+    const random = createRandom(deriveSeed(this.seed, this.config.maxRetries));
+    const { schedule, improvement } = improveSchedule(
+        result.schedule, this.staff, this.services, this.config, random,
+        onProgress ? (iteration, totalIterations, current) => onProgress({
+            attempt: iteration,
+            totalAttempts: totalIterations,
+            bestUnfilledSlots: current.unfilledSlots,
+            bestDeviation: current.quotaDeviation,
+            stage: 'improve'
+        }) : undefined
+    );
+
+    // Yer değiştiren atamaların kararı artık geçersiz
+    const present = new Set<string>();
+    schedule.forEach(d => d.assignments.forEach(a => present.add(`${d.day}-${a.serviceId}-${a.staffId}`)));
+
+    this.log(`Yerel arama: amaç ${improvement.before.total} → ${improvement.after.total} (${improvement.iterations} iterasyon, ${improvement.elapsedMs} ms)${improvement.stoppedBySafetyLimit ? ' — güvenlik süresi doldu, bu sonuç tohumdan birebir tekrar üretilemeyebilir' : ''}`);
+
+    return {
+        ...result,
+        schedule,
+        unfilledSlots: improvement.after.unfilledSlots,
+        stats: computeStats(schedule, this.staff, this.services, this.config),
+        traces: result.traces?.filter(t => present.has(`${t.day}-${t.serviceId}-${t.staffId}`)),
+        logs: this.logs,
+        improvement
+    };
+  }
+
+  // Tek bir denemeyi yeniden oynatır (Yedekteki seed + attemptIndex ile aynı çizelge)
+  public replay(attemptIndex: number, withTrace = false): ScheduleResult {
+    this.logs = [];
+    return this.runSimulation(attemptIndex, withTrace);
+  }
+
+  // Acil yedek: verilen çizelgede tek bir slot için herkesi üretimdeki puanlama ve kesin kurallarla sıralar.
+  // Engeller elenmez, uyarı olarak döner; kotası dolu ama fazla mesaiye gönüllü olanlar kota engeli saymaz.
+  // Servise branşı uymayanlar ve o gün zaten nöbetçi olanlar da listede kalır, engel sayısıyla alta düşer.
+  public rankReplacements(schedule: DaySchedule[], day: number, serviceId: string, replacedStaffId: string): ReplacementCandidate[] {
+    const service = this.getDayServices(day).find(s => s.id === serviceId) ?? this.services.find(s => s.id === serviceId);
+    if (!service) return [];
+
+    // Değiştirilecek atama dışında çizelge olduğu gibi durum kabul edilir
+    let removed = false;
+    const dayAssignmentsMap = new Map<number, ShiftAssignment[]>();
+    this.carriedDays.forEach(d => dayAssignmentsMap.set(d.day, d.assignments));
+    const staffStats = new Map<string, StaffStat>();
+    this.staff.forEach(s => staffStats.set(s.id, { total: 0, weekend: 0, saturday: 0, sunday: 0, holiday: 0, hours: 0 }));
+    for (let d = 1; d <= this.daysInMonth; d++) {
+        const assignments = (schedule.find(sd => sd.day === d)?.assignments || []).filter(a => {
+            if (a.staffId === 'EMPTY') return false;
+            if (!removed && d === day && a.serviceId === serviceId && a.staffId === replacedStaffId) {
+                removed = true;
+                return false;
+            }
+            return true;
+        });
+        dayAssignmentsMap.set(d, assignments);
+        assignments.forEach(a => {
+            const stats = staffStats.get(a.staffId);
+            const assignedService = this.services.find(s => s.id === a.serviceId);
+            if (stats && assignedService) this.countShift(stats, d, assignedService);
+        });
+    }
+
+    const dayOfWeek = this.getDayOfWeek(day);
+    const assignedTodayIds = new Set(dayAssignmentsMap.get(day)!.map(a => a.staffId));
+    const evaluations = this.evaluateCandidates(
+        service, day, assignedTodayIds, dayAssignmentsMap, staffStats,
+        dayOfWeek === 6 || dayOfWeek === 0, dayOfWeek === 6, dayOfWeek === 0, dayOfWeek === 5,
+        { desperate: true, inspect: true }, true
+    );
+
+    const candidates = evaluations
+        .filter(e => e.person.id !== replacedStaffId)
+        .map(e => {
+            const ruleIds = e.violatedRules.map(r => r.id);
+            return {
+                staffId: e.person.id,
+                score: Math.round(e.score),
+                breakdown: e.breakdown,
+                ruleIds,
+                overtime: !!e.person.overtimeVolunteer && ruleIds.includes('quota')
+            };
+        });
+
+    // Engelsizler, sonra sadece fazla mesai gerektiren gönüllüler, sonra uyarı sayısına göre; eşitlikte puan
+    const blockerCount = (c: ReplacementCandidate) => c.ruleIds.filter(id => !(c.overtime && id === 'quota')).length;
+    return candidates.sort((a, b) =>
+        blockerCount(a) - blockerCount(b) ||
+        Number(a.overtime) - Number(b.overtime) ||
+        b.score - a.score);
+  }
+
+  private countShift(stats: StaffStat, day: number, service: Service) {
+    const dayOfWeek = this.getDayOfWeek(day);
+    stats.total++;
+    stats.hours += getShiftHours(service);
+    if (dayOfWeek === 6 || dayOfWeek === 0) stats.weekend++;
+    if (dayOfWeek === 6) stats.saturday++;
+    if (dayOfWeek === 0) stats.sunday++;
+    if (this.holidays.has(day)) stats.holiday++;
   }
 
   private hasShiftOnDay(assignmentsMap: Map<number, ShiftAssignment[]>, day: number, staffId: string): boolean {
@@ -139,12 +396,17 @@ export class Scheduler {
     return assignments.some(a => a.staffId === staffId);
   }
 
-  private runSimulation(attemptIndex: number): ScheduleResult {
+  private runSimulation(attemptIndex: number, withTrace = false): ScheduleResult {
+    this.random = createRandom(deriveSeed(this.seed, attemptIndex));
+    this.traces = withTrace ? [] : null;
+
     const dayAssignmentsMap = new Map<number, ShiftAssignment[]>();
     for(let d=1; d<=this.daysInMonth; d++) dayAssignmentsMap.set(d, []);
+    // Ay sınırı: 24 saat, gün aşırı ve Perşembe-Haftasonu kontrolleri önceki aya da bakar
+    this.carriedDays.forEach(d => dayAssignmentsMap.set(d.day, d.assignments));
 
-    const staffStats = new Map<string, { total: number, weekend: number, saturday: number, sunday: number }>();
-    this.staff.forEach(s => staffStats.set(s.id, { total: 0, weekend: 0, saturday: 0, sunday: 0 }));
+    const staffStats = new Map<string, StaffStat>();
+    this.staff.forEach(s => staffStats.set(s.id, { total: 0, weekend: 0, saturday: 0, sunday: 0, holiday: 0, hours: 0 }));
 
     let unfilledSlots = 0;
     let daysToProcess = Array.from({length: this.daysInMonth}, (_, i) => i + 1);
@@ -154,33 +416,41 @@ export class Scheduler {
          daysToProcess.sort((a, b) => {
              const diff = this.getDayDifficulty(b) - this.getDayDifficulty(a);
              if (diff !== 0) return diff;
-             return Math.random() - 0.5;
+             return this.random() - 0.5;
          });
     } else {
         daysToProcess.sort((a, b) => this.getDayDifficulty(b) - this.getDayDifficulty(a));
     }
     
-    // HELPER: Assign a staff member to a service and update stats
-    const assignToSlot = (day: number, candidate: Staff, service: Service) => {
-        const currentDayAssignments = dayAssignmentsMap.get(day)!;
-        const dayOfWeek = this.getDayOfWeek(day);
-        const isWeekend = dayOfWeek === 6 || dayOfWeek === 0;
-        const isSat = dayOfWeek === 6;
-        const isSun = dayOfWeek === 0;
-
-        currentDayAssignments.push({
+    // HELPER: Place a staff member into a service and update stats
+    const placeShift = (day: number, candidate: Staff, service: Service) => {
+        dayAssignmentsMap.get(day)!.push({
             serviceId: service.id,
             staffId: candidate.id,
             staffName: candidate.name,
             role: candidate.role,
             unit: candidate.unit
         });
-        
-        const stats = staffStats.get(candidate.id)!;
-        stats.total++;
-        if (isWeekend) stats.weekend++;
-        if (isSat) stats.saturday++;
-        if (isSun) stats.sunday++;
+        this.countShift(staffStats.get(candidate.id)!, day, service);
+    };
+
+    // HELPER: Assign a chosen candidate (with its decision trace)
+    const assignToSlot = (day: number, decision: CandidateDecision, service: Service, phase: AssignmentTrace['phase']) => {
+        const candidate = decision.person;
+        placeShift(day, candidate, service);
+
+        if (this.traces) {
+            this.traces.push({
+                day,
+                serviceId: service.id,
+                staffId: candidate.id,
+                phase,
+                desperate: decision.desperate,
+                score: Math.round(decision.score),
+                breakdown: decision.breakdown,
+                rejected: decision.rejected
+            });
+        }
     };
 
     // Helper to get day context
@@ -195,6 +465,53 @@ export class Scheduler {
         };
     };
 
+    // Assign and, for hard "always together" pairs, place the partner on the same day
+    // into any service that still has room. A partner that cannot be placed leaves the pair split
+    // (reported by validateSchedule) instead of undoing the assignment.
+    const assignWithPartners = (day: number, decision: CandidateDecision, service: Service, phase: AssignmentTrace['phase'], assignedTodayIds: Set<string>) => {
+        assignToSlot(day, decision, service, phase);
+        assignedTodayIds.add(decision.person.id);
+
+        for (const partnerId of getPairPartners(this.config.pairConstraints, decision.person.id, 'always', true)) {
+            if (assignedTodayIds.has(partnerId) || !this.staffById.has(partnerId)) continue;
+            const { isWeekend, isSat, isSun, isFri } = getContext(day);
+            const currentDayAssignments = dayAssignmentsMap.get(day)!;
+            const countOf = (s: Service) => currentDayAssignments.filter(a => a.serviceId === s.id).length;
+            const openServices = this.getDayServices(day)
+                .filter(s => countOf(s) < s.maxDailyCount)
+                .sort((a, b) => (countOf(a) - a.minDailyCount) - (countOf(b) - b.minDailyCount));
+
+            let partnerDecision: CandidateDecision | null = null;
+            let partnerService: Service | null = null;
+            for (const desperate of [false, true]) {
+                for (const candidateService of openServices) {
+                    partnerDecision = this.findBestCandidate(
+                        candidateService, day, assignedTodayIds, dayAssignmentsMap, staffStats,
+                        isWeekend, isSat, isSun, isFri, { restrictStaffId: partnerId, desperate }
+                    );
+                    if (partnerDecision) { partnerService = candidateService; break; }
+                }
+                if (partnerDecision) break;
+            }
+            if (partnerDecision && partnerService) assignWithPartners(day, partnerDecision, partnerService, phase, assignedTodayIds);
+        }
+    };
+
+    // --- PINNED ASSIGNMENTS ---
+    // Sabitlenen atamalar fazlardan önce yerleştirilir: sayımlara ve kural kontrollerine girer, sonra dokunulmaz.
+    // Artık aktif olmayan personel veya o gün açık olmayan servis için sabitleme yok sayılır.
+    for (const pin of this.pins) {
+        const person = this.staffById.get(pin.staffId);
+        const service = pin.day >= 1 && pin.day <= this.daysInMonth ? this.getDayServices(pin.day).find(s => s.id === pin.serviceId) : undefined;
+        if (!person || !service || this.hasShiftOnDay(dayAssignmentsMap, pin.day, person.id)) {
+            this.log(`${pin.day}. gün: sabitlenen atama uygulanamadı (${person?.name ?? pin.staffId})`);
+            continue;
+        }
+        placeShift(pin.day, person, service);
+    }
+    // Kilitli günler sadece son minimum kontrolüne girer (eksikler BOŞ olarak raporlanır)
+    const openDays = daysToProcess.filter(day => !this.lockedDays.has(day));
+
     // =========================================================================
     // NEW LOGIC: GLOBAL LAYERING
     // Instead of filling a day completely, we fill Layer 1 for ALL days, then Layer 2, etc.
@@ -202,7 +519,7 @@ export class Scheduler {
 
     // --- PHASE 0: PRIORITY SPECIALTY ASSIGNMENT (Global Pass) ---
     // This MUST happen before anything else to ensure special staff get their restricted days.
-    for (const day of daysToProcess) {
+    for (const day of openDays) {
         const { isWeekend, isSat, isSun, isFri, assignedTodayIds } = getContext(day);
         const dayOfWeek = this.getDayOfWeek(day);
         const currentDayAssignments = dayAssignmentsMap.get(day)!;
@@ -219,7 +536,7 @@ export class Scheduler {
                      });
 
                      if (!alreadyAssigned) {
-                         const eligibleServices = [...this.services]
+                         const eligibleServices = [...this.getDayServices(day)]
                               .filter(s => s.minDailyCount > 0)
                               .sort((a, b) => {
                                   const aAllows = a.allowedUnits?.some(u => u.trim() === targetSpecialty) ? 1 : 0;
@@ -239,8 +556,7 @@ export class Scheduler {
                              );
 
                              if (specialistCandidate) {
-                                 assignToSlot(day, specialistCandidate, service);
-                                 assignedTodayIds.add(specialistCandidate.id);
+                                 assignWithPartners(day, specialistCandidate, service, 0, assignedTodayIds);
                                  break;
                              }
                          }
@@ -250,31 +566,38 @@ export class Scheduler {
         }
     }
 
-    // --- PHASE 1: ASSIGN 1 SENIOR (Global Pass) ---
-    // Ensures every day has at least 1 Senior if possible.
-    for (const day of daysToProcess) {
+    // --- PHASE 1: ASSIGN 1 SENIOR + ROLE MINIMUMS (Global Pass) ---
+    // Ensures every day has at least 1 Senior (roles that count as senior) if possible,
+    // then each role's daily minimum from the role hierarchy.
+    const phaseOneTargets = [
+        { roles: [...this.roles.seniorRoles], min: 1 },
+        ...this.roles.roles.filter(r => (r.dailyMin ?? 0) > 0).map(r => ({ roles: [r.role], min: r.dailyMin! }))
+    ].filter(t => t.roles.length > 0);
+
+    for (const day of openDays) {
         const { isWeekend, isSat, isSun, isFri, assignedTodayIds } = getContext(day);
-        let seniorAssignedToday = Array.from(assignedTodayIds).some(id => this.staff.find(s => s.id === id)?.role === 1);
 
-        if (!seniorAssignedToday) {
-            const shuffledServicesForSenior = [...this.services].sort(() => Math.random() - 0.5);
-            for (const service of shuffledServicesForSenior) {
-                if (seniorAssignedToday) break;
+        for (const target of phaseOneTargets) {
+            const countAssigned = () => Array.from(assignedTodayIds).filter(id => target.roles.includes(this.staffById.get(id)?.role ?? -1)).length;
+            if (countAssigned() >= target.min) continue;
+
+            const shuffledServices = [...this.getDayServices(day)].sort(() => this.random() - 0.5);
+            for (const service of shuffledServices) {
+                if (countAssigned() >= target.min) break;
                 if (service.minDailyCount <= 0) continue;
                 
                 const currentDayAssignments = dayAssignmentsMap.get(day)!;
                 const count = currentDayAssignments.filter(a => a.serviceId === service.id).length;
                 if (count >= service.minDailyCount) continue; // Don't overfill logic yet
 
-                const seniorCandidate = this.findBestCandidate(
+                const roleCandidate = this.findBestCandidate(
                     service, day, assignedTodayIds, dayAssignmentsMap, staffStats, 
                     isWeekend, isSat, isSun, isFri, 
-                    { restrictRole: 1 } 
+                    { restrictRoles: target.roles } 
                 );
 
-                if (seniorCandidate) {
-                   assignToSlot(day, seniorCandidate, service);
-                   seniorAssignedToday = true;
+                if (roleCandidate) {
+                   assignWithPartners(day, roleCandidate, service, 1, assignedTodayIds);
                 }
             }
         }
@@ -285,16 +608,16 @@ export class Scheduler {
     // Layer 1: Fill 1st slot of Service A, Service B, etc. for ALL Days.
     // Layer 2: Fill 2nd slot of Service A, Service B, etc. for ALL Days.
     
-    const maxMinDailyCount = Math.max(...this.services.map(s => s.minDailyCount));
+    const maxMinDailyCount = Math.max(0, ...daysToProcess.flatMap(day => this.getDayServices(day).map(s => s.minDailyCount)));
 
     for (let layer = 1; layer <= maxMinDailyCount; layer++) {
         // Recalculate sort order for each layer slightly to avoid bias? 
         // Keeping consistent hard day sort is usually better.
         
-        for (const day of daysToProcess) {
+        for (const day of openDays) {
             const { isWeekend, isSat, isSun, isFri, assignedTodayIds } = getContext(day);
             const currentDayAssignments = dayAssignmentsMap.get(day)!;
-            const dailyServices = [...this.services].sort((a, b) => this.getServiceDifficulty(b) - this.getServiceDifficulty(a));
+            const dailyServices = [...this.getDayServices(day)].sort((a, b) => this.getServiceDifficulty(b) - this.getServiceDifficulty(a));
 
             for (const service of dailyServices) {
                 // How many do we have now?
@@ -317,9 +640,8 @@ export class Scheduler {
                     }
 
                     if (bestCandidate) {
-                        assignToSlot(day, bestCandidate, service);
-                        assignedTodayIds.add(bestCandidate.id);
-                        currentServiceCount++;
+                        assignWithPartners(day, bestCandidate, service, 2, assignedTodayIds);
+                        currentServiceCount = currentDayAssignments.filter(a => a.serviceId === service.id).length;
                     } else {
                         // If we can't fill Layer 1, that's a problem. 
                         // But if we can't fill Layer 2, maybe we just leave it for now.
@@ -335,7 +657,7 @@ export class Scheduler {
     // Final Minimum Check (Fill gaps with EMPTY)
     for (const day of daysToProcess) {
         const currentDayAssignments = dayAssignmentsMap.get(day)!;
-        for (const service of this.services) {
+        for (const service of this.getDayServices(day)) {
             const count = currentDayAssignments.filter(a => a.serviceId === service.id).length;
             if (count < service.minDailyCount) {
                 for(let i=count; i<service.minDailyCount; i++) {
@@ -353,48 +675,80 @@ export class Scheduler {
     }
 
     // --- PHASE 3: FILL TO GLOBAL TARGET (MAX BALANCE) (Global Pass) ---
-    if (this.config.dailyTotalTarget > 0) {
-        for (const day of daysToProcess) {
-             const { isWeekend, isSat, isSun, isFri, assignedTodayIds } = getContext(day);
-             const currentDayAssignments = dayAssignmentsMap.get(day)!;
-             let currentTotalStaff = currentDayAssignments.filter(a => a.staffId !== 'EMPTY').length;
-
-             let protectionCounter = 0;
-             while (currentTotalStaff < this.config.dailyTotalTarget && protectionCounter < 50) {
-                  protectionCounter++;
-                  const flexibleServices = this.services.filter(s => {
-                      const currentCount = currentDayAssignments.filter(a => a.serviceId === s.id).length;
-                      return currentCount < s.maxDailyCount;
-                  });
-                  
-                  if (flexibleServices.length === 0) break;
-                  
-                  flexibleServices.sort((a, b) => this.getPotentialCandidatesCount(b) - this.getPotentialCandidatesCount(a));
+    for (const day of openDays) {
+         const dailyTarget = resolveDailyTarget(this.config, day, this.holidays.get(day));
+         if (dailyTarget <= 0) continue;
+         const { isWeekend, isSat, isSun, isFri, assignedTodayIds } = getContext(day);
+         const currentDayAssignments = dayAssignmentsMap.get(day)!;
+         let currentTotalStaff = currentDayAssignments.filter(a => a.staffId !== 'EMPTY').length;
+
+         let protectionCounter = 0;
+         while (currentTotalStaff < dailyTarget && protectionCounter < 50) {
+              protectionCounter++;
+              const flexibleServices = this.getDayServices(day).filter(s => {
+                  const currentCount = currentDayAssignments.filter(a => a.serviceId === s.id).length;
+                  return currentCount < s.maxDailyCount;
+              });
+              
+              if (flexibleServices.length === 0) break;
+              
+              flexibleServices.sort((a, b) => this.getPotentialCandidatesCount(b) - this.getPotentialCandidatesCount(a));
+              
+              let filledSomething = false;
+              for (const service of flexibleServices) {
+                   let extraCandidate = this.findBestCandidate(
+                      service, day, assignedTodayIds, dayAssignmentsMap, staffStats, 
+                      isWeekend, isSat, isSun, isFri, {} 
+                  );
                   
-                  let filledSomething = false;
-                  for (const service of flexibleServices) {
-                       let extraCandidate = this.findBestCandidate(
+                  if (!extraCandidate) {
+                      extraCandidate = this.findBestCandidate(
                           service, day, assignedTodayIds, dayAssignmentsMap, staffStats, 
-                          isWeekend, isSat, isSun, isFri, {} 
+                          isWeekend, isSat, isSun, isFri, { desperate: true }
                       );
-                      
-                      if (!extraCandidate) {
-                          extraCandidate = this.findBestCandidate(
-                              service, day, assignedTodayIds, dayAssignmentsMap, staffStats, 
-                              isWeekend, isSat, isSun, isFri, { desperate: true }
-                          );
-                      }
+                  }
     
-                      if (extraCandidate) {
-                          assignToSlot(day, extraCandidate, service);
-                          assignedTodayIds.add(extraCandidate.id);
-                          currentTotalStaff++;
-                          filledSomething = true;
-                          break; 
-                      }
+                  if (extraCandidate) {
+                      assignWithPartners(day, extraCandidate, service, 3, assignedTodayIds);
+                      currentTotalStaff = currentDayAssignments.filter(a => a.staffId !== 'EMPTY').length;
+                      filledSomething = true;
+                      break; 
                   }
-                  if (!filledSomething) break;
-             }
+              }
+              if (!filledSomething) break;
+         }
+    }
+
+    // --- PHASE 4: MINIMUM QUOTA OBLIGATIONS (Global Pass) ---
+    // Staff still below their contractual minimum are placed into any service with spare capacity,
+    // even beyond the daily target. Hard rules still apply; the best scoring day is taken first.
+    const minimumGap = (person: Staff) => this.quotaBounds.get(person.id)!.min - staffStats.get(person.id)!.hours;
+    const belowMinimum = this.staff.filter(s => minimumGap(s) > 0).sort((a, b) => minimumGap(b) - minimumGap(a));
+    for (const person of belowMinimum) {
+        while (minimumGap(person) > 0) {
+            const options: { day: number; service: Service; decision: CandidateDecision }[] = [];
+            for (const desperate of [false, true]) {
+                for (const day of openDays) {
+                    const { isWeekend, isSat, isSun, isFri, assignedTodayIds } = getContext(day);
+                    if (assignedTodayIds.has(person.id)) continue;
+                    const currentDayAssignments = dayAssignmentsMap.get(day)!;
+                    for (const service of this.getDayServices(day)) {
+                        if (currentDayAssignments.filter(a => a.serviceId === service.id).length >= service.maxDailyCount) continue;
+                        const decision = this.findBestCandidate(
+                            service, day, assignedTodayIds, dayAssignmentsMap, staffStats,
+                            isWeekend, isSat, isSun, isFri, { restrictStaffId: person.id, desperate }
+                        );
+                        if (decision) options.push({ day, service, decision });
+                    }
+                }
+                if (options.length > 0) break;
+            }
+            if (options.length === 0) break;
+            const best = options.reduce((a, b) => b.decision.score > a.decision.score ? b : a);
+            assignWithPartners(best.day, best.decision, best.service, 4, getContext(best.day).assignedTodayIds);
+        }
+        if (minimumGap(person) > 0) {
+            this.log(`${person.name}: en az ${formatHours(this.quotaBounds.get(person.id)!.min)} yükümlülüğü karşılanamadı (${formatHours(staffStats.get(person.id)!.hours)})`);
         }
     }
 
@@ -403,7 +757,8 @@ export class Scheduler {
         schedule.push({
             day: d,
             assignments: dayAssignmentsMap.get(d) || [],
-            isWeekend: this.isWeekend(d)
+            isWeekend: this.isWeekend(d),
+            holiday: this.holidays.get(d)
         });
     }
 
@@ -411,12 +766,18 @@ export class Scheduler {
       schedule,
       unfilledSlots,
       logs: this.logs,
+      seed: this.seed,
+      attemptIndex,
+      traces: this.traces ?? undefined,
       stats: Array.from(staffStats.entries()).map(([id, s]) => ({
         staffId: id,
         totalShifts: s.total,
         weekendShifts: s.weekend,
         saturdayShifts: s.saturday,
-        sundayShifts: s.sunday
+        sundayShifts: s.sunday,
+        holidayShifts: s.holiday,
+        hoursWorked: s.hours,
+        targetHours: getTargetHours(this.staffById.get(id)!)
       }))
     };
   }
@@ -426,26 +787,120 @@ export class Scheduler {
       day: number, 
       assignedTodayIds: Set<string>, 
       dayAssignmentsMap: Map<number, ShiftAssignment[]>,
-      staffStats: Map<string, any>,
+      staffStats: Map<string, StaffStat>,
       isWeekend: boolean, isSat: boolean, isSun: boolean, isFri: boolean,
       options: CandidateOptions
-  ): Staff | null {
-      
+  ): CandidateDecision | null {
+      const tracing = this.traces !== null;
+      const evaluations = this.evaluateCandidates(
+          service, day, assignedTodayIds, dayAssignmentsMap, staffStats,
+          isWeekend, isSat, isSun, isFri, options, tracing
+      );
+
+      let best: CandidateEvaluation | null = null;
+      for (const evaluation of evaluations) {
+          if (evaluation.violatedRule) continue;
+          if (!best || evaluation.score > best.score) best = evaluation;
+      }
+      if (!best) return null;
+
+      let rejected: RejectedCandidate[] = [];
+      if (tracing) {
+          // "Zaten bugün nöbetçi" olanlar bilgi vermez, listeye alınmaz
+          rejected = evaluations
+              .filter(e => e !== best && e.violatedRule?.id !== 'available')
+              .sort((a, b) => b.score - a.score)
+              .slice(0, MAX_TRACED_REJECTIONS)
+              .map(e => ({
+                  staffId: e.person.id,
+                  staffName: e.person.name,
+                  score: Math.round(e.score),
+                  ruleId: e.violatedRule?.id
+              }));
+      }
+
+      return {
+          person: best.person,
+          score: best.score,
+          breakdown: best.breakdown,
+          desperate: !!options.desperate,
+          rejected
+      };
+  }
+
+  // Could the hard "always together" partner still be placed today if `person` took this slot?
+  // Checked in desperate mode (the follow-up placement also falls back to it); chained pairs are not followed.
+  private canPlacePartner(
+      partnerId: string,
+      person: Staff,
+      service: Service,
+      day: number,
+      assignedTodayIds: Set<string>,
+      dayAssignmentsMap: Map<number, ShiftAssignment[]>,
+      staffStats: Map<string, StaffStat>,
+      isWeekend: boolean, isSat: boolean, isSun: boolean
+  ): boolean {
+      const partner = this.staffById.get(partnerId);
+      if (!partner) return true;
+      const idsWithPerson = new Set(assignedTodayIds).add(person.id);
+      const seniorCountOnDay = Array.from(idsWithPerson).filter(id => this.roles.isSenior(this.staffById.get(id)?.role)).length;
+      const dayAssignments = dayAssignmentsMap.get(day)!;
+      const assignmentsWithPerson: ShiftAssignment[] = [...dayAssignments, { serviceId: service.id, staffId: person.id, staffName: person.name, role: person.role, unit: person.unit }];
+      const rules = this.rules.filter(r => r.rule.id !== 'pairTogether');
+
+      return this.getDayServices(day).some(candidateService => {
+          const count = dayAssignments.filter(a => a.serviceId === candidateService.id).length + (candidateService.id === service.id ? 1 : 0);
+          if (count >= candidateService.maxDailyCount) return false;
+          const ctx: RuleContext = {
+              person: partner, service: candidateService, day,
+              dayOfWeek: this.getDayOfWeek(day),
+              isWeekend, isSat, isSun,
+              isHoliday: this.holidays.has(day),
+              stats: staffStats.get(partner.id)!,
+              assignedTodayIds: idsWithPerson,
+              todayAssignments: assignmentsWithPerson,
+              seniorCountOnDay,
+              desperate: true,
+              config: this.config,
+              roommates: this.roommatesMap.get(partner.id) || [],
+              getStaff: (id) => this.staffById.get(id),
+              isOnLeave: (staffId, d) => this.leaveMap.get(staffId)?.has(d) ?? false,
+              hasShiftOnDay: (d, staffId) => this.hasShiftOnDay(dayAssignmentsMap, d, staffId)
+          };
+          return findViolatedRule(rules, ctx) === null;
+      });
+  }
+
+  // Scores every candidate that passes the option filters.
+  // Rule-blocked candidates are only scored (without jitter) when includeRejected is set,
+  // so the random stream — and therefore the schedule — is identical with or without tracing.
+  private evaluateCandidates(
+      service: Service, 
+      day: number, 
+      assignedTodayIds: Set<string>, 
+      dayAssignmentsMap: Map<number, ShiftAssignment[]>,
+      staffStats: Map<string, StaffStat>,
+      isWeekend: boolean, isSat: boolean, isSun: boolean, isFri: boolean,
+      options: CandidateOptions,
+      includeRejected: boolean
+  ): CandidateEvaluation[] {
       const dayOfWeek = this.getDayOfWeek(day); 
+      const isHoliday = this.holidays.has(day);
 
       // --- LOGIC: CALCULATE MIN SHIFTS FOR FAIRNESS ---
       
-      // 1. Min Shifts of Juniors (Role 3) - Used for Vertical Fairness (Senior vs Junior)
-      const activeJuniors = this.staff.filter(s => s.role === 3 && s.isActive);
-      let minJuniorShifts = 999;
+      // Fairness is balanced on hours worked (shift lengths may differ per service)
+      // 1. Min Hours of Juniors (lowest roles) - Used for Vertical Fairness (Senior vs Junior)
+      const activeJuniors = this.staff.filter(s => this.roles.isJunior(s.role) && s.isActive);
+      let minJuniorHours = Infinity;
       if (activeJuniors.length > 0) {
-          minJuniorShifts = Math.min(...activeJuniors.map(j => staffStats.get(j.id)?.total || 0));
+          minJuniorHours = Math.min(...activeJuniors.map(j => staffStats.get(j.id)?.hours || 0));
       }
 
-      // 2. Min Shifts Map by Role - EXCLUDING SPECIALTIES for Water Level Rule
+      // 2. Min Hours Map by Role - EXCLUDING SPECIALTIES for Water Level Rule
       // FIXED: Also Exclude staff who have reached their quota from dragging down the average.
-      const minShiftsByRole: Record<number, number> = {};
-      [1, 2, 3].forEach(r => {
+      const minHoursByRole: Record<number, number> = {};
+      this.roles.roles.forEach(({ role: r }) => {
           // Filter ONLY standard staff (no specialty) to calculate the "Water Level"
           const peers = this.staff.filter(s => 
               s.role === r && 
@@ -457,21 +912,21 @@ export class Scheduler {
           // If a peer is maxed out, they shouldn't force others to wait.
           const unfinishedPeers = peers.filter(p => {
               const stats = staffStats.get(p.id);
-              return stats && stats.total < p.quotaService;
+              return stats && stats.hours < getTargetHours(p);
           });
 
           // Fallback: If everyone is finished, look at everyone (effectively disables rule)
           const referenceGroup = unfinishedPeers.length > 0 ? unfinishedPeers : peers;
 
           if (referenceGroup.length > 0) {
-              minShiftsByRole[r] = Math.min(...referenceGroup.map(p => staffStats.get(p.id)?.total || 0));
+              minHoursByRole[r] = Math.min(...referenceGroup.map(p => staffStats.get(p.id)?.hours || 0));
           } else {
-              minShiftsByRole[r] = 0;
+              minHoursByRole[r] = 0;
           }
       });
       
       // Check if a senior is ALREADY assigned today (Stateless check)
-      const seniorCountOnDay = Array.from(assignedTodayIds).filter(id => this.staff.find(s => s.id === id)?.role === 1).length;
+      const seniorCountOnDay = Array.from(assignedTodayIds).filter(id => this.roles.isSenior(this.staffById.get(id)?.role)).length;
       
       // Get set of Units assigned today for Diversity Score
       // Get counts of units to prevent clumping (e.g. 2 KBB today)
@@ -495,131 +950,86 @@ export class Scheduler {
           });
       }
 
-      const candidates = this.staff.filter(person => {
-          // --- OPTIONS FILTERS ---
-          if (options.restrictRole !== undefined && person.role !== options.restrictRole) return false;
-          if (options.excludeRole !== undefined && person.role === options.excludeRole) return false;
-          
-          // CRITICAL: Mandatory Specialty Reservation (Used in Phase 0)
-          if (options.restrictSpecialty && person.specialty?.trim() !== options.restrictSpecialty) return false;
-
-          // --- HARD CONSTRAINTS ---
-          
-          // 1. Availability
-          if (assignedTodayIds.has(person.id)) return false;
-          if (person.offDays.includes(day)) return false;
-
-          // 2. Strict 24h Shift Rule
-          if (this.hasShiftOnDay(dayAssignmentsMap, day - 1, person.id)) return false;
-          if (this.hasShiftOnDay(dayAssignmentsMap, day + 1, person.id)) return false;
-          
-          // 4. Unit Matching (Branş) & Constraints
-          const isNewNurse = person.role === 3;
-          
-          if (!isNewNurse) {
-              // A. Service Unit Matching
-              // If service allows specific units, check if person matches
-              if (service.allowedUnits && service.allowedUnits.length > 0) {
-                  if (!service.allowedUnits.includes(person.unit)) return false;
-              }
-
-              // B. Unit Day Constraints (Legacy Unit Check)
-              const constraint = this.config.unitConstraints.find(c => c.unit === person.unit);
-              if (constraint) {
-                  if (!constraint.allowedDays.includes(dayOfWeek)) return false;
-              }
-              
-              // C. Specialty Day Constraints (Dynamic Logic)
-              if (person.specialty && person.specialty !== 'none') {
-                  const specConstraint = this.config.unitConstraints.find(c => c.unit.trim() === person.specialty?.trim());
-                  if (specConstraint) {
-                      // If constraint exists for this specialty name, they can ONLY work on allowed days
-                      if (!specConstraint.allowedDays.includes(dayOfWeek)) return false;
-                  }
-              }
-          }
-
-          // 5. ROOMMATE CONFLICTS
-          const roommates = this.roommatesMap.get(person.id) || [];
-          for (const roommateId of roommates) {
-              if (assignedTodayIds.has(roommateId)) return false;
-              if (this.hasShiftOnDay(dayAssignmentsMap, day - 1, roommateId)) return false;
-              if (this.hasShiftOnDay(dayAssignmentsMap, day + 1, roommateId)) return false;
-
-              // NEW RULE: If roommate is OFF today, I cannot work.
-              const roommate = this.staff.find(r => r.id === roommateId);
-              if (roommate && roommate.offDays.includes(day)) {
-                  return false;
-              }
-          }
+      const fairness = {
+          minHoursByRole,
+          minJuniorHours,
+          activeJuniorCount: activeJuniors.length
+      };
 
-          // 6. Quotas (Strict - Never exceed even in desperate)
-          const stats = staffStats.get(person.id)!;
-          if (stats.total >= person.quotaService) return false;
-          if (isWeekend && stats.weekend >= person.weekendLimit) return false;
-
-          // 7. Thursday-Weekend Conflict
-          if (isSat && this.hasShiftOnDay(dayAssignmentsMap, day - 2, person.id)) return false;
-          if (isSun && this.hasShiftOnDay(dayAssignmentsMap, day - 3, person.id)) return false;
-          if (dayOfWeek === 4) {
-             if (this.hasShiftOnDay(dayAssignmentsMap, day + 2, person.id)) return false;
-             if (this.hasShiftOnDay(dayAssignmentsMap, day + 3, person.id)) return false;
-          }
+      // Anlık adalet durumuna bağlı kurallar yedek aramada uyarı değildir
+      const inspectedRules = options.inspect ? this.rules.filter(r => !r.rule.generationOnly) : this.rules;
+      const evaluations: CandidateEvaluation[] = [];
 
-          // --- STRICT HORIZONTAL FAIRNESS (HARD CONSTRAINT) ---
-          // "Aynı kıdem içinde nöbet farkı 1den fazla olamaz."
-          // Applies only to standard staff (no specialty) who haven't maxed out quota.
-          if (person.specialty === 'none' || !person.specialty) {
-              if (stats.total > minShiftsByRole[person.role]) {
-                  return false;
-              }
-          }
+      for (const person of this.staff) {
+          // --- OPTIONS FILTERS ---
+          if (options.restrictRoles !== undefined && !options.restrictRoles.includes(person.role)) continue;
+          if (options.excludeRole !== undefined && person.role === options.excludeRole) continue;
           
-          // --- STRICT SENIOR STACKING (HARD CONSTRAINT) ---
-          if (person.role === 1) {
-              // Rule 1: ABSOLUTE MAX 2 Seniors per day. No exception.
-              if (seniorCountOnDay >= 2) return false;
-              
-              // Rule 2: Try to keep it at 1 if not desperate.
-              if (!options.desperate && seniorCountOnDay >= 1) {
-                  return false;
-              }
-          }
+          // CRITICAL: Mandatory Specialty Reservation (Used in Phase 0)
+          if (options.restrictSpecialty && person.specialty?.trim() !== options.restrictSpecialty) continue;
+          if (options.restrictStaffId !== undefined && person.id !== options.restrictStaffId) continue;
+
+          // --- HARD CONSTRAINTS (Rule Registry) ---
+          // Availability, 24h, unit matching, roommates, quotas, Thursday-weekend,
+          // horizontal fairness, senior stacking and junior priority live in services/rules.ts
+          const ctx: RuleContext = {
+              person, service, day, dayOfWeek,
+              isWeekend, isSat, isSun,
+              isHoliday,
+              stats: staffStats.get(person.id)!,
+              assignedTodayIds,
+              todayAssignments: dayAssignmentsMap.get(day)!,
+              seniorCountOnDay,
+              desperate: !!options.desperate,
+              config: this.config,
+              roommates: this.roommatesMap.get(person.id) || [],
+              getStaff: (id) => this.staffById.get(id),
+              isOnLeave: (staffId, d) => this.leaveMap.get(staffId)?.has(d) ?? false,
+              hasShiftOnDay: (d, staffId) => this.hasShiftOnDay(dayAssignmentsMap, d, staffId),
+              canPlacePartner: (partnerId) => this.canPlacePartner(
+                  partnerId, person, service, day, assignedTodayIds, dayAssignmentsMap, staffStats,
+                  isWeekend, isSat, isSun
+              ),
+              fairness
+          };
+
+          const firstViolated = options.inspect ? null : findViolatedRule(this.rules, ctx);
+          const violatedRules = options.inspect ? collectViolatedRules(inspectedRules, ctx) : (firstViolated ? [firstViolated] : []);
+          const violatedRule = violatedRules[0] ?? null;
+          if (violatedRule && !includeRejected) continue;
 
-          // --- SOFT CONSTRAINTS (Skipped in desperate mode) ---
-          if (!options.desperate) {
-              
-              // 8. STRICT JUNIOR (ROLE 3) PRIORITY (Vertical Fairness)
-              if (person.role === 2 && activeJuniors.length > 0) {
-                  if (stats.total >= minJuniorShifts) {
-                      return false;
-                  }
-              }
-          }
-          
-          return true;
-        }).map(person => {
           const stats = staffStats.get(person.id)!;
           let score = 0;
+          const breakdown: ScoreBreakdown = {};
+          const add = (key: keyof ScoreBreakdown, value: number) => {
+              if (value === 0) return;
+              score += value;
+              breakdown[key] = (breakdown[key] || 0) + value;
+          };
 
           // SCORING LOGIC
 
           // 1. Mandatory Reservation Bonus (Phase 0)
           if (options.restrictSpecialty && person.specialty?.trim() === options.restrictSpecialty) {
-              score += 500000;
+              add('specialty', 500000);
           }
 
           // 2. Specialty Priority (Fallback for Phase 2)
           if (person.specialty && person.specialty !== 'none') {
              const constraint = this.config.unitConstraints.find(c => c.unit.trim() === person.specialty?.trim());
              if (constraint && constraint.allowedDays.includes(dayOfWeek)) {
-                 score += 100000;
+                 add('specialty', 100000);
              }
           }
 
-          // 3. Request Priority
-          if (person.requestedDays && person.requestedDays.includes(day)) {
-              score += 20000;
+          // 3. Request Priority (level + priority; 'unavailable' is a hard rule)
+          const preference = getDayPreference(person, this.config.year, this.config.month, day);
+          if (preference?.level === 'must') {
+              add('mustRequest', Math.round(this.weights.mustRequest * getPriorityFactor(preference)));
+          } else if (preference?.level === 'prefer') {
+              add('request', Math.round(this.weights.request * getPriorityFactor(preference)));
+          } else if (preference?.level === 'preferNot') {
+              add('preferNot', -this.weights.preferNot);
           }
           
           // 4. UNIT DIVERSITY & SATURATION SCORE
@@ -628,7 +1038,7 @@ export class Scheduler {
           
           // A. Diversity Bonus (Start of day)
           if (countToday === 0) {
-              score += 10000;
+              add('unitDiversity', this.weights.unitDiversity);
           }
           
           // B. Saturation Penalty (Prevent "2 KBB today")
@@ -638,62 +1048,86 @@ export class Scheduler {
           const isServiceRestrictedToUnit = service.allowedUnits?.includes(person.unit);
           
           if (countToday > 0 && !isServiceRestrictedToUnit) {
-               score -= 8000; // Strong penalty to push the 2nd KBB to tomorrow
+               add('unitSaturation', -this.weights.unitSaturation); // Strong penalty to push the 2nd KBB to tomorrow
           }
 
           // C. Consecutive Unit Smoothing (Prevent "2 yesterday, 0 today")
           // If KBB worked yesterday, penalize KBB today slightly to encourage spacing.
           // This forces the "1 today, 1 tomorrow" pattern instead of "2 today".
           if (countYesterday > 0 && !isServiceRestrictedToUnit) {
-              score -= 3000; 
+              add('unitSmoothing', -this.weights.unitSmoothing); 
           }
           
           // D. Gap Filling Bonus
           // If no KBB yesterday AND no KBB today (yet), boost to fill the gap
           if (countYesterday === 0 && countToday === 0) {
-              score += 2000;
+              add('gapFill', this.weights.gapFill);
           }
 
           // 5. GLOBAL JUNIOR BIAS
-          if (person.role === 3) {
-              score += 2000; 
+          if (this.roles.isJunior(person.role)) {
+              add('juniorBias', this.weights.juniorBias); 
           }
 
           // 6. Senior Stacking Penalty (Second Senior Discouragement)
           // If 1 senior is present, apply penalty to adding a 2nd one.
           // This allows it if desperate (since hard constraint > 2), but discourages it.
-          if (person.role === 1 && seniorCountOnDay >= 1) {
-              score -= 50000; 
+          if (this.roles.isSenior(person.role) && seniorCountOnDay >= 1) {
+              add('seniorStacking', -this.weights.seniorStacking); 
           }
           
           // 7. SATURDAY SENIOR AVERSION
           // Reduce score for Seniors on Saturday to prevent "Clumping" on the hardest day
-          // This forces the algorithm to pick Role 2/3 for Saturday slots first.
+          // This forces the algorithm to pick non-senior roles for Saturday slots first.
           // Phase 1 still guarantees 1 senior, but Phase 2 won't pick a 2nd one easily,
           // and Phase 1 will pick the Senior with the LEAST shifts anyway.
-          if (person.role === 1 && isSat) {
-              score -= 5000;
+          if (this.roles.isSenior(person.role) && isSat) {
+              add('saturdaySenior', -this.weights.saturdaySenior);
           }
 
-          // 8. Quota Hunger (High Weight)
-          const remaining = person.quotaService - stats.total;
-          score += (remaining * 3000); // Increased weight to overcome soft penalties if necessary
+          // 8. Quota Hunger (High Weight) - remaining target hours in shift equivalents
+          const remaining = toShiftEquivalents(getTargetHours(person) - stats.hours);
+          add('quotaHunger', remaining * this.weights.quotaHunger); // Increased weight to overcome soft penalties if necessary
 
-          // 9. Weekend Fairness
-          if (isWeekend) score -= (stats.weekend * 2000);
+          // 8b. Minimum Quota (contractual lower bound)
+          const minimumGap = toShiftEquivalents(this.quotaBounds.get(person.id)!.min - stats.hours);
+          if (minimumGap > 0) add('quotaMinimum', minimumGap * this.weights.quotaMinimum);
 
-          // 10. Spread (Soft Constraint)
-          if (this.config.preventEveryOtherDay) {
-              if (this.hasShiftOnDay(dayAssignmentsMap, day - 2, person.id)) score -= 1000;
+          // 9. Weekend Fairness
+          if (isWeekend) add('weekendFairness', -(stats.weekend * this.weights.weekendFairness));
+
+          // 9b. Holiday Fairness (bayramlar haftasonundan ayrı sayılır)
+          if (isHoliday) add('holidayFairness', -(stats.holiday * this.weights.holidayFairness));
+
+          // 10. Rest Rules (Soft Limits) - kesin değerler kural kayıt defterinde
+          const hasShift = (d: number) => this.hasShiftOnDay(dayAssignmentsMap, d, person.id);
+          const { minDaysBetween, maxPerWeek, maxConsecutive, dayPairExclusions } = this.restRules;
+          if (minDaysBetween.soft) add('everyOtherDay', -(countShiftsWithinGap(day, minDaysBetween.soft, hasShift) * this.weights.everyOtherDay));
+          if (maxPerWeek.soft !== undefined) add('restWeekly', -(Math.max(0, getRollingWeekLoad(day, hasShift) - maxPerWeek.soft) * this.weights.restWeekly));
+          if (maxConsecutive.soft !== undefined && getConsecutiveRun(day, hasShift) > maxConsecutive.soft) add('restConsecutive', -this.weights.restConsecutive);
+          const softPairHits = dayPairExclusions.filter(ex => !ex.hard && violatesDayPair(ex, day, dayOfWeek, hasShift)).length;
+          add('restDayPair', -(softPairHits * this.weights.restDayPair));
+
+          // 11. Multi-month Fairness (Ledger)
+          // Geçmiş aylarda fazla yüklenen kişi bu ay daha hafif yüke itilir, az yüklenen öne çıkar.
+          const pressure = this.ledgerPressure.get(person.id);
+          if (pressure) {
+              if (isWeekend) add('ledgerWeekend', -(pressure.weekendExcess * this.weights.ledgerWeekend));
+              add('ledgerTotal', -(pressure.overQuota * this.weights.ledgerTotal));
           }
 
-          score += Math.random() * 500;
+          // 12. Pair Constraints (kesin "birlikte olmasın" kural kayıt defterinde engellenir)
+          const apartCount = getPairPartners(this.config.pairConstraints, person.id, 'never', false).filter(id => assignedTodayIds.has(id)).length;
+          add('pairApart', -(apartCount * this.weights.pairApart));
+          const togetherCount = getPairPartners(this.config.pairConstraints, person.id, 'always').filter(id => assignedTodayIds.has(id)).length;
+          add('pairTogether', togetherCount * this.weights.pairTogether);
 
-          return { person, score };
-        });
+          // Jitter only for eligible candidates: keeps the random stream independent of tracing
+          if (!violatedRule && !options.inspect) add('jitter', this.random() * this.weights.jitter);
 
-      candidates.sort((a, b) => b.score - a.score);
+          evaluations.push({ person, score, breakdown, violatedRule, violatedRules });
+      }
 
-      return candidates.length > 0 ? candidates[0].person : null;
+      return evaluations;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { Scheduler } from './scheduler';
+import { ExactScheduler } from './exactScheduler';
+import { repairSchedule } from './repair';
+import { SchedulerWorkerRequest, SchedulerWorkerResponse } from '../types';
+
+// Dedicated worker: Scheduler.generate() burada çalışır, ana thread (UI) donmaz.
+const ctx = self as unknown as Worker;
+
+const post = (message: SchedulerWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (e: MessageEvent<SchedulerWorkerRequest>) => {
+    const { staff, services, config, repair } = e.data;
+    try {
+        if (repair) {
+            const result = repairSchedule(repair.published, staff, services, config, repair.absences, progress => post({ type: 'progress', progress }));
+            post({ type: 'done', result });
+            return;
+        }
+        const scheduler = config.engine === 'exact'
+            ? new ExactScheduler(staff, services, config)
+            : new Scheduler(staff, services, config);
+        const result = scheduler.generate(progress => post({ type: 'progress', progress }));
+        post({ type: 'done', result });
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,51 @@
+import { Staff, Service, SchedulerConfig, ScheduleResult, SchedulerProgress, SchedulerWorkerRequest, SchedulerWorkerResponse, RepairRequest } from '../types';
+
+export interface SchedulerJob {
+    // İptal edilirse null ile çözülür
+    promise: Promise<ScheduleResult | null>;
+    cancel: () => void;
+}
+
+export const runSchedulerInWorker = (
+    staff: Staff[],
+    services: Service[],
+    config: SchedulerConfig,
+    onProgress?: (progress: SchedulerProgress) => void,
+    repair?: RepairRequest
+): SchedulerJob => {
+    const worker = new Worker(new URL('./scheduler.worker.ts', import.meta.url), { type: 'module' });
+    let settle: (result: ScheduleResult | null) => void = () => {};
+
+    const promise = new Promise<ScheduleResult | null>((resolve, reject) => {
+        settle = (result) => {
+            worker.terminate();
+            resolve(result);
+        };
+
+        worker.onmessage = (e: MessageEvent<SchedulerWorkerResponse>) => {
+            const message = e.data;
+            if (message.type === 'progress') {
+                if (onProgress) onProgress(message.progress);
+            } else if (message.type === 'done') {
+                settle(message.result);
+            } else {
+                worker.terminate();
+                reject(new Error(message.message));
+            }
+        };
+
+        worker.onerror = (e: ErrorEvent) => {
+            worker.terminate();
+            reject(new Error(e.message || "Worker hatası"));
+        };
+
+        const request: SchedulerWorkerRequest = { staff, services, config, repair };
+        worker.postMessage(request);
+    });
+
+    return {
+        promise,
+        // terminate() hesaplamayı anında durdurur
+        cancel: () => settle(null)
+    };
+};
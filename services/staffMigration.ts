@@ -0,0 +1,25 @@
+import { DayPreference, LeaveRecord, Staff } from '../types';
+import { daysToLeaveRecords } from './leave';
+import { DEFAULT_REQUEST_PRIORITY } from './preferences';
+
+// Old saved data (localStorage, backups, presets, share links) is upgraded here.
+// Eski sürümlerde izinler (offDays), istekler (requestedDays) ve ay bilgisi olmayan gün tercihleri sadece seçili ayın gün numaralarıydı.
+// İzinler o anki seçili aya ait yıllık izin kaydına, istekler Normal öncelikli tercih isteğine çevrilir; tercihler o aya tarihlenir.
+
+type LegacyDayPreference = Omit<DayPreference, 'year' | 'month'> & Partial<Pick<DayPreference, 'year' | 'month'>>;
+
+type LegacyStaff = Omit<Staff, 'leaves' | 'dayPreferences'> & {
+    leaves?: LeaveRecord[];
+    dayPreferences?: LegacyDayPreference[];
+    offDays?: number[];
+    requestedDays?: number[];
+};
+
+export const migrateStaff = (staff: LegacyStaff[], year: number, month: number): Staff[] => {
+    return staff.map(({ offDays, requestedDays, ...rest }) => {
+        const leaves = [...(rest.leaves || []), ...daysToLeaveRecords(offDays || [], year, month, 'annual')];
+        const legacyPreferences: LegacyDayPreference[] = rest.dayPreferences || (requestedDays || []).map(day => ({ day, level: 'prefer', priority: DEFAULT_REQUEST_PRIORITY }));
+        const dayPreferences = legacyPreferences.map(p => ({ ...p, year: p.year ?? year, month: p.month ?? month }));
+        return { ...rest, leaves, dayPreferences };
+    });
+};
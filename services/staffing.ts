@@ -0,0 +1,48 @@
+import { Holiday, SchedulerConfig, Service, StaffingLevel, StaffingPlan } from '../types';
+import { toDateKey } from './holidays';
+
+// Day-specific staffing levels.
+// Servislerin min-max sayıları ve günlük toplam hedef gün bazında çözülür; motorlar ve denetim
+// servisleri her gün için çözülmüş kopyalarıyla kullanır.
+
+export const resolvePlanValue = <T>(
+    plan: StaffingPlan<T> | undefined,
+    fallback: T,
+    year: number,
+    month: number,
+    day: number,
+    holiday: Holiday | undefined
+): T => {
+    if (!plan) return fallback;
+    const dated = plan.dates?.[toDateKey(year, month, day)];
+    if (dated !== undefined) return dated;
+    if (holiday && !holiday.halfDay && plan.holiday !== undefined) return plan.holiday;
+    const weekday = plan.weekdays?.[new Date(year, month, day).getDay()];
+    return weekday !== undefined ? weekday : fallback;
+};
+
+// Servisin o günkü min-max değerleri uygulanmış kopyası (plan yoksa servisin kendisi)
+export const resolveServiceForDay = (service: Service, config: SchedulerConfig, day: number, holiday: Holiday | undefined): Service => {
+    if (!service.staffing) return service;
+    const level: StaffingLevel = resolvePlanValue(
+        service.staffing,
+        { min: service.minDailyCount, max: service.maxDailyCount },
+        config.year, config.month, day, holiday
+    );
+    if (level.min === service.minDailyCount && level.max === service.maxDailyCount) return service;
+    return { ...service, minDailyCount: level.min, maxDailyCount: Math.max(level.min, level.max) };
+};
+
+export const resolveDayServices = (services: Service[], config: SchedulerConfig, day: number, holiday: Holiday | undefined): Service[] =>
+    services.map(s => resolveServiceForDay(s, config, day, holiday));
+
+export const resolveDailyTarget = (config: SchedulerConfig, day: number, holiday: Holiday | undefined): number =>
+    resolvePlanValue(config.dailyTotalTargetPlan, config.dailyTotalTarget, config.year, config.month, day, holiday);
+
+// Planda en az bir değer tanımlı mı
+export const hasPlanEntries = <T>(plan: StaffingPlan<T> | undefined): boolean =>
+    !!plan && (
+        Object.keys(plan.weekdays || {}).length > 0 ||
+        plan.holiday !== undefined ||
+        Object.keys(plan.dates || {}).length > 0
+    );
@@ -0,0 +1,84 @@
+import { ScoringWeights, WeightProfile } from '../types';
+
+// Varsayılan (Dengeli) ağırlıklar - eski sabit değerlerle birebir aynı
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+    request: 20000,
+    mustRequest: 100000,
+    preferNot: 15000,
+    unitDiversity: 10000,
+    unitSaturation: 8000,
+    unitSmoothing: 3000,
+    gapFill: 2000,
+    juniorBias: 2000,
+    seniorStacking: 50000,
+    saturdaySenior: 5000,
+    quotaHunger: 3000,
+    quotaMinimum: 4000,
+    weekendFairness: 2000,
+    holidayFairness: 3000,
+    everyOtherDay: 1000,
+    restWeekly: 5000,
+    restConsecutive: 5000,
+    restDayPair: 5000,
+    ledgerWeekend: 1500,
+    ledgerTotal: 1000,
+    pairApart: 30000,
+    pairTogether: 30000,
+    jitter: 500
+};
+
+// Eski kayıt / yedek / hazır ayarlarda olmayan yeni ağırlık anahtarlarını varsayılanla tamamlar
+export const withDefaultWeights = (profile: WeightProfile): WeightProfile => ({
+    ...profile,
+    weights: { ...DEFAULT_WEIGHTS, ...profile.weights }
+});
+
+export const WEIGHT_PRESETS: WeightProfile[] = [
+    {
+        id: 'balanced',
+        name: 'Dengeli (Varsayılan)',
+        description: 'Standart ayarlar. İstekler, hedefler ve haftasonu dengesi birlikte gözetilir.',
+        weights: DEFAULT_WEIGHTS,
+        builtIn: true
+    },
+    {
+        id: 'fairness',
+        name: 'Adalet Öncelikli',
+        description: 'Hedef ve haftasonu eşitliği isteklerden daha önemlidir.',
+        weights: { ...DEFAULT_WEIGHTS, request: 4000, quotaHunger: 6000, weekendFairness: 8000, holidayFairness: 8000, everyOtherDay: 2000, ledgerWeekend: 5000, ledgerTotal: 3000, jitter: 200 },
+        builtIn: true
+    },
+    {
+        id: 'requests',
+        name: 'İstek Öncelikli',
+        description: 'Personelin nöbet istekleri mümkün olduğunca karşılanır.',
+        weights: { ...DEFAULT_WEIGHTS, request: 80000, quotaHunger: 2000, weekendFairness: 1000 },
+        builtIn: true
+    }
+];
+
+export const WEIGHT_LABELS: Record<keyof ScoringWeights, { label: string; penalty?: boolean }> = {
+    request: { label: 'Nöbet İsteği (Tercih)' },
+    mustRequest: { label: 'Nöbet İsteği (Zorunlu)' },
+    preferNot: { label: 'Tercihen Olmasın Günü', penalty: true },
+    quotaHunger: { label: 'Hedefe Yaklaşma (kalan nöbet başına)' },
+    quotaMinimum: { label: 'En Az Nöbete Ulaşma (eksik nöbet başına)' },
+    weekendFairness: { label: 'Haftasonu Adaleti (tutulan HS başına)', penalty: true },
+    holidayFairness: { label: 'Bayram Adaleti (tutulan tatil günü başına)', penalty: true },
+    unitDiversity: { label: 'Branş Çeşitliliği' },
+    unitSaturation: { label: 'Aynı Gün Aynı Branş', penalty: true },
+    unitSmoothing: { label: 'Dün Aynı Branş', penalty: true },
+    gapFill: { label: 'Boş Branş Günü Doldurma' },
+    juniorBias: { label: 'Yeni Personel Tercihi' },
+    seniorStacking: { label: 'Aynı Gün 2. Kıdemli', penalty: true },
+    saturdaySenior: { label: 'Cumartesi Kıdemli', penalty: true },
+    everyOtherDay: { label: 'Nöbetler Arası Az Gün (esnek, yakın nöbet başına)', penalty: true },
+    restWeekly: { label: '7 Günlük Sınır Aşımı (esnek, fazla nöbet başına)', penalty: true },
+    restConsecutive: { label: 'Art Arda Gün Aşımı (esnek)', penalty: true },
+    restDayPair: { label: 'Gün Çifti Kısıtı (esnek)', penalty: true },
+    ledgerWeekend: { label: 'Geçmiş Aylar HS Yükü (ortalama üstü HS başına)', penalty: true },
+    ledgerTotal: { label: 'Geçmiş Aylar Fazla Nöbet (hedef üstü nöbet başına)', penalty: true },
+    pairApart: { label: 'Birlikte Olmasın (Esnek Çift)', penalty: true },
+    pairTogether: { label: 'Birlikte Olsun (Çift)' },
+    jitter: { label: 'Rastgelelik (Gürültü)' }
+};
@@ -1,31 +1,101 @@
 
 
-export type Role = number; // 1 (Kıdemli), 2 (Orta), 3 (Yeni/Çömez)
+export type Role = number; // RoleConfig.role (varsayılan: 1 Kıdemli, 2 Tecrübeli, 3 Yeni/Çömez)
 export type Specialty = string; // Changed from union to string for dynamic support
 
 export interface Staff {
   id: string;
   name: string;
-  role: number; // 1: Sorumlu/Kıdemli, 2: Tecrübeli, 3: Yeni Başlayan
+  role: number; // RoleConfig.role (varsayılan: 1 Sorumlu/Kıdemli, 2 Tecrübeli, 3 Yeni Başlayan)
   unit: string; // Branş: 'Genel Cerrahi', 'KBB' vb.
   specialty?: Specialty; // 'none', 'Transplantasyon', 'Yara Bakım' vb.
   room: string; // Salon No / Oda No
-  quotaService: number; // Aylık Toplam Nöbet Hedefi
+  quotaService: number; // Aylık Toplam Nöbet Hedefi (tam zamanlı; saat hedefi sözleşme yoksa bundan türetilir)
+  contractHours?: number; // Aylık sözleşme saati (doluysa hedef budur)
+  fte?: number; // Çalışma oranı (0.5 = yarı zamanlı): saat hedefi = oran × nöbet hedefi × 24
+  quotaMin?: number; // Aylık en az nöbet (sözleşme alt sınırı, boşsa rol tanımı)
+  quotaMax?: number; // Aylık en fazla nöbet (boşsa rol tanımı, o da yoksa hedef tavandır)
   weekendLimit: number; // Haftasonu Limiti
-  offDays: number[]; // İzinli Günler
-  requestedDays: number[]; // Nöbet İsteği
+  holidayLimit?: number; // Bayram / Resmi Tatil Limiti (boşsa sınırsız)
+  overtimeVolunteer?: boolean; // Kotası dolsa da acil yedek olarak fazla mesaiye gönüllü
+  leaves: LeaveRecord[]; // İzin kayıtları (tarih aralığı, aylar arası geçerli)
+  dayPreferences: DayPreference[]; // Gün tercihleri (nöbet alamaz, tercihen olmasın, istekler), ay bazında tarihli
   isActive: boolean; // Listeye dahil mi?
 }
 
+// unavailable: kesin, preferNot: cezalı, prefer / must: öncelikli istekler
+export type DayPreferenceLevel = 'unavailable' | 'preferNot' | 'prefer' | 'must';
+export type RequestPriority = 1 | 2 | 3; // 1: Yüksek, 2: Normal, 3: Düşük
+
+export interface DayPreference {
+  year: number;
+  month: number; // 0-11; sadece bu aya ait
+  day: number;
+  level: DayPreferenceLevel;
+  priority?: RequestPriority; // Sadece istekler için (yoksa Normal)
+}
+
+export type LeaveType = 'annual' | 'sick' | 'training' | 'maternity';
+
+export interface LeaveRecord {
+  id: string;
+  type: LeaveType;
+  start: string; // YYYY-MM-DD (dahil)
+  end: string; // YYYY-MM-DD (dahil)
+  note?: string;
+}
+
+// never: aynı gün birlikte yazılmaz, always: biri yazılırsa diğeri de aynı gün yazılır
+export type PairConstraintKind = 'never' | 'always';
+
+export interface PairConstraint {
+    id: string;
+    staffA: string;
+    staffB: string;
+    kind: PairConstraintKind;
+    hard: boolean; // false = sadece puanlamada ödül/ceza
+}
+
+// Bir dinlenme sınırının kesin ve esnek değerleri (boş = o düzey kapalı)
+export interface RestLimit {
+    hard?: number; // Aşılırsa aday seçilmez
+    soft?: number; // Aşılırsa puandan ceza düşülür
+}
+
+// "fromDay nöbeti, izleyen ilk toDay nöbetini engeller" (0=Pazar ... 6=Cmt)
+export interface DayPairExclusion {
+    id: string;
+    fromDay: number;
+    toDay: number;
+    hard: boolean;
+}
+
+export interface RestRulesConfig {
+    minDaysBetween: RestLimit; // İki nöbet arasında en az boş gün (1 = art arda nöbet yok)
+    maxPerWeek: RestLimit; // Herhangi 7 günlük pencerede en fazla nöbet
+    maxConsecutive: RestLimit; // En fazla art arda nöbet günü
+    dayPairExclusions: DayPairExclusion[];
+}
+
 export interface UnitConstraint {
     unit: string; // Can be a Unit name OR a Specialty name
     allowedDays: number[]; // 0=Pazar, 1=Pzt, ..., 6=Cmt
 }
 
+// Kıdem tanımı. Personel kaydındaki `role` değeri bu tanımın `role` alanına karşılık gelir.
+// Eski kayıtlarda eksik alanlar services/roles.ts varsayılanlarıyla tamamlanır (1: Kıdemli, 2: Tecrübeli, 3: Yeni/Çömez)
 export interface RoleConfig {
   role: number;
   quotaService: number;
   weekendLimit: number;
+  name?: string;
+  order?: number; // Küçük değer = daha kıdemli. En alt sıradaki roller "yeni personel" sayılır
+  countsAsSenior?: boolean; // Günlük kıdemli garantisi, kıdemli yığılması, Excel "(K)" işareti
+  floatPool?: boolean; // Servis branş ve branş-gün kısıtlarından muaf (her servise yazılabilir)
+  dailyMin?: number; // Günde en az bu rolden (Faz 1'de doldurulur)
+  dailyMax?: number; // Günde en fazla bu rolden (kesin)
+  quotaMin?: number; // Kişi başı aylık en az nöbet (tam zamanlı; yarı zamanlıda oranla ölçeklenir)
+  quotaMax?: number; // Kişi başı aylık en fazla nöbet (tam zamanlı; yarı zamanlıda oranla ölçeklenir)
 }
 
 export interface Service {
@@ -33,7 +103,31 @@ export interface Service {
   name: string;
   minDailyCount: number; 
   maxDailyCount: number;
+  shiftHours?: number; // Nöbet süresi (saat, boşsa 24)
   allowedUnits?: string[]; // Sadece bu branşlar buraya yazılabilir (Boşsa herkes)
+  composition?: RoleCompositionRule[]; // Servisin günlük kıdem dağılımı kuralları
+  staffing?: StaffingPlan<StaffingLevel>; // Haftanın günü / bayram / tarih bazlı kişi sayısı (boşsa her gün min-max)
+}
+
+export interface StaffingLevel {
+  min: number;
+  max: number;
+}
+
+// Gün bazlı sayı planı. Öncelik: tarih > bayram > haftanın günü > varsayılan değer
+export interface StaffingPlan<T> {
+  weekdays?: Partial<Record<number, T>>; // 0 = Pazar ... 6 = Cumartesi
+  holiday?: T; // Tam gün bayram / resmi tatil (arife hariç)
+  dates?: Record<string, T>; // YYYY-MM-DD
+}
+
+// Bir servisin günlük ekibinde belirtilen kıdemlerden en az / en fazla kaç kişi olacağı
+// Örn: { roles: [1, 2], min: 1 } = "en az 1 tecrübeli", { roles: [3], max: 1 } = "en fazla 1 yeni"
+export interface RoleCompositionRule {
+  id: string;
+  roles: number[];
+  min?: number;
+  max?: number;
 }
 
 export interface ShiftAssignment {
@@ -48,6 +142,16 @@ export interface DaySchedule {
   day: number;
   assignments: ShiftAssignment[];
   isWeekend: boolean;
+  holiday?: Holiday; // Resmi/dini bayram veya hastaneye özel tatil
+}
+
+export type HolidayKind = 'national' | 'religious' | 'custom';
+
+export interface Holiday {
+    date: string; // YYYY-MM-DD
+    name: string;
+    halfDay?: boolean; // Arife: öğleden sonra tatil
+    kind: HolidayKind;
 }
 
 export interface Stats {
@@ -56,6 +160,9 @@ export interface Stats {
     weekendShifts: number;
     saturdayShifts: number;
     sundayShifts: number;
+    holidayShifts: number;
+    hoursWorked?: number; // Eski kayıtlı çizelgelerde yok
+    targetHours?: number; // Sözleşme / hedef saat
 }
 
 export interface ScheduleResult {
@@ -63,6 +170,135 @@ export interface ScheduleResult {
   unfilledSlots: number;
   logs: string[]; 
   stats: Stats[];
+  seed?: number; // Üretimde kullanılan tohum
+  attemptIndex?: number; // Kazanan denemenin sırası (0'dan başlar)
+  traces?: AssignmentTrace[]; // Kazanan denemenin atama bazlı karar kaydı
+  improvement?: ScheduleImprovement; // Yerel arama aşaması çalıştıysa
+  optimality?: OptimalityReport; // Sadece kesin çözücü doldurur
+  repair?: RepairReport; // Sadece yayın sonrası onarım doldurur
+  alternatives?: ScheduleAlternative[]; // En iyiden başlayarak farklı çözümler (kazanan dahil, sadece config.alternatives > 1)
+}
+
+// One of the top-N distinct attempts kept by Scheduler.generate, with comparison metrics
+export interface ScheduleAlternative {
+    attemptIndex: number;
+    schedule: DaySchedule[];
+    stats: Stats[];
+    unfilledSlots: number;
+    traces?: AssignmentTrace[];
+    improvement?: ScheduleImprovement;
+    objective: ScheduleObjective;
+    requestsMet: number; // Karşılanan istek ("istiyor" + "mutlaka") sayısı
+    requestsTotal: number;
+}
+
+// Optimallik yalnızca sezgisel çözümün kapsamasını (boş slot, kompozisyon) koruyan çizelgeler arasında geçerlidir
+export interface OptimalityReport {
+    optimalForHeuristicCoverage: boolean;
+    objective: number; // Bulunan en iyi çözümün amaç değeri
+    lowerBound: number; // Aynı kapsamayı sağlayan hiçbir çözüm bundan iyi olamaz
+    nodes: number;
+    elapsedMs: number;
+    improvedOnHeuristic: boolean; // false = sezgisel başlangıç çözümü aşılamadı
+}
+
+// Score components of a single candidate evaluation (only non-zero entries are kept)
+export type ScoreBreakdown = Partial<Record<keyof ScoringWeights | 'specialty', number>>;
+
+export interface RejectedCandidate {
+    staffId: string;
+    staffName: string;
+    score: number; // Kural engelliyse engel olmasaydı alacağı puan (titreşimsiz)
+    ruleId?: string; // Boşsa kural engeli yok, sadece puanı düşük kaldı
+}
+
+// Why an EMPTY slot could not be filled (computed from the finished schedule)
+export interface SlotBlocker {
+    staffId: string;
+    ruleIds: string[]; // Bu kişiyi engelleyen tüm kurallar
+}
+
+export interface SlotSuggestion {
+    staffId: string;
+    actions: string[]; // Hepsi uygulanırsa kişi bu slota yazılabilir
+}
+
+export interface SlotDiagnostic {
+    day: number;
+    serviceId: string;
+    blockers: SlotBlocker[];
+    suggestions: SlotSuggestion[];
+}
+
+// Emergency replacement for one slot, ranked with the scheduler's own scoring and hard rules
+export interface ReplacementCandidate {
+    staffId: string;
+    score: number; // Titreşimsiz üretim puanı
+    breakdown: ScoreBreakdown;
+    ruleIds: string[]; // İhlal edilecek kesin kurallar (uyarı olarak gösterilir)
+    overtime: boolean; // Kotası dolu ama fazla mesaiye gönüllü: kota ihlali engel sayılmaz
+}
+
+// Explain-why record for one assignment
+export interface AssignmentTrace {
+    day: number;
+    serviceId: string;
+    staffId: string;
+    phase: 0 | 1 | 2 | 3 | 4;
+    desperate: boolean; // Esnek modda (yumuşak kurallar gevşetilerek) mi seçildi
+    score: number;
+    breakdown: ScoreBreakdown;
+    rejected: RejectedCandidate[];
+}
+
+// Soft constraint weights used by Scheduler.findBestCandidate
+// Cezalar (penalty) pozitif büyüklük olarak tutulur ve puandan düşülür.
+export interface ScoringWeights {
+    request: number;          // Nöbet isteği (tercih) bonusu, öncelikle çarpılır
+    mustRequest: number;      // Zorunlu nöbet isteği bonusu, öncelikle çarpılır
+    preferNot: number;        // "Tercihen olmasın" gününe yazma cezası
+    unitDiversity: number;    // Gün içinde branş çeşitliliği bonusu
+    unitSaturation: number;   // Aynı gün 2. aynı branş cezası
+    unitSmoothing: number;    // Dün aynı branş varsa ceza
+    gapFill: number;          // Dün ve bugün branş boşsa bonus
+    juniorBias: number;       // Yeni personel (en alt kıdem) genel tercih bonusu
+    seniorStacking: number;   // Aynı gün 2. kıdemli cezası
+    saturdaySenior: number;   // Cumartesi kıdemli cezası
+    quotaHunger: number;      // Kalan hedef başına bonus
+    quotaMinimum: number;     // En az nöbetin altında kalan nöbet başına bonus
+    weekendFairness: number;  // Tutulan haftasonu başına ceza
+    holidayFairness: number;  // Tutulan bayram/tatil günü başına ceza
+    everyOtherDay: number;    // Esnek "nöbetler arası en az gün" altında kalan her nöbet için ceza
+    restWeekly: number;       // Esnek 7 günlük sınırı aşan nöbet başına ceza
+    restConsecutive: number;  // Esnek art arda gün sınırı aşılırsa ceza
+    restDayPair: number;      // Esnek gün çifti kısıtı başına ceza
+    ledgerWeekend: number;    // Geçmiş aylarda ortalamanın üstündeki HS başına ceza
+    ledgerTotal: number;      // Geçmiş aylarda hedef üstü nöbet başına ceza
+    pairApart: number;        // "Birlikte olmasın" (esnek) eşi bugün nöbetçiyse ceza
+    pairTogether: number;     // "Birlikte olsun" eşi bugün nöbetçiyse bonus
+    jitter: number;           // Rastgele gürültü aralığı
+}
+
+export interface WeightProfile {
+    id: string;
+    name: string;
+    description?: string;
+    weights: ScoringWeights;
+    builtIn?: boolean; // Hazır profiller silinemez
+}
+
+// Kural kayıt defterindeki (services/rules.ts) bir kuralın departman ayarı
+export interface RuleSetting {
+    id: string;
+    enabled: boolean;
+    params?: Record<string, number>;
+}
+
+export interface RuleViolation {
+    day: number;
+    serviceId: string;
+    staffId: string;
+    ruleId: string;
 }
 
 export interface SchedulerConfig {
@@ -70,9 +306,132 @@ export interface SchedulerConfig {
   month: number; 
   maxRetries: number;
   randomizeOrder: boolean; 
-  preventEveryOtherDay: boolean;
+  restRules?: RestRulesConfig; // Boşsa DEFAULT_REST_RULES (art arda yok, gün aşırı esnek, Perşembe-Haftasonu)
   unitConstraints: UnitConstraint[];
   dailyTotalTarget: number; // GÜNLÜK TOPLAM NÖBETÇİ HEDEFİ
+  dailyTotalTargetPlan?: StaffingPlan<number>; // Haftanın günü / bayram / tarih bazlı hedef (boşsa her gün dailyTotalTarget)
+  seed?: number; // Boşsa rastgele üretilir. Aynı tohum + aynı girdi = aynı çizelge
+  weights?: ScoringWeights; // Boşsa DEFAULT_WEIGHTS
+  rules?: RuleSetting[]; // Boşsa tüm kurallar varsayılan parametrelerle aktif
+  localSearch?: LocalSearchConfig; // Boşsa iyileştirme aşaması çalışmaz
+  engine?: SchedulerEngine; // Boşsa 'heuristic'
+  exactTimeLimitMs?: number; // Sadece 'exact' motorunda
+  carryOver?: CarryOverHistory; // Önceki ayın son günleri (ay sınırı kuralları için)
+  fairnessLedger?: LedgerBalance[]; // Son N ayın toplamları (çok aylı adalet)
+  holidays?: Holiday[]; // Tatil takvimi (hazır + özel tarihler). Boşsa sadece haftasonu bilinir
+  pairConstraints?: PairConstraint[]; // Personel çifti kuralları (birlikte olmasın / birlikte olsun)
+  roles?: Record<number, RoleConfig>; // Kıdem tanımları. Boşsa varsayılan 1/2/3 hiyerarşisi
+  pins?: SchedulePins; // Sabitlenen atamalar ve kilitli günler (başka aya aitse yok sayılır)
+  alternatives?: number; // Saklanacak farklı çözüm sayısı (boş veya 1 = sadece en iyisi)
+}
+
+// Bir personelin bir aydaki kesinleşmiş yükü
+export interface LedgerCounts {
+    total: number;
+    weekend: number;
+    saturday: number;
+    sunday: number;
+    holiday: number;
+    quotaDeviation: number; // Gerçekleşen - hedef, nöbet eşdeğeri (+: fazla nöbet tuttu)
+}
+
+// Adalet defterinde arşivlenmiş bir ay
+export interface LedgerMonth {
+    year: number;
+    month: number;
+    entries: Record<string, LedgerCounts>; // staffId -> o ayın sayımları
+}
+
+// Defterin seçili aydan önceki son N ayının kişi bazlı toplamı
+export interface LedgerBalance extends LedgerCounts {
+    staffId: string;
+    months: number; // Kişinin defterde yer aldığı ay sayısı
+}
+
+// Arşive kaydedilmiş bir ayın kesinleşmiş çizelgesi
+export interface SavedSchedule {
+    year: number;
+    month: number;
+    savedAt: string; // ISO tarih
+    schedule: DaySchedule[];
+}
+
+// Önceki ayın son günleri: üretimde değiştirilmez, sadece dinlenme kurallarında okunur
+export interface CarryOverHistory {
+    year: number;
+    month: number; // Önceki ay (0-11)
+    source: 'saved' | 'excel';
+    days: DaySchedule[]; // Önceki ayın kendi gün numaralarıyla
+}
+
+// Elle sabitlenen tek bir atama: üretimde önceden yerleştirilir, hiçbir aşamada yerinden oynatılmaz
+export interface PinnedAssignment {
+    day: number;
+    serviceId: string;
+    staffId: string;
+}
+
+// Bir ayın sabitlemeleri. Kilitli günlere yeni atama yapılmaz; o günün atamaları da sabitlenmiş olarak tutulur
+export interface SchedulePins {
+    year: number;
+    month: number;
+    assignments: PinnedAssignment[];
+    lockedDays: number[];
+    lockAddedAssignments?: PinnedAssignment[]; // Gün kilidinin eklediği sabitlemeler (kilit kalkınca sadece bunlar kalkar)
+}
+
+export type SchedulerEngine = 'heuristic' | 'exact';
+
+// Improvement pass that runs on the winning attempt after Phase 3
+export interface LocalSearchConfig {
+    enabled: boolean;
+    maxIterations: number; // Arama bütçesi: aynı tohumla her makinede aynı sonuç
+    safetyLimitMs: number; // Sadece güvenlik sınırı: aşılırsa arama kesilir (sonuç tekrar üretilemez, raporda işaretlenir)
+}
+
+export interface ScheduleObjective {
+    unfilledSlots: number;
+    quotaDeviation: number; // Σ |hedef - gerçekleşen|
+    minimumShortfall: number; // Σ en az nöbetin altında kalan (nöbet eşdeğeri)
+    weekendSpread: number; // Haftasonu sayılarının ortalamadan sapmalarının kareleri toplamı (defter varsa geçmiş aylar dahil)
+    unmetRequests: number;
+    total: number; // Ağırlıklı toplam (küçük = iyi)
+}
+
+export interface ScheduleImprovement {
+    before: ScheduleObjective;
+    after: ScheduleObjective;
+    iterations: number;
+    acceptedMoves: number;
+    elapsedMs: number;
+    stoppedBySafetyLimit: boolean; // İterasyon bütçesi bitmeden güvenlik süresi doldu
+}
+
+// Yayınlanmış çizelgeden sonra bildirilen yokluk (ör. 12-18 arası sağlık raporu)
+export interface RepairAbsence {
+    staffId: string;
+    startDay: number;
+    endDay: number; // Dahil
+    type: LeaveType;
+}
+
+// Onarımda değişen tek slot ('EMPTY' = boş slot)
+export interface ScheduleChange {
+    day: number;
+    serviceId: string;
+    fromStaffId: string;
+    toStaffId: string;
+}
+
+export interface RepairReport {
+    absences: RepairAbsence[];
+    changes: ScheduleChange[];
+    released: number; // Boş slotları doldurmak için serbest bırakılan komşu atama sayısı (0 = sadece boşalanlar)
+}
+
+export interface RepairRequest {
+    published: DaySchedule[];
+    absences: RepairAbsence[];
 }
 
 export interface Preset {
@@ -84,5 +443,32 @@ export interface Preset {
     customUnits: string[];
     customSpecialties: string[];
     dailyTotalTarget: number;
+    dailyTotalTargetPlan?: StaffingPlan<number>;
     unitConstraints: UnitConstraint[];
-}
\ No newline at end of file
+    weightProfile?: WeightProfile;
+    ruleSettings?: RuleSetting[];
+    pairConstraints?: PairConstraint[];
+    restRules?: RestRulesConfig;
+}
+
+// --- WEB WORKER MESSAGING ---
+
+export interface SchedulerProgress {
+    attempt: number; // 1'den başlar
+    totalAttempts: number;
+    bestUnfilledSlots: number;
+    bestDeviation: number;
+    stage?: 'improve' | 'exact'; // improve: attempt = iterasyon, exact: attempt = geçen ms
+}
+
+export interface SchedulerWorkerRequest {
+    staff: Staff[];
+    services: Service[];
+    config: SchedulerConfig;
+    repair?: RepairRequest; // Doluysa yeni çizelge yerine yayınlanmış çizelge onarılır
+}
+
+export type SchedulerWorkerResponse =
+    | { type: 'progress'; progress: SchedulerProgress }
+    | { type: 'done'; result: ScheduleResult }
+    | { type: 'error'; message: string };